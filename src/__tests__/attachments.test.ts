@@ -0,0 +1,54 @@
+/**
+ * Tests for chunked attachment encryption
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  createManifest,
+  readChunk,
+  encryptChunk,
+  decryptChunk,
+} from "../attachments.js";
+import { DecryptionError } from "../encryption.js";
+
+describe("Attachments", () => {
+  test("should split a Blob into chunks", async () => {
+    const blob = new Blob(["0123456789"]);
+    const manifest = createManifest("text/plain", blob.size, 4);
+
+    expect(manifest.chunks).toBe(3);
+    const chunks = [];
+    for (let i = 0; i < manifest.chunks; i++) {
+      chunks.push(new TextDecoder().decode(await readChunk(blob, manifest, i)));
+    }
+    expect(chunks).toEqual(["0123", "4567", "89"]);
+  });
+
+  test("should have one chunk for an empty attachment", async () => {
+    const manifest = createManifest("text/plain", 0, 4);
+    const encrypted = await encryptChunk(manifest, 0, new Uint8Array(0));
+
+    expect(manifest.chunks).toBe(1);
+    expect((await decryptChunk(manifest, 0, encrypted)).length).toBe(0);
+  });
+
+  test("should bind chunks to their position and attachment", async () => {
+    const manifest = createManifest("text/plain", 8, 4);
+    const encrypted = await encryptChunk(
+      manifest,
+      0,
+      new TextEncoder().encode("abcd"),
+    );
+
+    await expect(decryptChunk(manifest, 1, encrypted)).rejects.toThrow(
+      DecryptionError,
+    );
+    await expect(
+      decryptChunk({ ...manifest, chunks: 1 }, 0, encrypted),
+    ).rejects.toThrow(DecryptionError);
+    const other = createManifest("text/plain", 8, 4);
+    await expect(decryptChunk(other, 0, encrypted)).rejects.toThrow(
+      DecryptionError,
+    );
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for BlindIndex and TokenIndex
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { BlindIndex, TokenIndex } from "../blindIndex.js";
+import { EncryptionHelper } from "../encryption.js";
+
+describe("BlindIndex", () => {
+  test("should give equal tokens for equal values only", async () => {
+    const index = await BlindIndex.forTable(
+      EncryptionHelper.generate(),
+      "expenses",
+    );
+    const token = await index.token("category", "food");
+
+    expect(token).toMatch(/^[0-9a-f]{32}$/);
+    expect(await index.token("category", "food")).toBe(token);
+    expect(await index.token("category", "rent")).not.toBe(token);
+    expect(await index.token("note", "food")).not.toBe(token);
+    expect(await index.token("category", ["food"])).not.toBe(token);
+  });
+
+  test("should depend on the key and the table", async () => {
+    const key = EncryptionHelper.generate();
+    const token = await (
+      await BlindIndex.forTable(key, "expenses")
+    ).token("category", "food");
+
+    expect(
+      await (
+        await BlindIndex.forTable(key, "expenses")
+      ).token("category", "food"),
+    ).toBe(token);
+    expect(
+      await (
+        await BlindIndex.forTable(key, "income")
+      ).token("category", "food"),
+    ).not.toBe(token);
+    expect(
+      await (
+        await BlindIndex.forTable(EncryptionHelper.generate(), "expenses")
+      ).token("category", "food"),
+    ).not.toBe(token);
+  });
+
+  test("should only index the fields a document has", async () => {
+    const index = await BlindIndex.forTable(
+      EncryptionHelper.generate(),
+      "contacts",
+    );
+    const tokens = await index.tokens({ email: "a@example.com" }, [
+      "email",
+      "phone",
+    ]);
+
+    expect(tokens).toEqual([await index.token("email", "a@example.com")]);
+  });
+});
+
+describe("TokenIndex", () => {
+  test("should look up ids by token, and save and load its entries", () => {
+    const index = new TokenIndex();
+    index.set("b", ["t1", "t2"]);
+    index.set("a", ["t1"]);
+    index.set("c", ["t2"]);
+    index.set("c", ["t3"]);
+    index.delete("b");
+    index.seq = 7;
+
+    expect(index.lookup("t1")).toEqual(["a"]);
+    expect(index.lookup("t2")).toEqual([]);
+    expect(index.lookup("t3")).toEqual(["c"]);
+
+    const loaded = new TokenIndex();
+    loaded.load(JSON.parse(JSON.stringify(index.serialize())));
+    expect(loaded.seq).toBe(7);
+    expect(loaded.lookup("t1")).toEqual(["a"]);
+    expect(loaded.lookup("t3")).toEqual(["c"]);
+  });
+});
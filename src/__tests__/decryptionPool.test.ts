@@ -0,0 +1,181 @@
+/**
+ * Tests for batch and worker decryption
+ */
+
+import { describe, test, expect, afterEach } from "@jest/globals";
+import { MessageChannel } from "node:worker_threads";
+import type { MessagePort } from "node:worker_threads";
+import {
+  WorkerDecryptionPool,
+  serveDecryption,
+  mapWithConcurrency,
+} from "../decryptionPool.js";
+import { EncryptionHelper } from "../encryption.js";
+
+/** A "worker" on the other end of a message channel, in this thread */
+function createChannelWorker(ports: MessagePort[]) {
+  const { port1, port2 } = new MessageChannel();
+  ports.push(port1, port2);
+  serveDecryption(port2);
+  return Object.assign(port1, { terminate: () => port1.close() });
+}
+
+describe("mapWithConcurrency", () => {
+  test("should keep item order and bound concurrency", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const results = await mapWithConcurrency(
+      [30, 10, 20, 0, 5],
+      2,
+      async (delay, index) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        running--;
+        return `${index}:${delay}`;
+      },
+    );
+
+    expect(results).toEqual(["0:30", "1:10", "2:20", "3:0", "4:5"]);
+    expect(maxRunning).toBe(2);
+  });
+
+  test("should handle no items", async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe("WorkerDecryptionPool", () => {
+  const ports: MessagePort[] = [];
+
+  afterEach(() => {
+    for (const port of ports.splice(0)) port.close();
+  });
+
+  test("should decrypt and parse payloads in request order", async () => {
+    const key = EncryptionHelper.generate();
+    const keyId = await key.getKeyId();
+    const pool = new WorkerDecryptionPool(() => createChannelWorker(ports), 3);
+
+    const requests = [];
+    for (let i = 0; i < 7; i++) {
+      requests.push({
+        keyId,
+        data: await key.encrypt(JSON.stringify({ n: i }), `ad${i}`),
+        associatedData: `ad${i}`,
+        allowUnbound: false,
+      });
+    }
+    const results = await pool.decrypt(
+      { [keyId]: await key.exportKey() },
+      requests,
+    );
+
+    expect(results).toEqual([0, 1, 2, 3, 4, 5, 6].map((n) => ({ n })));
+    pool.terminate();
+  });
+
+  test("should return null for payloads it can't decrypt", async () => {
+    const key = EncryptionHelper.generate();
+    const keyId = await key.getKeyId();
+    const pool = new WorkerDecryptionPool(() => createChannelWorker(ports), 2);
+    const unbound = await key.encrypt(JSON.stringify({ old: true }));
+
+    const results = await pool.decrypt({ [keyId]: await key.exportKey() }, [
+      {
+        keyId,
+        data: await key.encrypt("{}", "other"),
+        associatedData: "ad",
+        allowUnbound: true,
+      },
+      {
+        keyId: "unknown",
+        data: unbound,
+        associatedData: "",
+        allowUnbound: true,
+      },
+      { keyId, data: unbound, associatedData: "ad", allowUnbound: false },
+      { keyId, data: unbound, associatedData: "ad", allowUnbound: true },
+    ]);
+
+    expect(results).toEqual([null, null, null, { old: true }]);
+    pool.terminate();
+  });
+
+  test("should not keep keys between batches", async () => {
+    const key = EncryptionHelper.generate();
+    const keyId = await key.getKeyId();
+    const pool = new WorkerDecryptionPool(() => createChannelWorker(ports), 1);
+    const request = {
+      keyId,
+      data: await key.encrypt(JSON.stringify({ n: 1 }), "ad"),
+      associatedData: "ad",
+      allowUnbound: false,
+    };
+
+    expect(
+      await pool.decrypt({ [keyId]: await key.exportKey() }, [request]),
+    ).toEqual([{ n: 1 }]);
+    expect(await pool.decrypt({}, [request])).toEqual([null]);
+    pool.terminate();
+  });
+
+  test("should reject pending calls when terminated", async () => {
+    const pool = new WorkerDecryptionPool(
+      () => ({ postMessage: () => {}, on: () => {}, terminate: () => {} }),
+      1,
+    );
+    const pending = pool.decrypt({}, [
+      { keyId: "k", data: "x", associatedData: "", allowUnbound: false },
+    ]);
+
+    pool.terminate();
+    await expect(pending).rejects.toThrow("terminated");
+    await expect(pool.decrypt({}, [])).rejects.toThrow("terminated");
+  });
+
+  test("should fail only a failed worker's batches, and replace it", async () => {
+    const workers: { emit: (event: string, data: any) => void }[] = [];
+    const terminated: number[] = [];
+    const pool = new WorkerDecryptionPool(() => {
+      const index = workers.length;
+      const listeners = new Map<string, (data: any) => void>();
+      workers.push({ emit: (event, data) => listeners.get(event)?.(data) });
+      return {
+        postMessage: ({ id, requests }: any) => {
+          // Only new workers answer right away
+          if (index >= 2) {
+            setTimeout(() =>
+              listeners.get("message")?.({
+                id,
+                results: requests.map(() => null),
+              }),
+            );
+          }
+        },
+        on: (event: string, listener: (data: any) => void) => {
+          listeners.set(event, listener);
+        },
+        terminate: () => terminated.push(index),
+      };
+    }, 2);
+    const request = {
+      keyId: "k",
+      data: "x",
+      associatedData: "",
+      allowUnbound: false,
+    };
+
+    const onFirstWorker = pool.decrypt({}, [request]);
+    const onBothWorkers = pool.decrypt({}, [request, request]);
+    workers[1].emit("error", new Error("crashed"));
+
+    await expect(onBothWorkers).rejects.toThrow("crashed");
+    expect(terminated).toEqual([1]);
+    workers[0].emit("message", { id: 0, results: [null] });
+    expect(await onFirstWorker).toEqual([null]);
+    workers[0].emit("error", new Error("crashed"));
+    expect(await pool.decrypt({}, [request, request])).toEqual([null, null]);
+    pool.terminate();
+  });
+});
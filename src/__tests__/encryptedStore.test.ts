@@ -16,11 +16,26 @@ import MemoryAdapter from "pouchdb-adapter-memory";
 // Note: Tests use 'pouchdb' with memory adapter (Node.js environment)
 // Your app should use 'pouchdb-browser' in the browser
 import { EncryptedStore } from "../encryptedStore.js";
+import {
+  InvalidPasswordError,
+  StoreLockedError,
+  SignatureError,
+  ConflictError,
+  ValidationError,
+  SchemaVersionError,
+} from "../errors.js";
+import { DecryptionError, EncryptionHelper } from "../encryption.js";
+import { WorkerDecryptionPool, serveDecryption } from "../decryptionPool.js";
+import { publicKeyId } from "../sharing.js";
+import { tokenShard } from "../blindIndex.js";
+import { MessageChannel } from "node:worker_threads";
+import type { MessagePort } from "node:worker_threads";
 import type {
   Doc,
   ConflictInfo,
   SyncInfo,
   DecryptionErrorEvent,
+  PasswordChangeProgress,
 } from "../encryptedStore.js";
 
 // Use memory adapter for tests
@@ -35,6 +50,7 @@ describe("EncryptedStore", () => {
   });
 
   afterEach(async () => {
+    store?.close();
     await db.destroy();
   });
 
@@ -70,6 +86,7 @@ describe("EncryptedStore", () => {
       expect(retrieved).toEqual({
         _id: "lunch",
         _table: "expenses",
+        _rev: expect.any(String),
         amount: 15.5,
         description: "Lunch",
       });
@@ -254,12 +271,34 @@ describe("EncryptedStore", () => {
       const rawDoc = (await db.get("expenses_lunch")) as any;
       expect(rawDoc.d).toBeDefined();
       expect(typeof rawDoc.d).toBe("string");
-      expect(rawDoc.d).toContain("|"); // encrypted format: iv|ciphertext
+      expect(rawDoc.d.startsWith("2.A256GCM.")).toBe(true); // versioned envelope
       expect(rawDoc.amount).toBeUndefined();
       expect(rawDoc.secret).toBeUndefined();
     });
 
-    test("should fail to decrypt with wrong password", async () => {
+    test("should read legacy hex values and upgrade them on the next put", async () => {
+      store = new EncryptedStore(db, "test-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+      });
+      await store.loadAll();
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      // Rewrite the stored value in the legacy "iv|ciphertext" hex format
+      const rawDoc = (await db.get("expenses_lunch")) as any;
+      await db.put({ ...rawDoc, d: toLegacyFormat(rawDoc.d) });
+      expect(((await db.get("expenses_lunch")) as any).d).toContain("|");
+
+      const legacyDoc = await store.get("expenses", "lunch");
+      expect(legacyDoc?.amount).toBe(15);
+
+      await store.put("expenses", { ...legacyDoc, amount: 20 });
+      const upgraded = (await db.get("expenses_lunch")) as any;
+      expect(upgraded.d.startsWith("2.A256GCM.")).toBe(true);
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(20);
+    });
+
+    test("should reject a wrong password for a legacy store", async () => {
       const helper = new (await import("../encryption.js")).EncryptionHelper(
         "correct-password",
       );
@@ -268,18 +307,18 @@ describe("EncryptedStore", () => {
         d: await helper.encrypt(JSON.stringify({ amount: 15 })),
       });
 
+      const onChange = jest.fn();
       const onError = jest.fn();
       store = new EncryptedStore(db, "wrong-password", {
-        onChange: jest.fn(),
+        onChange,
         onDelete: jest.fn(),
         onError,
       });
-      await store.loadAll();
+      await expect(store.loadAll()).rejects.toThrow(InvalidPasswordError);
 
-      expect(onError).toHaveBeenCalled();
-      const errors = onError.mock.calls[0][0] as DecryptionErrorEvent[];
-      expect(errors[0].docId).toBe("expenses_lunch");
-      expect(errors[0].error.name).toBe("DecryptionError");
+      // Nothing was read or reported
+      expect(onChange).not.toHaveBeenCalled();
+      expect(onError).not.toHaveBeenCalled();
     });
 
     test("should handle corrupted encrypted data", async () => {
@@ -532,87 +571,3029 @@ describe("EncryptedStore", () => {
     }, 10000);
   });
 
-  describe("Edge Cases", () => {
-    test("should handle documents with special characters", async () => {
+  describe("Key Derivation Metadata", () => {
+    test("should create a metadata doc with a random salt", async () => {
+      store = new EncryptedStore(
+        db,
+        "test-password",
+        { onChange: jest.fn(), onDelete: jest.fn() },
+        { kdfIterations: 50000 },
+      );
+      await store.loadAll();
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const meta = (await db.get("encrypted-store-meta")) as any;
+      const [slot] = meta.keySlots;
+      expect(slot.passphraseMode).toBe("derive");
+      expect(slot.kdf.name).toBe("PBKDF2");
+      expect(slot.kdf.iterations).toBe(50000);
+      expect(typeof slot.kdf.salt).toBe("string");
+
+      // Metadata is not a user document
+      expect((await store.getAll()).length).toBe(1);
+    });
+
+    test("should record the chosen key derivation and report progress", async () => {
+      const progress: number[] = [];
+      store = new EncryptedStore(db, "test-password", undefined, {
+        kdf: { name: "scrypt", N: 1024, r: 8, p: 1 },
+        onKdfProgress: (p) => progress.push(p),
+      });
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const meta = (await db.get("encrypted-store-meta")) as any;
+      expect(meta.keySlots[0].kdf).toMatchObject({
+        name: "scrypt",
+        N: 1024,
+        r: 8,
+        p: 1,
+      });
+      expect(progress[progress.length - 1]).toBe(1);
+
+      // Another device needs only the password
+      const onKdfProgress = jest.fn();
+      const reopened = new EncryptedStore(db, "test-password", undefined, {
+        onKdfProgress,
+      });
+      expect((await reopened.get("expenses", "lunch"))?.amount).toBe(15);
+      expect(onKdfProgress).toHaveBeenLastCalledWith(1);
+
+      // A new password keeps the slot's key derivation
+      await reopened.changePassword("test-password", "new-password", {
+        rotateKey: false,
+      });
+      const updated = (await db.get("encrypted-store-meta")) as any;
+      expect(updated.keySlots[0].kdf.name).toBe("scrypt");
+      expect(updated.keySlots[0].kdf.salt).not.toBe(meta.keySlots[0].kdf.salt);
+    });
+
+    test("should derive different keys for the same password in different stores", async () => {
+      const otherDb = new PouchDB("test-db-other", { adapter: "memory" });
+      try {
+        store = new EncryptedStore(db, "test-password");
+        const other = new EncryptedStore(otherDb, "test-password");
+        await store.put("expenses", { _id: "lunch", amount: 15 });
+        await other.put("expenses", { _id: "dinner", amount: 25 });
+
+        // Transplant the ciphertext into the other database
+        const raw = (await db.get("expenses_lunch")) as any;
+        await otherDb.put({ _id: "expenses_lunch", d: raw.d });
+
+        const onError = jest.fn();
+        const reopened = new EncryptedStore(otherDb, "test-password", {
+          onChange: jest.fn(),
+          onDelete: jest.fn(),
+          onError,
+        });
+        const docs = await reopened.getAll();
+        expect(docs.map((doc) => doc._id)).toEqual(["dinner"]);
+        expect(onError).toHaveBeenCalled();
+      } finally {
+        await otherDb.destroy();
+      }
+    });
+
+    test("should merge the keys of devices that created the store offline", async () => {
+      const laptopDb = new PouchDB("test-db-laptop", { adapter: "memory" });
+      try {
+        const onChange = jest.fn();
+        store = new EncryptedStore(
+          db,
+          "test-password",
+          { onChange, onDelete: jest.fn() },
+          { signAs: "phone" },
+        );
+        await store.loadAll();
+        await store.put("expenses", { _id: "lunch", amount: 15 });
+        const laptop = new EncryptedStore(
+          laptopDb,
+          "test-password",
+          undefined,
+          {
+            signAs: "laptop",
+          },
+        );
+        await laptop.put("expenses", { _id: "dinner", amount: 25 });
+
+        await PouchDB.sync(db, laptopDb);
+        await waitFor(() =>
+          expect(onChange).toHaveBeenCalledWith([
+            expect.objectContaining({ _id: "dinner", _author: "laptop" }),
+          ]),
+        );
+        expect((await store.get("expenses", "lunch"))?._author).toBe("phone");
+
+        // Each device merges on its own, then their merges are merged
+        const reopenedLaptop = new EncryptedStore(laptopDb, "test-password");
+        expect((await reopenedLaptop.get("expenses", "lunch"))?.amount).toBe(
+          15,
+        );
+        await PouchDB.sync(db, laptopDb);
+        const reopened = new EncryptedStore(db, "test-password");
+        expect(
+          (await reopened.getAll()).map((doc) => [doc._id, doc._author]),
+        ).toEqual([
+          ["dinner", "laptop"],
+          ["lunch", "phone"],
+        ]);
+        const meta = await db.get("encrypted-store-meta", { conflicts: true });
+        expect(meta._conflicts).toBeUndefined();
+
+        // The next rotation re-encrypts the documents with one key
+        const keyIdOf = async (id: string) =>
+          EncryptionHelper.parseEnvelope(((await db.get(id)) as any).d).keyId;
+        expect(await reopened.hasPendingPasswordChange()).toBe(true);
+        await reopened.changePassword("test-password", "test-password");
+        expect(await reopened.hasPendingPasswordChange()).toBe(false);
+        expect(await keyIdOf("expenses_lunch")).toBe(
+          await keyIdOf("expenses_dinner"),
+        );
+      } finally {
+        await laptopDb.destroy();
+      }
+    });
+
+    test("should merge conflicting metadata from two instances at once", async () => {
+      const laptopDb = new PouchDB("test-db-laptop", { adapter: "memory" });
+      const warn = jest.spyOn(console, "warn");
+      try {
+        store = new EncryptedStore(db, "test-password");
+        await store.put("expenses", { _id: "lunch", amount: 15 });
+        const laptop = new EncryptedStore(laptopDb, "test-password");
+        await laptop.put("expenses", { _id: "dinner", amount: 25 });
+        await PouchDB.sync(db, laptopDb);
+
+        const first = new EncryptedStore(db, "test-password");
+        const second = new EncryptedStore(db, "test-password");
+        await Promise.all([first.open(), second.open()]);
+        for (const instance of [first, second]) {
+          expect(
+            (await instance.getAll("expenses")).map((doc) => doc._id),
+          ).toEqual(["dinner", "lunch"]);
+        }
+        expect(warn).not.toHaveBeenCalled();
+        const meta = await db.get("encrypted-store-meta", { conflicts: true });
+        expect(meta._conflicts).toBeUndefined();
+      } finally {
+        warn.mockRestore();
+        await laptopDb.destroy();
+      }
+    });
+
+    test("should keep reading legacy stores and migrate them to a salt", async () => {
+      const { EncryptionHelper } = await import("../encryption.js");
+      const legacy = new EncryptionHelper("test-password");
+      await db.put({
+        _id: "expenses_lunch",
+        d: await legacy.encrypt(JSON.stringify({ amount: 15 })),
+      });
+
       store = new EncryptedStore(db, "test-password", {
         onChange: jest.fn(),
         onDelete: jest.fn(),
       });
-      await store.loadAll();
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(15);
+      await expect(db.get("encrypted-store-meta")).rejects.toBeDefined();
 
-      await store.put("expenses", {
-        _id: "special",
-        description: "Café ☕ 日本語 émojis 🎉",
-        amount: 15,
-      });
+      await store.migrateKeyDerivation();
 
-      const retrieved = await store.get("expenses", "special");
-      expect(retrieved?.description).toBe("Café ☕ 日本語 émojis 🎉");
+      const meta = (await db.get("encrypted-store-meta")) as any;
+      expect(meta.keySlots[0].kdf.salt).toBeDefined();
+      expect(meta.legacyMigration).toBeUndefined();
+
+      const raw = (await db.get("expenses_lunch")) as any;
+      await expect(legacy.decrypt(raw.d)).rejects.toThrow();
+
+      const reopened = new EncryptedStore(db, "test-password");
+      expect((await reopened.get("expenses", "lunch"))?.amount).toBe(15);
     });
+  });
 
-    test("should handle large documents", async () => {
-      store = new EncryptedStore(db, "test-password", {
+  describe("Password Change", () => {
+    test("should re-encrypt all documents under the new password", async () => {
+      store = new EncryptedStore(db, "old-password", {
         onChange: jest.fn(),
         onDelete: jest.fn(),
       });
       await store.loadAll();
 
-      const largeText = "x".repeat(10000);
-      await store.put("notes", {
-        _id: "large",
-        text: largeText,
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      await store.put("tasks", { _id: "task1", title: "Review" });
+      const before = ((await db.get("expenses_lunch")) as any).d;
+
+      const onProgress = jest.fn();
+      await store.changePassword("old-password", "new-password", {
+        onProgress,
       });
 
-      const retrieved = await store.get("notes", "large");
-      expect(retrieved?.text).toBe(largeText);
-      expect(retrieved?.text.length).toBe(10000);
+      expect(((await db.get("expenses_lunch")) as any).d).not.toBe(before);
+      expect(onProgress).toHaveBeenCalled();
+      const last = onProgress.mock.calls[
+        onProgress.mock.calls.length - 1
+      ][0] as PasswordChangeProgress;
+      expect(last.reencrypted).toBe(2);
+      expect(await store.hasPendingPasswordChange()).toBe(false);
+
+      // The store keeps working with the new key
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(15);
+
+      const onError = jest.fn();
+      const reopened = new EncryptedStore(db, "new-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+        onError,
+      });
+      const docs = await reopened.getAll();
+      expect(docs.length).toBe(2);
+      expect(onError).not.toHaveBeenCalled();
     });
 
-    test("should handle nested objects", async () => {
-      store = new EncryptedStore(db, "test-password", {
+    test("should reject an incorrect current password", async () => {
+      store = new EncryptedStore(db, "old-password", {
         onChange: jest.fn(),
         onDelete: jest.fn(),
       });
       await store.loadAll();
+      await store.put("expenses", { _id: "lunch", amount: 15 });
 
-      const complexDoc = {
-        _id: "complex",
-        nested: {
-          level1: {
-            level2: {
-              value: "deep",
-            },
+      await expect(
+        store.changePassword("not-the-password", "new-password"),
+      ).rejects.toThrow("Current password is incorrect");
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(15);
+    });
+
+    test("should resume an interrupted password change", async () => {
+      store = new EncryptedStore(db, "old-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+      });
+      await store.loadAll();
+      for (let i = 0; i < 5; i++) {
+        await store.put("expenses", { _id: `e${i}`, amount: i });
+      }
+
+      // Simulate the tab closing after the first batch
+      await expect(
+        store.changePassword("old-password", "new-password", {
+          batchSize: 2,
+          onProgress: () => {
+            throw new Error("tab closed");
           },
-        },
-        array: [1, 2, { key: "value" }],
-      };
+        }),
+      ).rejects.toThrow("tab closed");
 
-      await store.put("data", complexDoc);
-      const retrieved = await store.get("data", "complex");
+      const reopened = new EncryptedStore(db, "new-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+      });
+      expect(await reopened.hasPendingPasswordChange()).toBe(true);
 
-      expect(retrieved?.nested.level1.level2.value).toBe("deep");
-      expect(retrieved?.array[2].key).toBe("value");
+      const onProgress = jest.fn();
+      await reopened.changePassword("old-password", "new-password", {
+        batchSize: 2,
+        onProgress,
+      });
+
+      const last = onProgress.mock.calls[
+        onProgress.mock.calls.length - 1
+      ][0] as PasswordChangeProgress;
+      expect(last.processed).toBe(5);
+      expect(last.reencrypted).toBe(5);
+      expect((await reopened.getAll("expenses")).length).toBe(5);
+      expect(await reopened.hasPendingPasswordChange()).toBe(false);
     });
+  });
 
-    test("should not store internal fields", async () => {
-      store = new EncryptedStore(db, "test-password", {
+  describe("Password Verification", () => {
+    test("should throw InvalidPasswordError from open()", async () => {
+      store = new EncryptedStore(db, "correct-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const wrong = new EncryptedStore(db, "wrong-password");
+      await expect(wrong.open()).rejects.toThrow(InvalidPasswordError);
+      await expect(wrong.open()).rejects.toThrow("Invalid password");
+
+      const right = new EncryptedStore(db, "correct-password");
+      await expect(right.open()).resolves.toBeUndefined();
+    });
+
+    test("should refuse to write with a wrong password", async () => {
+      store = new EncryptedStore(db, "correct-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const wrong = new EncryptedStore(db, "wrong-password");
+      await expect(
+        wrong.put("expenses", { _id: "dinner", amount: 25 }),
+      ).rejects.toThrow(InvalidPasswordError);
+      await expect(db.get("expenses_dinner")).rejects.toBeDefined();
+      await expect(wrong.getAll()).rejects.toThrow(InvalidPasswordError);
+    });
+
+    test("should refuse to read single documents with a wrong password", async () => {
+      store = new EncryptedStore(db, "correct-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const wrong = new EncryptedStore(db, "wrong-password");
+      await expect(wrong.get("expenses", "lunch")).rejects.toThrow(
+        InvalidPasswordError,
+      );
+      await expect(wrong.getConflictInfo("expenses", "lunch")).rejects.toThrow(
+        InvalidPasswordError,
+      );
+    });
+
+    test("should detect a data key that does not match the verifier", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.open();
+
+      // Swap in a verifier from an unrelated store with the same password
+      const otherDb = new PouchDB("test-db-verifier", { adapter: "memory" });
+      try {
+        await new EncryptedStore(otherDb, "test-password").open();
+        const otherMeta = (await otherDb.get("encrypted-store-meta")) as any;
+        const meta = (await db.get("encrypted-store-meta")) as any;
+        await db.put({ ...meta, verifier: otherMeta.verifier });
+      } finally {
+        await otherDb.destroy();
+      }
+
+      const reopened = new EncryptedStore(db, "test-password");
+      await expect(reopened.open()).rejects.toThrow(InvalidPasswordError);
+    });
+
+    test("should throw InvalidPasswordError for a wrong key slot secret", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.addKeySlot("recovery", "recovery-secret");
+
+      const other = new EncryptedStore(db, "");
+      await expect(other.unlockWith("recovery", "wrong")).rejects.toThrow(
+        InvalidPasswordError,
+      );
+      await expect(
+        store.changePassword("wrong", "new-password"),
+      ).rejects.toThrow(InvalidPasswordError);
+    });
+  });
+
+  describe("Key Slots", () => {
+    test("should unlock with a recovery key", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const recoveryKey = EncryptedStore.generateRecoveryKey();
+      await store.addKeySlot("recovery", recoveryKey, {
+        passphraseMode: "raw",
+      });
+      expect(await store.listKeySlots()).toEqual([
+        { id: "password", passphraseMode: "derive" },
+        { id: "recovery", passphraseMode: "raw" },
+      ]);
+
+      // Password forgotten: unlock with the recovery key and set a new one
+      const recovered = new EncryptedStore(db, "forgotten");
+      await recovered.unlockWith("recovery", recoveryKey);
+      expect((await recovered.get("expenses", "lunch"))?.amount).toBe(15);
+      await recovered.addKeySlot("password", "new-password");
+
+      const reopened = new EncryptedStore(db, "new-password");
+      expect((await reopened.get("expenses", "lunch"))?.amount).toBe(15);
+    });
+
+    test("should reject a wrong secret for a key slot", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const other = new EncryptedStore(db, "test-password");
+      await expect(other.unlockWith("password", "wrong")).rejects.toThrow();
+      await expect(other.unlockWith("missing", "x")).rejects.toThrow(
+        'No key slot "missing"',
+      );
+    });
+
+    test("should remove key slots but never the last one", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.addKeySlot("recovery", "recovery-secret");
+      await store.removeKeySlot("recovery");
+
+      expect((await store.listKeySlots()).map((slot) => slot.id)).toEqual([
+        "password",
+      ]);
+      await expect(store.removeKeySlot("password")).rejects.toThrow(
+        "Cannot remove the last key slot",
+      );
+
+      const recovered = new EncryptedStore(db, "");
+      await expect(
+        recovered.unlockWith("recovery", "recovery-secret"),
+      ).rejects.toThrow();
+    });
+
+    test("should change the password without rotating the data key", async () => {
+      store = new EncryptedStore(db, "old-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      await store.addKeySlot("recovery", "recovery-secret");
+      const before = ((await db.get("expenses_lunch")) as any).d;
+
+      await store.changePassword("old-password", "new-password", {
+        rotateKey: false,
+      });
+
+      expect(((await db.get("expenses_lunch")) as any).d).toBe(before);
+      expect((await store.listKeySlots()).length).toBe(2);
+      const reopened = new EncryptedStore(db, "new-password");
+      expect((await reopened.get("expenses", "lunch"))?.amount).toBe(15);
+      const stale = new EncryptedStore(db, "old-password");
+      await expect(stale.getAll()).rejects.toThrow();
+    });
+
+    test("should only drop other slots when rotating the data key if asked", async () => {
+      store = new EncryptedStore(db, "old-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      await store.addKeySlot("recovery", "recovery-secret");
+      const before = ((await db.get("expenses_lunch")) as any).d;
+
+      await expect(
+        store.changePassword("old-password", "new-password"),
+      ).rejects.toThrow('would remove the key slots "recovery"');
+      expect(((await db.get("expenses_lunch")) as any).d).toBe(before);
+      const recovered = new EncryptedStore(db, "");
+      await recovered.unlockWith("recovery", "recovery-secret");
+      expect((await recovered.get("expenses", "lunch"))?.amount).toBe(15);
+
+      await store.changePassword("old-password", "new-password", {
+        removeOtherKeySlots: true,
+      });
+
+      expect((await store.listKeySlots()).map((slot) => slot.id)).toEqual([
+        "password",
+      ]);
+      const meta = (await db.get("encrypted-store-meta")) as any;
+      expect(meta.retiredKeys).toBeUndefined();
+    });
+
+    test("should upgrade version 1 metadata without re-encrypting", async () => {
+      const { EncryptionHelper } = await import("../encryption.js");
+      const kdf = EncryptionHelper.generateKdfParams(1000);
+      const helper = new EncryptionHelper(
+        "test-password",
+        undefined,
+        "derive",
+        kdf,
+      );
+      await db.put({
+        _id: "encrypted-store-meta",
+        version: 1,
+        passphraseMode: "derive",
+        kdf,
+      });
+      await db.put({
+        _id: "expenses_lunch",
+        d: await helper.encrypt(JSON.stringify({ amount: 15 })),
+      });
+      const before = ((await db.get("expenses_lunch")) as any).d;
+
+      store = new EncryptedStore(db, "test-password");
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(15);
+      await store.addKeySlot("recovery", "recovery-secret");
+
+      const meta = (await db.get("encrypted-store-meta")) as any;
+      expect(meta.version).toBe(2);
+      expect(meta.keySlots.map((slot: any) => slot.id)).toEqual([
+        "password",
+        "recovery",
+      ]);
+      expect(((await db.get("expenses_lunch")) as any).d).toBe(before);
+
+      const recovered = new EncryptedStore(db, "");
+      await recovered.unlockWith("recovery", "recovery-secret");
+      expect((await recovered.get("expenses", "lunch"))?.amount).toBe(15);
+    });
+
+    test("should generate printable recovery keys", () => {
+      const key = EncryptedStore.generateRecoveryKey();
+
+      expect(key).toMatch(/^([0-9A-HJKMNP-TV-Z]{4}-){7}[0-9A-HJKMNP-TV-Z]{4}$/);
+      expect(EncryptedStore.generateRecoveryKey()).not.toBe(key);
+    });
+  });
+
+  describe("Document Binding", () => {
+    test("should reject a payload copied to another document", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "a", amount: 15 });
+      await store.put("expenses", { _id: "b", amount: 99 });
+
+      const source = (await db.get("expenses_a")) as any;
+      const target = (await db.get("expenses_b")) as any;
+      await db.put({ ...target, d: source.d });
+      await db.put({ _id: "income_a", d: source.d });
+
+      const onError = jest.fn();
+      const reader = new EncryptedStore(db, "test-password", {
         onChange: jest.fn(),
         onDelete: jest.fn(),
+        onError,
       });
-      await store.loadAll();
+      await reader.loadAll();
 
-      await store.put("expenses", {
-        _id: "lunch",
-        amount: 15,
-        _someInternal: "should not be stored",
+      const errors = onError.mock.calls[0][0] as DecryptionErrorEvent[];
+      expect(errors.map((e) => e.docId).sort()).toEqual([
+        "expenses_b",
+        "income_a",
+      ]);
+      expect(errors[0].error).toBeInstanceOf(DecryptionError);
+      expect((await reader.get("expenses", "a"))?.amount).toBe(15);
+    });
+
+    test("should allow moving payloads within a table when bound to the table", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        binding: "table",
       });
+      await store.put("expenses", { _id: "a", amount: 15 });
 
-      const retrieved = await store.get("expenses", "lunch");
-      expect(retrieved?.amount).toBe(15);
-      expect(retrieved?._someInternal).toBeUndefined();
+      const source = (await db.get("expenses_a")) as any;
+      await db.put({ _id: "expenses_b", d: source.d });
+      await db.put({ _id: "income_a", d: source.d });
+
+      // The binding is recorded in the metadata, not taken from the options
+      const reader = new EncryptedStore(db, "test-password");
+      expect((await reader.get("expenses", "b"))?.amount).toBe(15);
+      expect(await reader.get("income", "a")).toBeNull();
+    });
+
+    test("should read unbound documents only in compatibility mode", async () => {
+      const helper = new EncryptionHelper("test-password");
+      await db.put({
+        _id: "expenses_lunch",
+        d: await helper.encrypt(JSON.stringify({ amount: 15 })),
+      });
+
+      store = new EncryptedStore(db, "test-password");
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(15);
+
+      const strict = new EncryptedStore(db, "test-password", undefined, {
+        allowUnboundDocuments: false,
+      });
+      expect(await strict.get("expenses", "lunch")).toBeNull();
+    });
+
+    test("should bind all documents for strict mode", async () => {
+      const helper = new EncryptionHelper("test-password");
+      for (const id of ["a", "b", "c"]) {
+        await db.put({
+          _id: `expenses_${id}`,
+          d: await helper.encrypt(JSON.stringify({ amount: 1 })),
+        });
+      }
+
+      store = new EncryptedStore(db, "test-password");
+      const progress: PasswordChangeProgress[] = [];
+      await store.bindAllDocuments({
+        batchSize: 2,
+        onProgress: (p) => progress.push(p),
+      });
+      expect(progress[progress.length - 1]).toEqual({
+        processed: 3,
+        total: 3,
+        reencrypted: 3,
+      });
+
+      const strict = new EncryptedStore(db, "test-password", undefined, {
+        allowUnboundDocuments: false,
+      });
+      expect((await strict.getAll("expenses")).length).toBe(3);
+      expect(await store.hasPendingPasswordChange()).toBe(false);
+
+      // Already bound documents are left alone
+      const before = ((await db.get("expenses_a")) as any)._rev;
+      await store.bindAllDocuments();
+      expect(((await db.get("expenses_a")) as any)._rev).toBe(before);
     });
   });
-});
+
+  describe("Encrypted Ids", () => {
+    test("should store documents under hashed ids", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        encryptIds: true,
+      });
+      await store.put("medical", { _id: "alice@example.com", note: "x" });
+      await store.put("medical", { _id: "bob@example.com", note: "y" });
+      await store.put("salary", { _id: "alice@example.com", amount: 1 });
+
+      const ids = (await db.allDocs()).rows
+        .map((row) => row.id)
+        .filter((id) => id !== "encrypted-store-meta");
+      expect(ids.length).toBe(3);
+      for (const id of ids) {
+        expect(id).toMatch(/^[0-9a-f]{16}_[0-9a-f]{32}$/);
+      }
+      // Documents of a table share a prefix
+      expect(new Set(ids.map((id) => id.split("_")[0])).size).toBe(2);
+
+      const doc = await store.get("medical", "alice@example.com");
+      expect(doc).toMatchObject({
+        _id: "alice@example.com",
+        _table: "medical",
+        note: "x",
+      });
+      expect((await store.getAll("medical")).map((d) => d._id).sort()).toEqual([
+        "alice@example.com",
+        "bob@example.com",
+      ]);
+
+      await store.delete("medical", "bob@example.com");
+      expect(await store.get("medical", "bob@example.com")).toBeNull();
+      expect((await store.getAll()).length).toBe(2);
+    });
+
+    test("should report real ids in the change feed", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        encryptIds: true,
+      });
+      await store.put("medical", { _id: "alice", note: "x" });
+
+      // Another device: the mode comes from the metadata
+      const onChange = jest.fn();
+      const onDelete = jest.fn();
+      const other = new EncryptedStore(db, "test-password", {
+        onChange,
+        onDelete,
+      });
+      await other.loadAll();
+      expect((onChange.mock.calls[0][0] as Doc[])[0]._id).toBe("alice");
+
+      await store.put("medical", { _id: "bob", note: "y" });
+      await waitFor(() => expect(onChange).toHaveBeenCalledTimes(2));
+      expect(onChange.mock.calls[1][0]).toEqual([
+        { _id: "bob", _table: "medical", _rev: expect.any(String), note: "y" },
+      ]);
+
+      await store.delete("medical", "alice");
+      await waitFor(() => expect(onDelete).toHaveBeenCalled());
+      expect(onDelete.mock.calls[0][0]).toEqual([
+        { _id: "alice", _table: "medical" },
+      ]);
+    });
+
+    test("should report conflicts with real ids", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        encryptIds: true,
+      });
+      await store.put("medical", { _id: "alice", note: "x" });
+
+      // A concurrent edit from another device
+      const [row] = (await db.allDocs({ include_docs: true })).rows.filter(
+        (r) => r.id !== "encrypted-store-meta",
+      );
+      await db.bulkDocs([{ ...row.doc!, _rev: "1-conflicting" }], {
+        new_edits: false,
+      });
+
+      const info = await store.getConflictInfo("medical", "alice");
+      expect(info).toMatchObject({ table: "medical", id: "alice" });
+      expect(info!.losers[0]._id).toBe("alice");
+    });
+
+    test("should keep ids stable across key rotation", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        encryptIds: true,
+      });
+      await store.put("medical", { _id: "alice", note: "x" });
+      const [before] = (await db.allDocs()).rows.filter(
+        (r) => r.id !== "encrypted-store-meta",
+      );
+
+      await store.changePassword("test-password", "new-password");
+
+      const reopened = new EncryptedStore(db, "new-password");
+      expect((await reopened.get("medical", "alice"))?.note).toBe("x");
+      expect((await db.allDocs()).rows.map((r) => r.id)).toContain(before.id);
+    });
+
+    test("should only be enabled for a new store", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("medical", { _id: "alice", note: "x" });
+
+      const encrypted = new EncryptedStore(db, "test-password", undefined, {
+        encryptIds: true,
+      });
+      await expect(encrypted.open()).rejects.toThrow(
+        "encryptIds can only be enabled when a store is created",
+      );
+    });
+  });
+
+  describe("Attachments", () => {
+    test("should store attachments encrypted in chunks", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        attachmentChunkSize: 1000,
+      });
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const bytes = new Uint8Array(3500).map((_, i) => i % 251);
+      await store.putAttachment("expenses", "lunch", "receipt.bin", bytes);
+
+      const raw = (await db.get("expenses_lunch")) as any;
+      const names = Object.keys(raw._attachments);
+      expect(names.length).toBe(4);
+      expect(names.join()).not.toContain("receipt");
+
+      const blob = await store.getAttachment(
+        "expenses",
+        "lunch",
+        "receipt.bin",
+      );
+      expect(new Uint8Array(await blob!.arrayBuffer())).toEqual(bytes);
+      expect(await store.listAttachments("expenses", "lunch")).toEqual([
+        { name: "receipt.bin", type: "application/octet-stream", size: 3500 },
+      ]);
+    });
+
+    test("should write chunks one at a time and stream them", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        attachmentChunkSize: 1000,
+      });
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const bytes = new Uint8Array(3500).map((_, i) => i % 251);
+      const putAttachment = jest.spyOn(db, "putAttachment");
+      await store.putAttachment("expenses", "lunch", "receipt.bin", bytes);
+      expect(putAttachment).toHaveBeenCalledTimes(4);
+      for (const call of putAttachment.mock.calls) {
+        // One encrypted chunk, as base64
+        expect((call[3] as string).length).toBeLessThan(1500);
+      }
+      putAttachment.mockRestore();
+
+      const stream = await store.getAttachmentStream(
+        "expenses",
+        "lunch",
+        "receipt.bin",
+      );
+      const chunks: Uint8Array[] = [];
+      const reader = stream!.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+      }
+      expect(chunks.map((chunk) => chunk.length)).toEqual([
+        1000, 1000, 1000, 500,
+      ]);
+      expect(new Uint8Array(Buffer.concat(chunks))).toEqual(bytes);
+      expect(
+        await store.getAttachmentStream("expenses", "lunch", "x"),
+      ).toBeNull();
+    });
+
+    test("should drop the chunks of a failed upload", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        attachmentChunkSize: 1000,
+      });
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      // The third chunk fails
+      const original = db.putAttachment.bind(db);
+      let calls = 0;
+      const putAttachment = jest
+        .spyOn(db, "putAttachment")
+        .mockImplementation(((...args: any[]) =>
+          ++calls === 3
+            ? Promise.reject(new Error("disk full"))
+            : (original as any)(...args)) as any);
+      await expect(
+        store.putAttachment("expenses", "lunch", "a.bin", new Uint8Array(3500)),
+      ).rejects.toThrow("disk full");
+      putAttachment.mockRestore();
+
+      const raw = (await db.get("expenses_lunch")) as any;
+      expect(Object.keys(raw._attachments ?? {})).toEqual([]);
+      expect(await store.listAttachments("expenses", "lunch")).toEqual([]);
+    });
+
+    test("should keep the type of a Blob", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const photo = new Blob(["not really a jpeg"], { type: "image/jpeg" });
+      await store.putAttachment("expenses", "lunch", "photo.jpg", photo);
+
+      const blob = await store.getAttachment("expenses", "lunch", "photo.jpg");
+      expect(blob!.type).toBe("image/jpeg");
+      expect(await blob!.text()).toBe("not really a jpeg");
+      expect(await store.getAttachment("expenses", "lunch", "x")).toBeNull();
+      expect(await store.getAttachment("expenses", "none", "x")).toBeNull();
+    });
+
+    test("should keep attachments out of documents and across puts", async () => {
+      const onChange = jest.fn();
+      store = new EncryptedStore(db, "test-password", {
+        onChange,
+        onDelete: jest.fn(),
+      });
+      await store.loadAll();
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      await store.putAttachment(
+        "expenses",
+        "lunch",
+        "receipt.txt",
+        new Blob(["receipt"]),
+      );
+      await store.put("expenses", { _id: "lunch", amount: 20 });
+
+      await waitFor(() =>
+        expect(onChange).toHaveBeenLastCalledWith([
+          {
+            _id: "lunch",
+            _table: "expenses",
+            _rev: expect.any(String),
+            amount: 20,
+          },
+        ]),
+      );
+      expect(await store.get("expenses", "lunch")).toEqual({
+        _id: "lunch",
+        _table: "expenses",
+        _rev: expect.any(String),
+        amount: 20,
+      });
+      const blob = await store.getAttachment(
+        "expenses",
+        "lunch",
+        "receipt.txt",
+      );
+      expect(await blob!.text()).toBe("receipt");
+    });
+
+    test("should replace and delete attachments with their chunks", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      await store.putAttachment("expenses", "lunch", "a", new Blob(["one"]));
+      await store.putAttachment("expenses", "lunch", "a", new Blob(["two"]));
+      await store.putAttachment("expenses", "lunch", "b", new Blob(["three"]));
+
+      const raw = (await db.get("expenses_lunch")) as any;
+      expect(Object.keys(raw._attachments).length).toBe(2);
+      const blob = await store.getAttachment("expenses", "lunch", "a");
+      expect(await blob!.text()).toBe("two");
+
+      await store.deleteAttachment("expenses", "lunch", "a");
+      expect(
+        (await store.listAttachments("expenses", "lunch")).map((a) => a.name),
+      ).toEqual(["b"]);
+      const after = (await db.get("expenses_lunch")) as any;
+      expect(Object.keys(after._attachments).length).toBe(1);
+    });
+
+    test("should detect reordered chunks", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        attachmentChunkSize: 4,
+      });
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      await store.putAttachment(
+        "expenses",
+        "lunch",
+        "a",
+        new TextEncoder().encode("aaaabbbb"),
+      );
+
+      // Swap the two chunks
+      const raw = (await db.get("expenses_lunch", {
+        attachments: true,
+      })) as any;
+      const [first, second] = Object.keys(raw._attachments).sort();
+      const swapped = {
+        [first]: raw._attachments[second],
+        [second]: raw._attachments[first],
+      };
+      await db.put({ ...raw, _attachments: swapped });
+
+      await expect(
+        store.getAttachment("expenses", "lunch", "a"),
+      ).rejects.toThrow(DecryptionError);
+    });
+
+    test("should keep attachments readable after a password change", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      await store.putAttachment("expenses", "lunch", "a", new Blob(["one"]));
+
+      await store.changePassword("test-password", "new-password");
+
+      const reopened = new EncryptedStore(db, "new-password");
+      const blob = await reopened.getAttachment("expenses", "lunch", "a");
+      expect(await blob!.text()).toBe("one");
+    });
+  });
+
+  describe("Locking", () => {
+    test("should reject API calls while locked", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      store.lock();
+      expect(store.isLocked()).toBe(true);
+
+      // Every public method but lock(), unlock(), unlockWith(), isLocked(),
+      // reconnect(), close(), disconnectRemote(), table() and subscribe()
+      const s = store;
+      const calls: Record<string, () => Promise<unknown>> = {
+        open: () => s.open(),
+        loadAll: () => s.loadAll(),
+        put: () => s.put("expenses", { _id: "dinner", amount: 25 }),
+        update: () => s.update("expenses", "lunch", (doc) => doc),
+        patch: () => s.patch("expenses", "lunch", { amount: 20 }),
+        putMany: () => s.putMany("expenses", [{ _id: "dinner" }]),
+        deleteMany: () => s.deleteMany("expenses", ["lunch"]),
+        get: () => s.get("expenses", "lunch"),
+        putAttachment: () =>
+          s.putAttachment("expenses", "lunch", "a", new Uint8Array(1)),
+        getAttachment: () => s.getAttachment("expenses", "lunch", "a"),
+        getAttachmentStream: () =>
+          s.getAttachmentStream("expenses", "lunch", "a"),
+        listAttachments: () => s.listAttachments("expenses", "lunch"),
+        deleteAttachment: () => s.deleteAttachment("expenses", "lunch", "a"),
+        delete: () => s.delete("expenses", "lunch"),
+        listTrash: () => s.listTrash(),
+        restoreFromTrash: () => s.restoreFromTrash("expenses", "lunch"),
+        emptyTrash: () => s.emptyTrash(),
+        deleteAllLocal: () => s.deleteAllLocal(),
+        deleteAllAndSync: () => s.deleteAllAndSync(),
+        getAll: () => s.getAll(),
+        iterate: () => s.iterate("expenses").next(),
+        findBy: () => s.findBy("expenses", "amount", 15),
+        connectRemote: () => s.connectRemote({ url: "http://localhost:1" }),
+        syncNow: () => s.syncNow(),
+        resolveConflict: () =>
+          s.resolveConflict("expenses", "lunch", {
+            _id: "lunch",
+            _table: "expenses",
+          }),
+        getConflictInfo: () => s.getConflictInfo("expenses", "lunch"),
+        history: () => s.history("expenses", "lunch"),
+        restore: () => s.restore("expenses", "lunch", "1-a"),
+        changePassword: () => s.changePassword("test-password", "other"),
+        migrateKeyDerivation: () => s.migrateKeyDerivation(),
+        bindAllDocuments: () => s.bindAllDocuments(),
+        rebuildBlindIndexes: () => s.rebuildBlindIndexes(),
+        migrateAll: () => s.migrateAll(),
+        hasPendingPasswordChange: () => s.hasPendingPasswordChange(),
+        listKeySlots: () => s.listKeySlots(),
+        addKeySlot: () => s.addKeySlot("recovery", "secret"),
+        removeKeySlot: () => s.removeKeySlot("recovery"),
+        getPublicKey: () => s.getPublicKey(),
+        shareTable: () => s.shareTable("expenses", "key"),
+        revokeShare: () => s.revokeShare("expenses", "key"),
+        listShares: () => s.listShares(),
+        acceptShare: () => s.acceptShare("expenses", "key"),
+        listIncomingShares: () => s.listIncomingShares(),
+        getSigningKey: () => s.getSigningKey(),
+        trustSigner: () => s.trustSigner("alice", "key"),
+        untrustSigner: () => s.untrustSigner("key"),
+        listTrustedSigners: () => s.listTrustedSigners(),
+        query: () => s.query("expenses"),
+        defineIndex: () => s.defineIndex("expenses", ["amount"]),
+      };
+      for (const [name, call] of Object.entries(calls)) {
+        await expect(
+          call().then(
+            () => name,
+            (error) => (error instanceof StoreLockedError ? null : name),
+          ),
+        ).resolves.toBeNull();
+      }
+      expect(store.isLocked()).toBe(true);
+
+      await expect(store.unlock("wrong-password")).rejects.toThrow(
+        InvalidPasswordError,
+      );
+      expect(store.isLocked()).toBe(true);
+
+      await store.unlock("test-password");
+      expect(store.isLocked()).toBe(false);
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(15);
+    });
+
+    test("should queue changes while locked and deliver them on unlock", async () => {
+      const onChange = jest.fn();
+      const onDelete = jest.fn();
+      store = new EncryptedStore(db, "test-password", { onChange, onDelete });
+      await store.loadAll();
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      await waitFor(() => expect(onChange).toHaveBeenCalledTimes(1));
+
+      store.lock();
+
+      // Another device (or tab) writes meanwhile
+      const other = new EncryptedStore(db, "test-password");
+      await other.put("expenses", { _id: "dinner", amount: 25 });
+      await other.put("expenses", { _id: "dinner", amount: 30 });
+      await other.delete("expenses", "lunch");
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onDelete).not.toHaveBeenCalled();
+
+      await store.unlock("test-password");
+      await waitFor(() => expect(onDelete).toHaveBeenCalled());
+      expect(onChange).toHaveBeenCalledTimes(2);
+      expect(onChange).toHaveBeenLastCalledWith([
+        {
+          _id: "dinner",
+          _table: "expenses",
+          _rev: expect.any(String),
+          amount: 30,
+        },
+      ]);
+      expect(onDelete).toHaveBeenCalledWith([
+        { _id: "lunch", _table: "expenses" },
+      ]);
+    });
+
+    test("should unlock with another key slot", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.addKeySlot("recovery", "recovery-secret");
+      store.lock();
+
+      await store.unlockWith("recovery", "recovery-secret");
+      expect(store.isLocked()).toBe(false);
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+    });
+
+    test("should lock after a period of inactivity", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        autoLockAfterMs: 300,
+      });
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      expect(store.isLocked()).toBe(false);
+
+      await waitFor(() => store.isLocked());
+      await expect(store.get("expenses", "lunch")).rejects.toThrow(
+        StoreLockedError,
+      );
+
+      await store.unlock("test-password");
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(15);
+      store.lock();
+    });
+  });
+
+  describe("Shared Tables", () => {
+    let bobDb: PouchDB.Database;
+
+    beforeEach(() => {
+      bobDb = new PouchDB("test-db-bob", { adapter: "memory" });
+    });
+
+    afterEach(async () => {
+      await bobDb.destroy();
+    });
+
+    const replicate = (
+      from: PouchDB.Database,
+      to: PouchDB.Database,
+      table: string,
+    ) =>
+      PouchDB.replicate(from, to, {
+        filter: EncryptedStore.shareFilter(table),
+      });
+
+    const keyIdOf = async (database: PouchDB.Database, id: string) =>
+      EncryptionHelper.parseEnvelope(((await database.get(id)) as any).d).keyId;
+
+    /** Accept the expenses table in a new store, and return its public key */
+    const acceptFrom = async (
+      database: PouchDB.Database,
+      password: string,
+      ownerPublicKey: string,
+    ) => {
+      const recipient = new EncryptedStore(database, password);
+      await recipient.acceptShare("expenses", ownerPublicKey);
+      return recipient.getPublicKey();
+    };
+
+    test("should let the recipient read and write only the shared table", async () => {
+      store = new EncryptedStore(db, "alice-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      await store.put("notes", { _id: "diary", text: "private" });
+
+      const onChange = jest.fn();
+      const bob = new EncryptedStore(bobDb, "bob-password", {
+        onChange,
+        onDelete: jest.fn(),
+      });
+      await bob.loadAll();
+      const bobKey = await bob.getPublicKey();
+      const aliceKey = await store.getPublicKey();
+
+      await store.shareTable("expenses", bobKey);
+      expect(await store.listShares()).toEqual([
+        { table: "expenses", publicKey: bobKey },
+      ]);
+      expect(await keyIdOf(db, "expenses_lunch")).not.toBe(
+        await keyIdOf(db, "notes_diary"),
+      );
+
+      await replicate(db, bobDb, "expenses");
+      expect(await bob.listIncomingShares()).toEqual([
+        { table: "expenses", publicKey: aliceKey },
+      ]);
+      expect(await bob.get("expenses", "lunch")).toBeNull();
+
+      await bob.acceptShare("expenses", aliceKey);
+      await waitFor(() =>
+        expect(onChange).toHaveBeenCalledWith([
+          {
+            _id: "lunch",
+            _table: "expenses",
+            _rev: expect.any(String),
+            amount: 15,
+          },
+        ]),
+      );
+      await expect(bobDb.get("notes_diary")).rejects.toBeDefined();
+
+      // Even a copy of another table's document stays unreadable
+      const { _rev, ...diary } = await db.get("notes_diary");
+      await bobDb.put(diary);
+      expect(await bob.get("notes", "diary")).toBeNull();
+
+      await bob.put("expenses", { _id: "dinner", amount: 25 });
+      await replicate(bobDb, db, "expenses");
+      expect((await store.get("expenses", "dinner"))?.amount).toBe(25);
+    });
+
+    test("should rotate the table key when a share is revoked", async () => {
+      const carolDb = new PouchDB("test-db-carol", { adapter: "memory" });
+      store = new EncryptedStore(db, "alice-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      const aliceKey = await store.getPublicKey();
+      const bobKey = await acceptFrom(bobDb, "bob-password", aliceKey);
+      const carolKey = await acceptFrom(carolDb, "carol-password", aliceKey);
+      await store.shareTable("expenses", bobKey);
+      await store.shareTable("expenses", carolKey);
+      await replicate(db, bobDb, "expenses");
+      const bob = new EncryptedStore(bobDb, "bob-password");
+      expect((await bob.get("expenses", "lunch"))?.amount).toBe(15);
+      const keyId = await keyIdOf(db, "expenses_lunch");
+
+      await store.revokeShare("expenses", bobKey);
+      expect(await store.listShares()).toEqual([
+        { table: "expenses", publicKey: carolKey },
+      ]);
+      expect(await keyIdOf(db, "expenses_lunch")).not.toBe(keyId);
+      expect(await store.hasPendingPasswordChange()).toBe(false);
+      await store.put("expenses", { _id: "lunch", amount: 20 });
+
+      await replicate(db, bobDb, "expenses");
+      await replicate(db, carolDb, "expenses");
+      const reopenedBob = new EncryptedStore(bobDb, "bob-password");
+      expect(await reopenedBob.get("expenses", "lunch")).toBeNull();
+      const carol = new EncryptedStore(carolDb, "carol-password");
+      expect((await carol.get("expenses", "lunch"))?.amount).toBe(20);
+
+      await expect(store.revokeShare("expenses", bobKey)).rejects.toThrow(
+        "not shared with this key",
+      );
+      await carolDb.destroy();
+    });
+
+    test("should keep the identity and table keys across password changes", async () => {
+      store = new EncryptedStore(db, "alice-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      const alicePublicKey = await store.getPublicKey();
+      await store.shareTable(
+        "expenses",
+        await acceptFrom(bobDb, "bob-password", alicePublicKey),
+      );
+
+      await store.changePassword("alice-password", "new-password");
+
+      const reopened = new EncryptedStore(db, "new-password");
+      expect(await reopened.getPublicKey()).toBe(alicePublicKey);
+      expect((await reopened.get("expenses", "lunch"))?.amount).toBe(15);
+      await replicate(db, bobDb, "expenses");
+      const bob = new EncryptedStore(bobDb, "bob-password");
+      expect((await bob.get("expenses", "lunch"))?.amount).toBe(15);
+    });
+
+    test("should not share tables of a store with encrypted ids", async () => {
+      store = new EncryptedStore(db, "alice-password", undefined, {
+        encryptIds: true,
+      });
+      const bobKey = await new EncryptedStore(
+        bobDb,
+        "bob-password",
+      ).getPublicKey();
+
+      await expect(store.shareTable("expenses", bobKey)).rejects.toThrow(
+        "encrypted ids",
+      );
+    });
+
+    test("should ignore share documents not from an accepted owner", async () => {
+      const malloryDb = new PouchDB("test-db-mallory", { adapter: "memory" });
+      store = new EncryptedStore(db, "alice-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      const onChange = jest.fn();
+      const bob = new EncryptedStore(bobDb, "bob-password", {
+        onChange,
+        onDelete: jest.fn(),
+      });
+      await bob.loadAll();
+      const bobKey = await bob.getPublicKey();
+      await bob.acceptShare("expenses", await store.getPublicKey());
+      await store.shareTable("expenses", bobKey);
+      await replicate(db, bobDb, "expenses");
+      await waitFor(() => expect(onChange).toHaveBeenCalled());
+
+      // Mallory writes share documents for Bob: over Alice's, and for a
+      // table Bob hasn't accepted
+      const mallory = new EncryptedStore(malloryDb, "mallory-password");
+      await mallory.put("notes", { _id: "spy", text: "" });
+      await mallory.shareTable("expenses", bobKey);
+      await mallory.shareTable("notes", bobKey);
+      await replicate(malloryDb, bobDb, "notes");
+      const shareId = `encrypted-store-share:expenses:${await publicKeyId(bobKey)}`;
+      const { _rev, ...forged } = await malloryDb.get(shareId);
+      await bobDb.put({ ...forged, _rev: (await bobDb.get(shareId))._rev });
+      await store.put("expenses", { _id: "dinner", amount: 25 });
+      await replicate(db, bobDb, "expenses");
+      await waitFor(() =>
+        expect(onChange).toHaveBeenCalledWith([
+          expect.objectContaining({ _id: "dinner" }),
+        ]),
+      );
+
+      // Bob still writes with Alice's key, and his own notes with his own
+      await bob.put("expenses", { _id: "breakfast", amount: 5 });
+      await bob.put("notes", { _id: "diary", text: "private" });
+      await bob.put("todos", { _id: "milk" });
+      expect(await keyIdOf(bobDb, "expenses_breakfast")).toBe(
+        await keyIdOf(db, "expenses_lunch"),
+      );
+      expect(await keyIdOf(bobDb, "notes_diary")).toBe(
+        await keyIdOf(bobDb, "todos_milk"),
+      );
+      await replicate(bobDb, db, "expenses");
+      expect((await store.get("expenses", "breakfast"))?.amount).toBe(5);
+      expect(await bob.listIncomingShares()).toEqual(
+        expect.arrayContaining([
+          { table: "notes", publicKey: await mallory.getPublicKey() },
+        ]),
+      );
+      await malloryDb.destroy();
+    });
+  });
+
+  describe("Signed Documents", () => {
+    test("should sign documents and report their author", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        signAs: "alice-laptop",
+      });
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const raw = (await db.get("expenses_lunch")) as any;
+      expect(raw.a).toMatch(/^[0-9a-f]{16}$/);
+      expect(raw.s).toBeDefined();
+      expect(await store.get("expenses", "lunch")).toEqual({
+        _id: "lunch",
+        _table: "expenses",
+        _rev: expect.any(String),
+        _author: "alice-laptop",
+        amount: 15,
+      });
+      expect(await store.listTrustedSigners()).toEqual([
+        { author: "alice-laptop", publicKey: await store.getSigningKey() },
+      ]);
+
+      // Another device of the same store trusts it too
+      const other = new EncryptedStore(db, "test-password");
+      expect((await other.get("expenses", "lunch"))?._author).toBe(
+        "alice-laptop",
+      );
+      expect(await other.getSigningKey()).toBeNull();
+    });
+
+    test("should report tampered and untrusted signatures", async () => {
+      const onError = jest.fn();
+      store = new EncryptedStore(
+        db,
+        "test-password",
+        { onChange: jest.fn(), onDelete: jest.fn(), onError },
+        { signAs: "alice-laptop" },
+      );
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      await store.put("expenses", { _id: "dinner", amount: 25 });
+
+      // A signature moved to another document
+      const lunch = (await db.get("expenses_lunch")) as any;
+      const dinner = (await db.get("expenses_dinner")) as any;
+      await db.put({ ...dinner, s: lunch.s });
+
+      expect(await store.get("expenses", "dinner")).toBeNull();
+      await store.getAll();
+      const errors = onError.mock.calls[0][0] as DecryptionErrorEvent[];
+      expect(errors).toHaveLength(1);
+      expect(errors[0].docId).toBe("expenses_dinner");
+      expect(errors[0].error).toBeInstanceOf(SignatureError);
+
+      await store.untrustSigner((await store.getSigningKey())!);
+      expect(await store.get("expenses", "lunch")).toBeNull();
+    });
+
+    test("should verify a shared table's documents against trusted keys", async () => {
+      const bobDb = new PouchDB("test-db-bob", { adapter: "memory" });
+      const filter = EncryptedStore.shareFilter("expenses");
+      store = new EncryptedStore(db, "alice-password");
+      const bob = new EncryptedStore(bobDb, "bob-password", undefined, {
+        signAs: "bob",
+      });
+      await bob.acceptShare("expenses", await store.getPublicKey());
+      await store.shareTable("expenses", await bob.getPublicKey());
+      await PouchDB.replicate(db, bobDb, { filter });
+
+      const reopenedBob = new EncryptedStore(bobDb, "bob-password", undefined, {
+        signAs: "bob",
+      });
+      await reopenedBob.put("expenses", { _id: "lunch", amount: 15 });
+      await PouchDB.replicate(bobDb, db, { filter });
+      expect(await store.get("expenses", "lunch")).toBeNull();
+
+      await store.trustSigner("bob", (await reopenedBob.getSigningKey())!);
+      expect((await store.get("expenses", "lunch"))?._author).toBe("bob");
+      await bobDb.destroy();
+    });
+
+    test("should require signatures if configured", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+
+      const onError = jest.fn();
+      const strict = new EncryptedStore(
+        db,
+        "test-password",
+        { onChange: jest.fn(), onDelete: jest.fn(), onError },
+        { requireSignatures: true },
+      );
+      await strict.getAll();
+      const errors = onError.mock.calls[0][0] as DecryptionErrorEvent[];
+      expect(errors[0].error).toBeInstanceOf(SignatureError);
+      expect(errors[0].error.message).toBe("Document is not signed");
+    });
+  });
+
+  describe("Blind Indexes", () => {
+    const options = { blindIndexes: { expenses: ["category"] } };
+
+    test("should find documents by an indexed field", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, options);
+      await store.put("expenses", { _id: "lunch", category: "food" });
+      await store.put("expenses", { _id: "dinner", category: "food" });
+      await store.put("expenses", { _id: "rent", category: "home" });
+      await store.put("income", { _id: "salary", category: "food" });
+
+      const found = await store.findBy("expenses", "category", "food");
+      expect(found.map((doc) => doc._id).sort()).toEqual(["dinner", "lunch"]);
+      expect(await store.findBy("expenses", "category", "travel")).toEqual([]);
+
+      // Only tokens are stored, never the values
+      const raw = (await db.get("expenses_lunch")) as any;
+      expect(raw.i).toHaveLength(1);
+      expect(JSON.stringify(raw)).not.toContain("food");
+      expect(raw.i).toEqual(((await db.get("expenses_dinner")) as any).i);
+    });
+
+    test("should follow updates and deletions", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, options);
+      await store.put("expenses", { _id: "lunch", category: "food" });
+      expect(await store.findBy("expenses", "category", "food")).toHaveLength(
+        1,
+      );
+
+      await store.put("expenses", { _id: "lunch", category: "work" });
+      expect(await store.findBy("expenses", "category", "food")).toEqual([]);
+      expect((await store.findBy("expenses", "category", "work"))[0]._id).toBe(
+        "lunch",
+      );
+
+      await store.delete("expenses", "lunch");
+      expect(await store.findBy("expenses", "category", "work")).toEqual([]);
+    });
+
+    test("should keep the lookup in a local document only", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, options);
+      await store.put("expenses", { _id: "lunch", category: "food" });
+      expect(await store.findBy("expenses", "category", "food")).toHaveLength(
+        1,
+      );
+
+      const designDocs = await db.allDocs({
+        startkey: "_design/",
+        endkey: "_design/\ufff0",
+      });
+      expect(designDocs.rows).toEqual([]);
+      const [token] = ((await db.get("expenses_lunch")) as any).i;
+      const saved = (await db.get(
+        `_local/encrypted-store-blind-index:${tokenShard(token)}`,
+      )) as any;
+      expect(Object.keys(saved.docs)).toEqual(["expenses_lunch"]);
+
+      // Another store on this database picks up from the saved lookup
+      await store.put("expenses", { _id: "dinner", category: "food" });
+      const changes = jest.spyOn(db, "changes");
+      const other = new EncryptedStore(db, "test-password", undefined, options);
+      expect(await other.findBy("expenses", "category", "food")).toHaveLength(
+        2,
+      );
+      expect(changes).toHaveBeenCalledWith(
+        expect.objectContaining({ since: saved.seq }),
+      );
+    });
+
+    test("should only read and save the lookup of the token's shard", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, options);
+      await store.putMany(
+        "expenses",
+        Array.from({ length: 20 }, (_, i) => ({
+          _id: `e${i}`,
+          category: `c${i}`,
+        })),
+      );
+      const shards = new Map<string, string[]>();
+      for (let i = 0; i < 20; i++) {
+        const [token] = ((await db.get(`expenses_e${i}`)) as any).i;
+        const shard = tokenShard(token);
+        shards.set(shard, [...(shards.get(shard) ?? []), `expenses_e${i}`]);
+      }
+
+      const put = jest.spyOn(db, "put");
+      expect(await store.findBy("expenses", "category", "c3")).toHaveLength(1);
+      const [token] = ((await db.get("expenses_e3")) as any).i;
+      const localId = `_local/encrypted-store-blind-index:${tokenShard(token)}`;
+      expect(put.mock.calls.map(([doc]) => doc._id)).toEqual([localId]);
+      const saved = (await db.get(localId)) as any;
+      expect(Object.keys(saved.docs).sort()).toEqual(
+        shards.get(tokenShard(token))!.sort(),
+      );
+    });
+
+    test("should reject fields without an index", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, options);
+      await expect(store.findBy("expenses", "amount", 15)).rejects.toThrow(
+        'Field "amount" of table "expenses" is not indexed',
+      );
+    });
+
+    test("should index existing documents on rebuild", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "lunch", category: "food" });
+
+      const indexed = new EncryptedStore(
+        db,
+        "test-password",
+        undefined,
+        options,
+      );
+      expect(await indexed.findBy("expenses", "category", "food")).toEqual([]);
+      await indexed.rebuildBlindIndexes();
+      expect(await indexed.findBy("expenses", "category", "food")).toHaveLength(
+        1,
+      );
+    });
+
+    test("should keep finding documents after a password change", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, options);
+      await store.put("expenses", { _id: "lunch", category: "food" });
+      const token = ((await db.get("expenses_lunch")) as any).i[0];
+
+      await store.changePassword("test-password", "new-password");
+
+      expect(((await db.get("expenses_lunch")) as any).i[0]).not.toBe(token);
+      expect(await store.findBy("expenses", "category", "food")).toHaveLength(
+        1,
+      );
+    });
+  });
+
+  describe("Batch Decryption", () => {
+    /** Documents a-f, with f's payload copied over c */
+    async function writeDocs(): Promise<void> {
+      store = new EncryptedStore(db, "test-password");
+      for (const id of ["a", "b", "c", "d", "e", "f"]) {
+        await store.put("expenses", { _id: id, amount: id.charCodeAt(0) });
+      }
+      const source = (await db.get("expenses_f")) as any;
+      await db.put({ ...(await db.get("expenses_c")), d: source.d });
+    }
+
+    async function loadWith(options: object) {
+      const onChange = jest.fn();
+      const onError = jest.fn();
+      const reader = new EncryptedStore(
+        db,
+        "test-password",
+        { onChange, onDelete: jest.fn(), onError },
+        options,
+      );
+      await reader.loadAll();
+      return {
+        reader,
+        docs: onChange.mock.calls[0][0] as Doc[],
+        errors: onError.mock.calls[0][0] as DecryptionErrorEvent[],
+      };
+    }
+
+    test("should keep order and errors with bounded concurrency", async () => {
+      await writeDocs();
+      const { reader, docs, errors } = await loadWith({
+        decryptConcurrency: 2,
+      });
+
+      expect(docs.map((doc) => doc._id)).toEqual(["a", "b", "d", "e", "f"]);
+      expect(errors.map((e) => e.docId)).toEqual(["expenses_c"]);
+      expect(errors[0].error).toBeInstanceOf(DecryptionError);
+      expect((await reader.getAll("expenses")).map((doc) => doc._id)).toEqual([
+        "a",
+        "b",
+        "d",
+        "e",
+        "f",
+      ]);
+    });
+
+    test("should decrypt in a worker pool with the same results", async () => {
+      await writeDocs();
+      // A legacy value, which the pool leaves to the main thread
+      const raw = (await db.get("expenses_e")) as any;
+      await db.put({ ...raw, d: toLegacyFormat(raw.d) });
+
+      const ports: MessagePort[] = [];
+      const pool = new WorkerDecryptionPool(() => {
+        const { port1, port2 } = new MessageChannel();
+        ports.push(port1, port2);
+        serveDecryption(port2);
+        return Object.assign(port1, { terminate: () => port1.close() });
+      }, 2);
+      const decrypt = jest.spyOn(pool, "decrypt");
+      try {
+        const { docs, errors } = await loadWith({ decryptionPool: pool });
+        const expected = await loadWith({});
+
+        expect(decrypt).toHaveBeenCalled();
+        // All but the legacy value
+        expect(decrypt.mock.calls[0][1]).toHaveLength(5);
+        expect(docs).toEqual(expected.docs);
+        expect(errors.map((e) => e.docId)).toEqual(["expenses_c"]);
+        expect(errors[0].error).toBeInstanceOf(DecryptionError);
+        expect(errors[0].error.message).toBe(expected.errors[0].error.message);
+      } finally {
+        pool.terminate();
+        for (const port of ports) port.close();
+      }
+    });
+
+    test("should keep decrypting after a worker fails", async () => {
+      await writeDocs();
+      const ports: MessagePort[] = [];
+      const pool = new WorkerDecryptionPool(() => {
+        const { port1, port2 } = new MessageChannel();
+        ports.push(port1, port2);
+        serveDecryption(port2);
+        return Object.assign(port1, { terminate: () => port1.close() });
+      }, 2);
+      try {
+        // Like a worker_threads Worker, it stops after its error
+        ports[0].close();
+        ports[0].emit("error", new Error("worker crashed"));
+
+        const reader = new EncryptedStore(db, "test-password", undefined, {
+          decryptionPool: pool,
+        });
+        const docs = await reader.getAll("expenses");
+        expect(docs.map((doc) => doc._id)).toEqual(["a", "b", "d", "e", "f"]);
+      } finally {
+        pool.terminate();
+        for (const port of ports) port.close();
+      }
+    });
+
+    test("should fall back to the main thread if the pool fails", async () => {
+      await writeDocs();
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      const { docs, errors } = await loadWith({
+        decryptionPool: {
+          decrypt: () => Promise.reject(new Error("worker crashed")),
+        },
+      });
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+
+      expect(docs.map((doc) => doc._id)).toEqual(["a", "b", "d", "e", "f"]);
+      expect(errors.map((e) => e.docId)).toEqual(["expenses_c"]);
+    });
+  });
+
+  describe("Range Scans", () => {
+    async function writeTables(options?: object): Promise<void> {
+      store = new EncryptedStore(db, "test-password", undefined, options);
+      for (const id of ["a", "b", "c", "d", "e"]) {
+        await store.put("expenses", { _id: id, amount: 1 });
+      }
+      await store.put("income", { _id: "salary", amount: 100 });
+      await store.put("notes", { _id: "a", text: "note" });
+    }
+
+    test("should read only the table's documents", async () => {
+      await writeTables();
+      // Unreadable documents of other tables are not even read
+      await db.put({ ...(await db.get("income_salary")), d: "garbage" });
+      const onError = jest.fn();
+      const reader = new EncryptedStore(db, "test-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+        onError,
+      });
+
+      const docs = await reader.getAll("expenses");
+      expect(docs.map((doc) => doc._id)).toEqual(["a", "b", "c", "d", "e"]);
+      expect(onError).not.toHaveBeenCalled();
+
+      await reader.getAll();
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    test("should page with limit, startAfter and descending", async () => {
+      await writeTables();
+      const ids = async (options: object) =>
+        (await store.getAll("expenses", options)).map((doc) => doc._id);
+
+      expect(await ids({ limit: 2 })).toEqual(["a", "b"]);
+      expect(await ids({ limit: 2, startAfter: "b" })).toEqual(["c", "d"]);
+      expect(await ids({ startAfter: "d" })).toEqual(["e"]);
+      expect(await ids({ startAfter: "bb", limit: 1 })).toEqual(["c"]);
+      expect(await ids({ descending: true, limit: 2 })).toEqual(["e", "d"]);
+      expect(await ids({ descending: true, startAfter: "b" })).toEqual(["a"]);
+      expect(await ids({ limit: 10 })).toEqual(["a", "b", "c", "d", "e"]);
+      await expect(
+        store.getAll(undefined, { startAfter: "a" }),
+      ).rejects.toThrow("startAfter needs a table");
+    });
+
+    test("should page through tables with encrypted ids", async () => {
+      await writeTables({ encryptIds: true });
+      const seen: string[] = [];
+      let page = await store.getAll("expenses", { limit: 2 });
+      while (page.length > 0) {
+        seen.push(...page.map((doc) => doc._id));
+        const last = page[page.length - 1]._id;
+        page = await store.getAll("expenses", { limit: 2, startAfter: last });
+      }
+
+      expect(seen.sort()).toEqual(["a", "b", "c", "d", "e"]);
+      expect((await store.getAll("notes"))[0].text).toBe("note");
+    });
+
+    test("should iterate over a table in batches", async () => {
+      await writeTables();
+      const allDocs = jest.spyOn(db, "allDocs");
+
+      const ids: string[] = [];
+      for await (const doc of store.iterate("expenses", { batchSize: 2 })) {
+        ids.push(doc._id);
+      }
+      expect(ids).toEqual(["a", "b", "c", "d", "e"]);
+      expect(allDocs).toHaveBeenCalledTimes(3);
+
+      const reversed: string[] = [];
+      for await (const doc of store.iterate("expenses", {
+        descending: true,
+        startAfter: "d",
+        limit: 2,
+      })) {
+        reversed.push(doc._id);
+      }
+      expect(reversed).toEqual(["c", "b"]);
+    });
+
+    test("should stop iterating when the store is locked", async () => {
+      await writeTables();
+      const iterator = store.iterate("expenses", { batchSize: 2 });
+      expect((await iterator.next()).value?._id).toBe("a");
+      expect((await iterator.next()).value?._id).toBe("b");
+
+      store.lock();
+      await expect(iterator.next()).rejects.toThrow(StoreLockedError);
+    });
+  });
+
+  describe("Queries", () => {
+    interface Expense extends Doc {
+      category: string;
+      amount: number;
+      date: string;
+    }
+
+    async function writeExpenses(options?: object): Promise<void> {
+      store = new EncryptedStore(
+        db,
+        "test-password",
+        { onChange: jest.fn(), onDelete: jest.fn() },
+        options,
+      );
+      await store.loadAll();
+      await store.put("expenses", {
+        _id: "a",
+        category: "food",
+        amount: 15,
+        date: "2024-03-02",
+      });
+      await store.put("expenses", {
+        _id: "b",
+        category: "home",
+        amount: 900,
+        date: "2024-03-01",
+      });
+      await store.put("expenses", {
+        _id: "c",
+        category: "food",
+        amount: 40,
+        date: "2024-03-05",
+      });
+      await store.put("income", { _id: "d", category: "food", amount: 99 });
+    }
+
+    test("should filter, sort and page a table", async () => {
+      await writeExpenses();
+
+      const food = await store.query<Expense>("expenses", {
+        where: { category: "food" },
+      });
+      expect(food.map((doc) => doc._id)).toEqual(["a", "c"]);
+      expect(food[0].amount).toBe(15);
+
+      const latest = await store.query<Expense>("expenses", {
+        where: { amount: { $gte: 15 }, date: { $regex: "^2024-03" } },
+        orderBy: [{ date: "desc" }],
+        limit: 2,
+      });
+      expect(latest.map((doc) => doc._id)).toEqual(["c", "a"]);
+
+      const second = await store.query("expenses", { offset: 1, limit: 1 });
+      expect(second.map((doc) => doc._id)).toEqual(["b"]);
+      await expect(
+        store.query("expenses", { where: { amount: { $between: 1 } } }),
+      ).rejects.toThrow("Unknown operator: $between");
+    });
+
+    test("should query tables with encrypted ids", async () => {
+      await writeExpenses({ encryptIds: true });
+      const docs = await store.query("expenses", {
+        where: { category: "food" },
+        limit: 1,
+      });
+      expect(docs.map((doc) => doc._id)).toEqual(["a"]);
+    });
+
+    test("should keep subscriptions up to date", async () => {
+      await writeExpenses();
+      const onResults = jest.fn<(docs: Expense[]) => void>();
+      const ids = () => onResults.mock.calls.at(-1)![0].map((doc) => doc._id);
+
+      const unsubscribe = store.subscribe<Expense>(
+        "expenses",
+        { where: { category: "food" }, orderBy: [{ amount: "desc" }] },
+        onResults,
+      );
+      await waitFor(() => onResults.mock.calls.length === 1);
+      expect(ids()).toEqual(["c", "a"]);
+
+      await store.put("expenses", {
+        _id: "e",
+        category: "food",
+        amount: 60,
+        date: "2024-03-06",
+      });
+      await waitFor(() => onResults.mock.calls.length === 2);
+      expect(ids()).toEqual(["e", "c", "a"]);
+
+      await store.put("expenses", {
+        _id: "c",
+        category: "home",
+        amount: 40,
+        date: "2024-03-05",
+      });
+      await waitFor(() => onResults.mock.calls.length === 3);
+      expect(ids()).toEqual(["e", "a"]);
+
+      await store.delete("expenses", "a");
+      await waitFor(() => onResults.mock.calls.length === 4);
+      expect(ids()).toEqual(["e"]);
+
+      unsubscribe();
+      await store.put("expenses", { _id: "f", category: "food", amount: 1 });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(onResults).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe("Secondary Indexes", () => {
+    async function writeExpenses(): Promise<void> {
+      store = new EncryptedStore(db, "test-password");
+      for (let day = 1; day <= 9; day++) {
+        await store.put("expenses", {
+          _id: `e${day}`,
+          date: `2024-01-0${day}`,
+          amount: day * 10,
+        });
+      }
+      await store.put("income", { _id: "i1", date: "2024-01-03" });
+    }
+
+    test("should only decrypt the documents in range", async () => {
+      await writeExpenses();
+      await store.defineIndex("expenses", ["date"]);
+      const allDocs = jest.spyOn(db, "allDocs");
+
+      const docs = await store.query("expenses", {
+        where: { date: { $gte: "2024-01-03", $lt: "2024-01-06" } },
+        orderBy: [{ date: "desc" }],
+      });
+
+      expect(docs.map((doc) => doc._id)).toEqual(["e5", "e4", "e3"]);
+      expect(allDocs).toHaveBeenCalledTimes(1);
+      expect((allDocs.mock.calls[0][0] as any).keys).toEqual([
+        "expenses_e3",
+        "expenses_e4",
+        "expenses_e5",
+      ]);
+    });
+
+    test("should follow changes", async () => {
+      await writeExpenses();
+      await store.defineIndex("expenses", ["date"]);
+      const january = { where: { date: { $lt: "2024-02" } } };
+      expect(await store.query("expenses", january)).toHaveLength(9);
+
+      await store.put("expenses", { _id: "e1", date: "2024-02-01" });
+      await store.delete("expenses", "e2");
+      await store.put("expenses", { _id: "e10", date: "2024-01-10" });
+
+      const docs = await store.query("expenses", january);
+      expect(docs.map((doc) => doc._id).sort()).toEqual(
+        ["e10", "e3", "e4", "e5", "e6", "e7", "e8", "e9"].sort(),
+      );
+    });
+
+    test("should save the index encrypted and reuse it", async () => {
+      await writeExpenses();
+      const put = jest.spyOn(db, "put");
+      await store.defineIndex("expenses", ["date"]);
+
+      const saved = put.mock.calls.map(([doc]) => (doc as any)._id);
+      expect(saved).toHaveLength(1);
+      expect(saved[0]).toMatch(/^_local\/encrypted-store-index:[0-9a-f]{16}$/);
+      expect(JSON.stringify(await db.get(saved[0]))).not.toContain("2024");
+      put.mockRestore();
+
+      const reader = new EncryptedStore(db, "test-password");
+      await reader.open();
+      const decrypt = jest.spyOn(EncryptionHelper.prototype, "decrypt");
+      await reader.defineIndex("expenses", ["date"]);
+      // Only the saved index
+      expect(decrypt).toHaveBeenCalledTimes(1);
+      decrypt.mockRestore();
+
+      const docs = await reader.query("expenses", {
+        where: { date: "2024-01-07" },
+      });
+      expect(docs.map((doc) => doc._id)).toEqual(["e7"]);
+    });
+
+    test("should rebuild after the data key changes", async () => {
+      await writeExpenses();
+      await store.defineIndex("expenses", ["date"]);
+      await store.changePassword("test-password", "new-password");
+
+      const reader = new EncryptedStore(db, "new-password");
+      await reader.defineIndex("expenses", ["date"]);
+      const docs = await reader.query("expenses", {
+        where: { date: { $gt: "2024-01-08" } },
+      });
+      expect(docs.map((doc) => doc._id)).toEqual(["e9"]);
+    });
+
+    test("should forget the index when locked", async () => {
+      await writeExpenses();
+      await store.defineIndex("expenses", ["date"]);
+
+      store.lock();
+      await expect(
+        store.query("expenses", { where: { date: "2024-01-01" } }),
+      ).rejects.toThrow(StoreLockedError);
+
+      await store.unlock("test-password");
+      const docs = await store.query("expenses", {
+        where: { date: "2024-01-01" },
+      });
+      expect(docs.map((doc) => doc._id)).toEqual(["e1"]);
+    });
+  });
+
+  describe("Revisions", () => {
+    test("should return the revision documents were read or written at", async () => {
+      store = new EncryptedStore(db, "test-password");
+      const written = await store.put("expenses", { _id: "lunch", amount: 15 });
+      const raw = await db.get("expenses_lunch");
+
+      expect(written._rev).toBe(raw._rev);
+      expect((await store.get("expenses", "lunch"))?._rev).toBe(raw._rev);
+      expect((await store.getAll("expenses"))[0]._rev).toBe(raw._rev);
+    });
+
+    test("should reject writes based on a stale revision", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      const tab1 = (await store.get("expenses", "lunch"))!;
+      const tab2 = (await store.get("expenses", "lunch"))!;
+
+      const saved = await store.put("expenses", { ...tab1, amount: 20 });
+      await expect(
+        store.put("expenses", { ...tab2, amount: 30 }),
+      ).rejects.toThrow(ConflictError);
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(20);
+
+      // The new revision can be written over
+      await store.put("expenses", { ...saved, amount: 25 });
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(25);
+    });
+
+    test("should let forced writes and writes without a revision win", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      const stale = (await store.get("expenses", "lunch"))!;
+      await store.put("expenses", { ...stale, amount: 20 });
+
+      await store.put("expenses", { ...stale, amount: 30 }, { force: true });
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(30);
+      await store.put("expenses", { _id: "lunch", amount: 40 });
+      expect((await store.get("expenses", "lunch"))?.amount).toBe(40);
+    });
+
+    test("should reject writes to a document deleted meanwhile", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "lunch", amount: 15 });
+      const doc = (await store.get("expenses", "lunch"))!;
+      await store.delete("expenses", "lunch");
+
+      await expect(
+        store.put("expenses", { ...doc, amount: 20 }),
+      ).rejects.toThrow('Document "lunch" of table "expenses"');
+    });
+
+    test("should check revisions in putMany", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.putMany("expenses", [
+        { _id: "a", amount: 1 },
+        { _id: "b", amount: 2 },
+      ]);
+      const [a, b] = await store.getAll("expenses");
+      await store.put("expenses", { ...a, amount: 10 });
+
+      const results = await store.putMany("expenses", [
+        { ...a, amount: 11 },
+        { ...b, amount: 12 },
+      ]);
+      expect(results.map((result) => result.ok)).toEqual([false, true]);
+      expect(!results[0].ok && results[0].error).toBeInstanceOf(ConflictError);
+
+      await store.putMany("expenses", [{ ...a, amount: 13 }], { force: true });
+      expect((await store.get("expenses", "a"))?.amount).toBe(13);
+    });
+  });
+
+  describe("Bulk Writes", () => {
+    test("should put many documents with one read and one write", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "a", amount: 1 });
+      const get = jest.spyOn(db, "get");
+      const bulkDocs = jest.spyOn(db, "bulkDocs");
+
+      const results = await store.putMany("expenses", [
+        { _id: "a", amount: 2 },
+        { _id: "b", amount: 3 },
+        { amount: 4 },
+      ]);
+
+      expect(results.map((result) => result.ok)).toEqual([true, true, true]);
+      expect(results[0].id).toBe("a");
+      expect(results[2].id).toEqual(expect.any(String));
+      expect(get).not.toHaveBeenCalled();
+      expect(bulkDocs).toHaveBeenCalledTimes(1);
+      expect((await store.get("expenses", "a"))?.amount).toBe(2);
+      expect((await store.get("expenses", results[2].id))?.amount).toBe(4);
+      const raw = (await db.get("expenses_b")) as any;
+      expect(raw.d).not.toContain("amount");
+    });
+
+    test("should report each document's outcome", async () => {
+      store = new EncryptedStore(db, "test-password");
+      const circular: any = { _id: "loop" };
+      circular.self = circular;
+
+      const results = await store.putMany("expenses", [
+        { _id: "a", amount: 1 },
+        circular,
+        { _id: "a", amount: 2 },
+      ]);
+
+      expect(results[0]).toEqual({
+        id: "a",
+        ok: true,
+        rev: expect.any(String),
+      });
+      expect(results[1].ok).toBe(false);
+      // Both were new: the second write of "a" conflicts with the first
+      expect(results[2]).toMatchObject({ id: "a", ok: false });
+      expect(!results[2].ok && results[2].error).toBeInstanceOf(ConflictError);
+      expect((await store.get("expenses", "a"))?.amount).toBe(1);
+    });
+
+    test("should keep attachments when updating", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("expenses", { _id: "a", amount: 1 });
+      await store.putAttachment(
+        "expenses",
+        "a",
+        "receipt.txt",
+        new Uint8Array([1, 2, 3]),
+      );
+
+      await store.putMany("expenses", [{ _id: "a", amount: 2 }]);
+
+      const attachment = await store.getAttachment(
+        "expenses",
+        "a",
+        "receipt.txt",
+      );
+      expect(new Uint8Array(await attachment!.arrayBuffer())).toEqual(
+        new Uint8Array([1, 2, 3]),
+      );
+    });
+
+    test("should delete many documents", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        encryptIds: true,
+      });
+      await store.putMany("expenses", [
+        { _id: "a", amount: 1 },
+        { _id: "b", amount: 2 },
+        { _id: "c", amount: 3 },
+      ]);
+
+      const results = await store.deleteMany("expenses", ["a", "missing", "c"]);
+
+      expect(results.map((result) => result.ok)).toEqual([true, false, true]);
+      expect(!results[1].ok && results[1].error.message).toBe(
+        "Document missing not found",
+      );
+      expect((await store.getAll("expenses")).map((doc) => doc._id)).toEqual([
+        "b",
+      ]);
+    });
+
+    test("should report bulk changes through the change feed", async () => {
+      const onChange = jest.fn();
+      const onDelete = jest.fn();
+      store = new EncryptedStore(db, "test-password", {
+        onChange,
+        onDelete,
+      });
+      await store.loadAll();
+
+      await store.putMany("expenses", [{ _id: "a" }, { _id: "b" }]);
+      await store.deleteMany("expenses", ["a"]);
+
+      await waitFor(() => onDelete.mock.calls.length === 1);
+      const changed = onChange.mock.calls.flatMap(([docs]) => docs as Doc[]);
+      expect(changed.map((doc) => doc._id).sort()).toEqual(["a", "b"]);
+      expect(onDelete).toHaveBeenCalledWith([{ _id: "a", _table: "expenses" }]);
+    });
+
+    test("should report each bulk write with one callback", async () => {
+      const onChange = jest.fn();
+      const onDelete = jest.fn();
+      store = new EncryptedStore(db, "test-password", {
+        onChange,
+        onDelete,
+      });
+      await store.loadAll();
+      onChange.mockClear();
+      const ids = Array.from({ length: 50 }, (_, i) => `tx${i}`);
+
+      const results = await store.putMany("expenses", [
+        ...ids.map((_id) => ({ _id, amount: 1 })),
+        { _id: "tx0", _rev: "1-stale", amount: 2 },
+      ]);
+      expect(results.filter((result) => !result.ok)).toHaveLength(1);
+      await waitFor(() => onChange.mock.calls.length > 0);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange.mock.calls[0][0]).toHaveLength(50);
+
+      await store.deleteMany("expenses", ids);
+      await waitFor(() => onDelete.mock.calls.length > 0);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(onDelete).toHaveBeenCalledTimes(1);
+      expect(onDelete.mock.calls[0][0]).toHaveLength(50);
+    });
+  });
+
+  describe("Updates", () => {
+    test("should update a document from its current version", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("counters", { _id: "visits", count: 1 });
+
+      const updated = await store.update("counters", "visits", (doc) => ({
+        ...doc,
+        count: doc.count + 1,
+      }));
+
+      expect(updated.count).toBe(2);
+      expect((await store.get("counters", "visits"))?.count).toBe(2);
+    });
+
+    test("should retry when the document changed meanwhile", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("counters", { _id: "visits", count: 1 });
+      const other = new EncryptedStore(db, "test-password");
+      const seen: number[] = [];
+
+      const updated = await store.update("counters", "visits", async (doc) => {
+        seen.push(doc.count);
+        if (seen.length === 1) {
+          await other.put("counters", { _id: "visits", count: 10 });
+        }
+        return { ...doc, count: doc.count + 1 };
+      });
+
+      expect(seen).toEqual([1, 10]);
+      expect(updated.count).toBe(11);
+      expect((await store.get("counters", "visits"))?.count).toBe(11);
+    });
+
+    test("should throw ConflictError once retries run out", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("counters", { _id: "visits", count: 1 });
+      const other = new EncryptedStore(db, "test-password");
+      let calls = 0;
+
+      await expect(
+        store.update(
+          "counters",
+          "visits",
+          async (doc) => {
+            calls++;
+            await other.put("counters", { _id: "visits", count: 0 });
+            return { ...doc, count: doc.count + 1 };
+          },
+          { retries: 2 },
+        ),
+      ).rejects.toThrow(ConflictError);
+      expect(calls).toBe(3);
+    });
+
+    test("should throw for missing documents", async () => {
+      store = new EncryptedStore(db, "test-password");
+
+      await expect(
+        store.update("counters", "nope", (doc) => doc),
+      ).rejects.toThrow('Document "nope" of table "counters" not found');
+    });
+
+    test("should patch fields shallowly or deeply", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("settings", {
+        _id: "ui",
+        theme: { dark: false, accent: "blue" },
+        tabs: ["a", "b"],
+        legacy: true,
+      });
+
+      await store.patch("settings", "ui", {
+        theme: { dark: true },
+        legacy: undefined,
+      });
+      const shallow = await store.get("settings", "ui");
+      expect(shallow?.theme).toEqual({ dark: true });
+      expect(shallow).not.toHaveProperty("legacy");
+
+      await store.patch(
+        "settings",
+        "ui",
+        { theme: { accent: "red" }, tabs: ["c"] },
+        { deep: true },
+      );
+      const deep = await store.get("settings", "ui");
+      expect(deep?.theme).toEqual({ dark: true, accent: "red" });
+      expect(deep?.tabs).toEqual(["c"]);
+    });
+  });
+
+  describe("Typed Tables", () => {
+    interface Expense {
+      amount: number;
+      category: string;
+    }
+
+    const expenseSchema = {
+      type: "object" as const,
+      required: ["amount", "category"],
+      properties: {
+        amount: { type: "number" as const, minimum: 0 },
+        category: { type: "string" as const },
+      },
+    };
+
+    test("should read and write documents of one table", async () => {
+      store = new EncryptedStore(db, "test-password");
+      const expenses = store.table<Expense>("expenses");
+
+      const written = await expenses.put({
+        _id: "lunch",
+        amount: 12,
+        category: "food",
+      });
+      await expenses.put({ _id: "taxi", amount: 30, category: "travel" });
+      await store.put("tasks", { _id: "lunch", title: "Book" });
+
+      expect(written).toMatchObject({ _id: "lunch", _table: "expenses" });
+      expect((await expenses.get("lunch"))?.amount).toBe(12);
+      expect((await expenses.getAll()).map((doc) => doc._id)).toEqual([
+        "lunch",
+        "taxi",
+      ]);
+      await expenses.update("lunch", (doc) => ({ ...doc, amount: 15 }));
+      await expenses.patch("taxi", { category: "work" });
+      expect(
+        (await expenses.query({ where: { amount: { $gt: 14 } } })).map(
+          (doc) => [doc._id, doc.amount, doc.category],
+        ),
+      ).toEqual([
+        ["lunch", 15, "food"],
+        ["taxi", 30, "work"],
+      ]);
+      await expenses.delete("lunch");
+      expect(await expenses.get("lunch")).toBeNull();
+      expect(await store.get("tasks", "lunch")).not.toBeNull();
+    });
+
+    test("should reject invalid writes before encrypting them", async () => {
+      store = new EncryptedStore(db, "test-password");
+      const expenses = store.table<Expense>("expenses", {
+        validate: expenseSchema,
+      });
+      await store.open();
+      const put = jest.spyOn(db, "put");
+
+      const error = await expenses
+        .put({ _id: "lunch", amount: -1 } as unknown as Expense)
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.issues).toEqual([
+        { path: "category", message: "is required" },
+        { path: "amount", message: "must be at least 0" },
+      ]);
+      expect(error.message).toContain('Document "lunch" of table "expenses"');
+      expect(put).not.toHaveBeenCalled();
+      // Also through the store, and per document in putMany
+      await expect(
+        store.put("expenses", { _id: "x", amount: "12", category: "food" }),
+      ).rejects.toThrow(ValidationError);
+      const results = await store.putMany("expenses", [
+        { _id: "ok", amount: 1, category: "food" },
+        { _id: "bad", amount: 1 },
+      ]);
+      expect(results.map((result) => result.ok)).toEqual([true, false]);
+      expect(!results[1].ok && results[1].error).toBeInstanceOf(
+        ValidationError,
+      );
+    });
+
+    test("should validate strict schemas without the id", async () => {
+      store = new EncryptedStore(db, "test-password");
+      const expenses = store.table<Expense>("expenses", {
+        validate: { ...expenseSchema, additionalProperties: false },
+      });
+
+      await expenses.put({ _id: "lunch", amount: 12, category: "food" });
+      expect((await expenses.get("lunch"))?.amount).toBe(12);
+      await expect(
+        expenses.put({
+          _id: "taxi",
+          amount: 30,
+          category: "travel",
+          note: "airport",
+        } as Expense),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    test("should validate with a function", async () => {
+      store = new EncryptedStore(db, "test-password");
+      const expenses = store.table<Expense>("expenses", {
+        validate: (doc) => doc.amount > 0,
+      });
+
+      await expenses.put({ _id: "lunch", amount: 12, category: "food" });
+      await expect(expenses.patch("lunch", { amount: 0 })).rejects.toThrow(
+        ValidationError,
+      );
+      expect((await expenses.get("lunch"))?.amount).toBe(12);
+    });
+
+    test("should report invalid stored documents to onError", async () => {
+      const writer = new EncryptedStore(db, "test-password");
+      await writer.put("expenses", { _id: "good", amount: 1, category: "a" });
+      await writer.put("expenses", { _id: "bad", amount: "one" });
+
+      const onChange = jest.fn();
+      const onError = jest.fn();
+      store = new EncryptedStore(db, "test-password", {
+        onChange,
+        onDelete: jest.fn(),
+        onError,
+      });
+      const expenses = store.table<Expense>("expenses", {
+        validate: expenseSchema,
+      });
+      await store.loadAll();
+
+      const loaded = onChange.mock.calls.flatMap(([docs]) => docs as Doc[]);
+      expect(loaded.map((doc) => doc._id)).toEqual(["good"]);
+      const errors = onError.mock.calls[0][0] as DecryptionErrorEvent[];
+      expect(errors.map((event) => event.docId)).toEqual(["expenses_bad"]);
+      expect(errors[0].error).toBeInstanceOf(ValidationError);
+
+      onError.mockClear();
+      expect((await expenses.getAll()).map((doc) => doc._id)).toEqual(["good"]);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(await expenses.get("bad")).toBeNull();
+      expect(onError).toHaveBeenCalledTimes(2);
+
+      // Changes from elsewhere too
+      await writer.put("expenses", { _id: "later", amount: -5, category: "a" });
+      await waitFor(() => onError.mock.calls.length === 3);
+      expect(
+        (onError.mock.calls[2][0] as DecryptionErrorEvent[])[0].error,
+      ).toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe("Migrations", () => {
+    // v0 { amount } -> v1 { cents } -> v2 { cents, currency }
+    const migrations = {
+      expenses: [
+        ({ amount, ...doc }: Doc) => ({ ...doc, cents: amount * 100 }),
+        (doc: Doc) => ({ ...doc, currency: "EUR" }),
+      ],
+    };
+
+    test("should upgrade outdated documents when read", async () => {
+      const old = new EncryptedStore(db, "test-password");
+      await old.put("expenses", { _id: "lunch", amount: 12 });
+      await old.put("tasks", { _id: "t", amount: 1 });
+      const rev = (await db.get("expenses_lunch"))._rev;
+
+      store = new EncryptedStore(db, "test-password", undefined, {
+        migrations,
+      });
+
+      expect(await store.get("expenses", "lunch")).toEqual({
+        _id: "lunch",
+        _table: "expenses",
+        _rev: rev,
+        cents: 1200,
+        currency: "EUR",
+      });
+      expect((await store.get("tasks", "t"))?.amount).toBe(1);
+      const [doc] = await store.query("expenses", {
+        where: { currency: "EUR" },
+      });
+      expect(doc.cents).toBe(1200);
+      // Without write-back, nothing was written
+      expect((await db.get("expenses_lunch"))._rev).toBe(rev);
+    });
+
+    test("should write upgraded documents back if asked", async () => {
+      const old = new EncryptedStore(db, "test-password");
+      await old.put("expenses", { _id: "lunch", amount: 12 });
+      const step = jest.fn((doc: Doc) => ({ ...doc, currency: "EUR" }));
+
+      const onChange = jest.fn();
+      store = new EncryptedStore(
+        db,
+        "test-password",
+        { onChange, onDelete: jest.fn() },
+        {
+          migrations: { expenses: [migrations.expenses[0], step] },
+          writeBackMigrations: true,
+        },
+      );
+      await store.loadAll();
+      // The write-back comes in on the change feed
+      await waitFor(() => onChange.mock.calls.length === 2);
+      expect((await db.get("expenses_lunch"))._rev).toMatch(/^2-/);
+
+      step.mockClear();
+      expect((await store.get("expenses", "lunch"))?.cents).toBe(1200);
+      expect(step).not.toHaveBeenCalled();
+    });
+
+    test("should not read or overwrite documents of a newer version", async () => {
+      const newer = new EncryptedStore(db, "test-password", undefined, {
+        migrations,
+      });
+      await newer.put("expenses", {
+        _id: "lunch",
+        cents: 1200,
+        currency: "EUR",
+      });
+
+      const onError = jest.fn();
+      store = new EncryptedStore(
+        db,
+        "test-password",
+        { onChange: jest.fn(), onDelete: jest.fn(), onError },
+        { migrations: { expenses: [migrations.expenses[0]] } },
+      );
+
+      expect(await store.getAll("expenses")).toEqual([]);
+      const errors = onError.mock.calls[0][0] as DecryptionErrorEvent[];
+      expect(errors[0].error).toBeInstanceOf(SchemaVersionError);
+      await expect(
+        store.put("expenses", { _id: "lunch", cents: 0 }),
+      ).rejects.toThrow(SchemaVersionError);
+      const results = await store.putMany("expenses", [
+        { _id: "lunch", cents: 0 },
+      ]);
+      expect(!results[0].ok && results[0].error).toBeInstanceOf(
+        SchemaVersionError,
+      );
+      expect((await newer.get("expenses", "lunch"))?.cents).toBe(1200);
+    });
+
+    test("should migrate every document with migrateAll", async () => {
+      const old = new EncryptedStore(db, "test-password");
+      for (let i = 0; i < 5; i++) {
+        await old.put("expenses", { _id: `e${i}`, amount: i });
+      }
+      await old.put("tasks", { _id: "t", amount: 1 });
+      const progress: unknown[] = [];
+
+      store = new EncryptedStore(db, "test-password", undefined, {
+        migrations,
+      });
+      await store.put("expenses", { _id: "e5", cents: 5, currency: "USD" });
+      await store.migrateAll({
+        batchSize: 2,
+        onProgress: (p) => progress.push(p),
+      });
+
+      expect(progress).toEqual([
+        { processed: 2, total: 6, migrated: 2 },
+        { processed: 4, total: 6, migrated: 4 },
+        { processed: 6, total: 6, migrated: 5 },
+      ]);
+      // Readable as is, even by a store that doesn't migrate on read
+      const reader = new EncryptedStore(db, "test-password", undefined, {
+        migrations: { expenses: [(doc) => doc, (doc) => doc] },
+      });
+      expect((await reader.getAll("expenses")).map((doc) => doc.cents)).toEqual(
+        [0, 100, 200, 300, 400, 5],
+      );
+      expect((await store.get("tasks", "t"))?.amount).toBe(1);
+
+      progress.length = 0;
+      await store.migrateAll({ onProgress: (p) => progress.push(p) });
+      expect(progress).toEqual([{ processed: 6, total: 6, migrated: 0 }]);
+    });
+  });
+
+  describe("History", () => {
+    test("should list revisions newest first, and restore one", async () => {
+      store = new EncryptedStore(db, "test-password");
+      const before = Date.now();
+      const first = await store.put("notes", { _id: "n", text: "draft" });
+      const second = await store.put("notes", { _id: "n", text: "final" });
+      const third = await store.put("notes", { _id: "n", text: "oops" });
+
+      const history = await store.history("notes", "n");
+
+      expect(history.map((revision) => revision.rev)).toEqual([
+        third._rev,
+        second._rev,
+        first._rev,
+      ]);
+      expect(history.map((revision) => revision.doc?.text)).toEqual([
+        "oops",
+        "final",
+        "draft",
+      ]);
+      expect(history[2].doc).toMatchObject({
+        _id: "n",
+        _table: "notes",
+        _rev: first._rev,
+      });
+      for (const revision of history) {
+        expect(revision.deleted).toBe(false);
+        expect(revision.timestamp).toBeGreaterThanOrEqual(before);
+        expect(revision.timestamp).toBeLessThanOrEqual(Date.now());
+      }
+
+      const restored = await store.restore("notes", "n", second._rev!);
+      expect(restored.text).toBe("final");
+      expect(await store.get("notes", "n")).toEqual({
+        _id: "n",
+        _table: "notes",
+        _rev: restored._rev,
+        text: "final",
+      });
+      expect(await store.history("notes", "n")).toHaveLength(4);
+    });
+
+    test("should include deletions and restore deleted documents", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        encryptIds: true,
+      });
+      const written = await store.put("notes", { _id: "n", text: "keep" });
+      await store.delete("notes", "n");
+
+      const history = await store.history("notes", "n");
+      expect(history.map((revision) => revision.deleted)).toEqual([
+        true,
+        false,
+      ]);
+      expect(history[0].doc).toBeNull();
+      await expect(store.restore("notes", "n", history[0].rev)).rejects.toThrow(
+        "is a deletion",
+      );
+
+      await store.restore("notes", "n", written._rev!);
+      expect((await store.get("notes", "n"))?.text).toBe("keep");
+    });
+
+    test("should handle missing documents and revisions", async () => {
+      store = new EncryptedStore(db, "test-password");
+      await store.put("notes", { _id: "n", text: "a" });
+
+      expect(await store.history("notes", "nope")).toEqual([]);
+      await expect(store.restore("notes", "n", "1-abc")).rejects.toThrow(
+        "is not available",
+      );
+    });
+  });
+
+  describe("Trash", () => {
+    test("should hide trashed documents until they are restored", async () => {
+      const onChange = jest.fn();
+      const onDelete = jest.fn();
+      store = new EncryptedStore(
+        db,
+        "test-password",
+        { onChange, onDelete },
+        { trash: true, blindIndexes: { notes: ["tag"] } },
+      );
+      await store.loadAll();
+      await store.put("notes", { _id: "n", text: "secret", tag: "a" });
+      await store.put("notes", { _id: "m", text: "other", tag: "a" });
+      const before = Date.now();
+
+      await store.delete("notes", "n");
+
+      await waitFor(() => onDelete.mock.calls.length === 1);
+      expect(onDelete).toHaveBeenCalledWith([{ _id: "n", _table: "notes" }]);
+      expect(await store.get("notes", "n")).toBeNull();
+      expect((await store.getAll("notes")).map((doc) => doc._id)).toEqual([
+        "m",
+      ]);
+      expect((await store.query("notes", { where: { tag: "a" } })).length).toBe(
+        1,
+      );
+      expect((await store.findBy("notes", "tag", "a")).length).toBe(1);
+      await expect(store.update("notes", "n", (doc) => doc)).rejects.toThrow(
+        "not found",
+      );
+      const raw = (await db.get("notes_n")) as any;
+      expect(raw.d).not.toContain("secret");
+
+      const trash = await store.listTrash();
+      expect(trash).toEqual([
+        expect.objectContaining({ _id: "n", text: "secret" }),
+      ]);
+      expect(trash[0]._trashedAt).toBeGreaterThanOrEqual(before);
+      expect(await store.listTrash("other")).toEqual([]);
+
+      onChange.mockClear();
+      const restored = await store.restoreFromTrash("notes", "n");
+      expect(restored).toEqual({
+        _id: "n",
+        _table: "notes",
+        _rev: expect.any(String),
+        text: "secret",
+        tag: "a",
+      });
+      await waitFor(() => onChange.mock.calls.length === 1);
+      expect((await store.get("notes", "n"))?.text).toBe("secret");
+      expect(await store.listTrash()).toEqual([]);
+      await expect(store.restoreFromTrash("notes", "n")).rejects.toThrow(
+        "is not in the trash",
+      );
+    });
+
+    test("should hide trashed documents on other devices", async () => {
+      const trashing = new EncryptedStore(db, "test-password", undefined, {
+        trash: true,
+      });
+      await trashing.put("notes", { _id: "n", text: "a" });
+      await trashing.put("notes", { _id: "m", text: "b" });
+      await trashing.delete("notes", "n");
+
+      const onChange = jest.fn();
+      store = new EncryptedStore(db, "test-password", {
+        onChange,
+        onDelete: jest.fn(),
+      });
+      await store.loadAll();
+
+      const loaded = onChange.mock.calls.flatMap(([docs]) => docs as Doc[]);
+      expect(loaded.map((doc) => doc._id)).toEqual(["m"]);
+      expect(await store.get("notes", "n")).toBeNull();
+      expect((await store.listTrash()).map((doc) => doc._id)).toEqual(["n"]);
+    });
+
+    test("should keep attachments of trashed documents", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        trash: true,
+      });
+      await store.put("notes", { _id: "n", text: "a" });
+      const bytes = new Uint8Array([1, 2, 3]);
+      await store.putAttachment("notes", "n", "file.bin", bytes);
+
+      await store.delete("notes", "n");
+      await store.restoreFromTrash("notes", "n");
+
+      const blob = await store.getAttachment("notes", "n", "file.bin");
+      expect(new Uint8Array(await blob!.arrayBuffer())).toEqual(bytes);
+    });
+
+    test("should delete for good from the trash", async () => {
+      store = new EncryptedStore(db, "test-password", undefined, {
+        trash: true,
+      });
+      for (const id of ["a", "b", "c", "d"]) {
+        await store.put("notes", { _id: id });
+      }
+      await store.put("tasks", { _id: "t" });
+
+      const results = await store.deleteMany("notes", ["a", "b", "c"]);
+      expect(results.map((result) => result.ok)).toEqual([true, true, true]);
+      await store.delete("tasks", "t");
+      expect(await store.listTrash()).toHaveLength(4);
+
+      // Deleting a trashed document deletes it for good
+      await store.delete("notes", "a");
+      await expect(db.get("notes_a")).rejects.toMatchObject({ status: 404 });
+      expect(await store.emptyTrash("notes")).toBe(2);
+      expect((await store.listTrash()).map((doc) => doc._id)).toEqual(["t"]);
+      expect(await store.emptyTrash()).toBe(1);
+      expect((await store.getAll()).map((doc) => doc._id)).toEqual(["d"]);
+    });
+
+    test("should purge expired documents when loading", async () => {
+      const trashing = new EncryptedStore(db, "test-password", undefined, {
+        trash: true,
+      });
+      await trashing.put("notes", { _id: "n" });
+      await trashing.delete("notes", "n");
+
+      // Stores without the trash option don't purge
+      await new EncryptedStore(db, "test-password").loadAll();
+      expect(await trashing.listTrash()).toHaveLength(1);
+      const keeping = new EncryptedStore(db, "test-password", undefined, {
+        trash: true,
+      });
+      await keeping.loadAll();
+      keeping.close();
+      expect(await trashing.listTrash()).toHaveLength(1);
+
+      store = new EncryptedStore(db, "test-password", undefined, {
+        trash: true,
+        trashRetentionMs: 0,
+      });
+      await store.loadAll();
+      await expect(db.get("notes_n")).rejects.toMatchObject({ status: 404 });
+    });
+
+    test("should purge expired documents while running", async () => {
+      const onDelete = jest.fn();
+      const onExpire = jest.fn();
+      store = new EncryptedStore(
+        db,
+        "test-password",
+        { onChange: jest.fn(), onDelete, onExpire },
+        { trash: true, trashRetentionMs: 100 },
+      );
+      await store.loadAll();
+      await store.put("notes", { _id: "n" });
+
+      await store.delete("notes", "n");
+      expect(await store.listTrash()).toHaveLength(1);
+
+      // Once when trashed, once when purged
+      await waitFor(() => onDelete.mock.calls.length === 2);
+      await expect(db.get("notes_n")).rejects.toMatchObject({ status: 404 });
+      expect(onExpire).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Expiry", () => {
+    test("should hide documents once they expire", async () => {
+      store = new EncryptedStore(db, "test-password");
+      const inAnHour = Date.now() + 60 * 60 * 1000;
+      await store.put(
+        "tokens",
+        { _id: "fresh", code: "123" },
+        { expiresAt: inAnHour },
+      );
+      await store.put(
+        "tokens",
+        { _id: "stale", code: "456" },
+        { expiresAt: new Date(Date.now() - 1000) },
+      );
+
+      expect(await store.get("tokens", "fresh")).toMatchObject({
+        code: "123",
+        _expiresAt: inAnHour,
+      });
+      expect(await store.get("tokens", "stale")).toBeNull();
+      expect((await store.getAll("tokens")).map((doc) => doc._id)).toEqual([
+        "fresh",
+      ]);
+      expect(await store.query("tokens", { where: { code: "456" } })).toEqual(
+        [],
+      );
+      const raw = (await db.get("tokens_fresh")) as any;
+      expect(raw.d).not.toContain(String(inAnHour));
+    });
+
+    test("should keep the expiry on updates unless given", async () => {
+      store = new EncryptedStore(db, "test-password");
+      const expiresAt = Date.now() + 60 * 60 * 1000;
+      await store.put("drafts", { _id: "d", text: "a" }, { expiresAt });
+
+      await store.patch("drafts", "d", { text: "b" });
+      expect((await store.get("drafts", "d"))?._expiresAt).toBe(expiresAt);
+      await store.put(
+        "drafts",
+        { _id: "d", text: "c" },
+        { expiresAt: expiresAt + 1 },
+      );
+      expect((await store.get("drafts", "d"))?._expiresAt).toBe(expiresAt + 1);
+      await store.put("drafts", { _id: "d", text: "d" }, { expiresAt: null });
+      expect(await store.get("drafts", "d")).not.toHaveProperty("_expiresAt");
+    });
+
+    test("should delete expired documents and report them", async () => {
+      const onExpire = jest.fn();
+      const onDelete = jest.fn();
+      store = new EncryptedStore(db, "test-password", {
+        onChange: jest.fn(),
+        onDelete,
+        onExpire,
+      });
+      await store.loadAll();
+      const onOtherExpire = jest.fn();
+      const other = new EncryptedStore(db, "test-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+        onExpire: onOtherExpire,
+      });
+      await other.loadAll();
+
+      await store.put(
+        "tokens",
+        { _id: "t", code: "123" },
+        { expiresAt: Date.now() + 100 },
+      );
+      await store.put("tokens", { _id: "keep" });
+
+      await waitFor(() => onDelete.mock.calls.length === 1);
+      expect(onExpire).toHaveBeenCalledTimes(1);
+      expect(onExpire).toHaveBeenCalledWith([{ _id: "t", _table: "tokens" }]);
+      expect(onDelete).toHaveBeenCalledWith([{ _id: "t", _table: "tokens" }]);
+      await expect(db.get("tokens_t")).rejects.toMatchObject({ status: 404 });
+      // Every device reports it once, whichever deleted it
+      await waitFor(() => onOtherExpire.mock.calls.length === 1);
+      expect(onOtherExpire).toHaveBeenCalledWith([
+        { _id: "t", _table: "tokens" },
+      ]);
+      expect(await store.get("tokens", "keep")).not.toBeNull();
+    });
+
+    test("should sweep documents that expired before loading", async () => {
+      const writer = new EncryptedStore(db, "test-password");
+      await writer.put(
+        "tokens",
+        { _id: "t" },
+        { expiresAt: Date.now() - 1000 },
+      );
+
+      const onChange = jest.fn();
+      const onDelete = jest.fn();
+      const onExpire = jest.fn();
+      store = new EncryptedStore(db, "test-password", {
+        onChange,
+        onDelete,
+        onExpire,
+      });
+      await store.loadAll();
+
+      expect(onChange).not.toHaveBeenCalled();
+      await waitFor(() => onDelete.mock.calls.length === 1);
+      expect(onExpire).toHaveBeenCalledWith([{ _id: "t", _table: "tokens" }]);
+      await expect(db.get("tokens_t")).rejects.toMatchObject({ status: 404 });
+    });
+
+    test("should not sweep while locked", async () => {
+      const onExpire = jest.fn();
+      store = new EncryptedStore(db, "test-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+        onExpire,
+      });
+      await store.loadAll();
+      await store.put("tokens", { _id: "t" }, { expiresAt: Date.now() + 50 });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      store.lock();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(onExpire).not.toHaveBeenCalled();
+
+      await store.unlock("test-password");
+      await waitFor(() => onExpire.mock.calls.length === 1);
+    });
+
+    test("should only report documents the sweeper deleted", async () => {
+      const onExpire = jest.fn();
+      store = new EncryptedStore(db, "test-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+        onExpire,
+      });
+      await store.loadAll();
+      await store.put("tokens", { _id: "t" }, { expiresAt: Date.now() + 200 });
+      const bulkDocs = jest
+        .spyOn(db, "bulkDocs")
+        .mockResolvedValueOnce([
+          { error: true, id: "tokens_t", status: 409, name: "conflict" },
+        ] as any);
+
+      await waitFor(() => bulkDocs.mock.calls.length === 1);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(onExpire).not.toHaveBeenCalled();
+      expect(bulkDocs).toHaveBeenCalledTimes(1);
+      expect(await store.get("tokens", "t")).toBeNull();
+    });
+
+    test("should not fail strict schemas on store fields", async () => {
+      const onError = jest.fn();
+      store = new EncryptedStore(db, "test-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+        onError,
+      });
+      const tokens = store.table<{ code: string }>("tokens", {
+        validate: {
+          type: "object",
+          additionalProperties: false,
+          properties: { code: { type: "string" } },
+        },
+      });
+      await tokens.put(
+        { _id: "t", code: "123" },
+        { expiresAt: Date.now() + 60 * 60 * 1000 },
+      );
+
+      expect((await tokens.get("t"))?.code).toBe("123");
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    test("should stop its timers when closed", async () => {
+      const onExpire = jest.fn();
+      store = new EncryptedStore(
+        db,
+        "test-password",
+        { onChange: jest.fn(), onDelete: jest.fn(), onExpire },
+        { autoLockAfterMs: 200 },
+      );
+      await store.loadAll();
+      await store.put("tokens", { _id: "t" }, { expiresAt: Date.now() + 50 });
+
+      store.close();
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect(onExpire).not.toHaveBeenCalled();
+      expect(store.isLocked()).toBe(false);
+    });
+  });
+
+  describe("Edge Cases", () => {
+    test("should handle documents with special characters", async () => {
+      store = new EncryptedStore(db, "test-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+      });
+      await store.loadAll();
+
+      await store.put("expenses", {
+        _id: "special",
+        description: "Café ☕ 日本語 émojis 🎉",
+        amount: 15,
+      });
+
+      const retrieved = await store.get("expenses", "special");
+      expect(retrieved?.description).toBe("Café ☕ 日本語 émojis 🎉");
+    });
+
+    test("should handle large documents", async () => {
+      store = new EncryptedStore(db, "test-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+      });
+      await store.loadAll();
+
+      const largeText = "x".repeat(10000);
+      await store.put("notes", {
+        _id: "large",
+        text: largeText,
+      });
+
+      const retrieved = await store.get("notes", "large");
+      expect(retrieved?.text).toBe(largeText);
+      expect(retrieved?.text.length).toBe(10000);
+    });
+
+    test("should handle nested objects", async () => {
+      store = new EncryptedStore(db, "test-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+      });
+      await store.loadAll();
+
+      const complexDoc = {
+        _id: "complex",
+        nested: {
+          level1: {
+            level2: {
+              value: "deep",
+            },
+          },
+        },
+        array: [1, 2, { key: "value" }],
+      };
+
+      await store.put("data", complexDoc);
+      const retrieved = await store.get("data", "complex");
+
+      expect(retrieved?.nested.level1.level2.value).toBe("deep");
+      expect(retrieved?.array[2].key).toBe("value");
+    });
+
+    test("should not store internal fields", async () => {
+      store = new EncryptedStore(db, "test-password", {
+        onChange: jest.fn(),
+        onDelete: jest.fn(),
+      });
+      await store.loadAll();
+
+      await store.put("expenses", {
+        _id: "lunch",
+        amount: 15,
+        _someInternal: "should not be stored",
+      });
+
+      const retrieved = await store.get("expenses", "lunch");
+      expect(retrieved?.amount).toBe(15);
+      expect(retrieved?._someInternal).toBeUndefined();
+    });
+  });
+});
+
+// Re-encode a current envelope as a legacy hex "iv|ciphertext" value
+function toLegacyFormat(envelope: string): string {
+  const payload = envelope.split(".")[4];
+  const bytes = Buffer.from(payload, "base64url");
+  return `${bytes.subarray(0, 12).toString("hex")}|${bytes.subarray(12).toString("hex")}`;
+}
 
 // Helper function to wait for async conditions
 function waitFor(
@@ -4,6 +4,8 @@
 
 import { jest, describe, test, expect, beforeEach } from "@jest/globals";
 import { EncryptionHelper, DecryptionError } from "../encryption.js";
+import { Scrypt } from "../kdf.js";
+import type { ScryptParams } from "../kdf.js";
 
 describe("EncryptionHelper", () => {
   let helper: EncryptionHelper;
@@ -78,29 +80,69 @@ describe("EncryptionHelper", () => {
   });
 
   describe("Encrypted Format", () => {
-    test("should produce encrypted string with pipe separator", async () => {
+    test("should produce a versioned envelope", async () => {
       const encrypted = await helper.encrypt("test");
+      const parts = encrypted.split(".");
 
-      expect(encrypted).toContain("|");
-      const parts = encrypted.split("|");
-      expect(parts.length).toBe(2);
+      expect(parts.length).toBe(5);
+      expect(parts[0]).toBe("2");
+      expect(parts[1]).toBe("A256GCM");
+      expect(parts[2]).toBe(await helper.getKeyId());
+      expect(parts[3]).toBe("b64u");
     });
 
-    test("should have IV and ciphertext in hex format", async () => {
+    test("should encode IV and ciphertext as base64url", async () => {
       const encrypted = await helper.encrypt("test");
-      const parts = encrypted.split("|");
+      const payload = encrypted.split(".")[4];
 
-      // Check hex format (only 0-9 and a-f)
-      expect(parts[0]).toMatch(/^[0-9a-f]+$/);
-      expect(parts[1]).toMatch(/^[0-9a-f]+$/);
+      expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+      // 12-byte IV + 4-byte plaintext + 16-byte tag = 32 bytes
+      expect(payload.length).toBe(Math.ceil((32 * 4) / 3));
     });
 
-    test("should have 12-byte (24 hex chars) IV", async () => {
+    test("should be smaller than the legacy hex format", async () => {
+      const plaintext = "x".repeat(1000);
+      const encrypted = await helper.encrypt(plaintext);
+
+      // Legacy: 24 hex IV chars + "|" + 2 hex chars per ciphertext byte
+      const legacyLength = 24 + 1 + (1000 + 16) * 2;
+      expect(encrypted.length).toBeLessThan(legacyLength * 0.7);
+    });
+
+    test("should parse the envelope header", async () => {
+      const header = EncryptionHelper.parseEnvelope(
+        await helper.encrypt("test"),
+      );
+
+      expect(header).toEqual({
+        version: 2,
+        algorithm: "A256GCM",
+        keyId: await helper.getKeyId(),
+        encoding: "b64u",
+      });
+    });
+
+    test("should decrypt legacy hex values", async () => {
+      // Produced by the pre-envelope format for "test-password"
+      const legacy = await encryptLegacy("test-password", "legacy data");
+
+      expect(EncryptionHelper.parseEnvelope(legacy).version).toBe(1);
+      expect(await helper.decrypt(legacy)).toBe("legacy data");
+    });
+
+    test("should reject unknown envelope versions", async () => {
       const encrypted = await helper.encrypt("test");
-      const iv = encrypted.split("|")[0];
+      const future = "3" + encrypted.slice(1);
+
+      await expect(helper.decrypt(future)).rejects.toThrow(DecryptionError);
+      await expect(helper.decrypt(future)).rejects.toThrow(/version/);
+    });
+
+    test("should reject values encrypted with a different key id", async () => {
+      const other = new EncryptionHelper("other-password");
+      const encrypted = await other.encrypt("test");
 
-      // 12 bytes = 24 hex characters
-      expect(iv.length).toBe(24);
+      await expect(helper.decrypt(encrypted)).rejects.toThrow(/different key/);
     });
   });
 
@@ -126,9 +168,9 @@ describe("EncryptionHelper", () => {
 
     test("should throw DecryptionError with corrupted IV", async () => {
       const encrypted = await helper.encrypt("test");
-      const parts = encrypted.split("|");
-      const corruptedIv = "xxxx" + parts[0].slice(4);
-      const corrupted = corruptedIv + "|" + parts[1];
+      const parts = encrypted.split(".");
+      parts[4] = "xxxx" + parts[4].slice(4);
+      const corrupted = parts.join(".");
 
       await expect(helper.decrypt(corrupted)).rejects.toThrow(DecryptionError);
     });
@@ -205,6 +247,158 @@ describe("EncryptionHelper", () => {
     });
   });
 
+  describe("Key Derivation Parameters", () => {
+    test("should derive a different key with a random salt", async () => {
+      const params = EncryptionHelper.generateKdfParams(1000);
+      const salted = new EncryptionHelper(
+        "test-password",
+        undefined,
+        "derive",
+        params,
+      );
+
+      expect(await salted.getKeyId()).not.toBe(await helper.getKeyId());
+      await expect(
+        salted.decrypt(await helper.encrypt("test")),
+      ).rejects.toThrow(DecryptionError);
+    });
+
+    test("should derive the same key from the same parameters", async () => {
+      const params = EncryptionHelper.generateKdfParams(1000);
+      const helper1 = new EncryptionHelper("pw", undefined, "derive", params);
+      const helper2 = new EncryptionHelper("pw", undefined, "derive", params);
+
+      expect(await helper2.decrypt(await helper1.encrypt("test"))).toBe("test");
+    });
+
+    test("should generate a fresh salt every time", () => {
+      const params1 = EncryptionHelper.generateKdfParams();
+      const params2 = EncryptionHelper.generateKdfParams();
+
+      expect(params1.salt).not.toBe(params2.salt);
+      expect(params1).toMatchObject({ name: "PBKDF2", iterations: 100000 });
+    });
+
+    test("should accept a key derivation instance", async () => {
+      const kdf = new Scrypt(
+        EncryptionHelper.generateKdfParams({
+          name: "scrypt",
+          N: 16,
+        }) as ScryptParams,
+      );
+      const onProgress = jest.fn();
+      const helper1 = new EncryptionHelper(
+        "pw",
+        undefined,
+        "derive",
+        kdf,
+        onProgress,
+      );
+      const helper2 = new EncryptionHelper(
+        "pw",
+        undefined,
+        "derive",
+        kdf.params,
+      );
+
+      expect(await helper2.decrypt(await helper1.encrypt("test"))).toBe("test");
+      expect(onProgress).toHaveBeenLastCalledWith(1);
+    });
+  });
+
+  describe("Key Wrapping", () => {
+    test("should wrap and unwrap a random key", async () => {
+      const dataKey = EncryptionHelper.generate();
+      const encrypted = await dataKey.encrypt("secret data");
+
+      const wrapped = await helper.wrapKey(dataKey);
+      const unwrapped = await helper.unwrapKey(wrapped);
+
+      expect(await unwrapped.getKeyId()).toBe(await dataKey.getKeyId());
+      expect(await unwrapped.decrypt(encrypted)).toBe("secret data");
+    });
+
+    test("should not unwrap with a different key", async () => {
+      const wrapped = await helper.wrapKey(EncryptionHelper.generate());
+      const other = new EncryptionHelper("other-password");
+
+      await expect(other.unwrapKey(wrapped)).rejects.toThrow(DecryptionError);
+    });
+
+    test("should generate a different key every time", async () => {
+      const key1 = EncryptionHelper.generate();
+      const key2 = EncryptionHelper.generate();
+
+      expect(await key1.getKeyId()).not.toBe(await key2.getKeyId());
+    });
+  });
+
+  describe("Subkeys", () => {
+    test("should derive independent, repeatable subkeys", async () => {
+      const helper = EncryptionHelper.generate();
+      const subkey = await helper.deriveSubkey("purpose-a");
+
+      expect(subkey).toHaveLength(32);
+      expect(await helper.deriveSubkey("purpose-a")).toEqual(subkey);
+      expect(await helper.deriveSubkey("purpose-b")).not.toEqual(subkey);
+      expect(
+        await EncryptionHelper.generate().deriveSubkey("purpose-a"),
+      ).not.toEqual(subkey);
+    });
+  });
+
+  describe("Binary Data", () => {
+    test("should encrypt and decrypt bytes", async () => {
+      const data = new Uint8Array([0, 1, 2, 255]);
+      const encrypted = await helper.encryptBytes(data, "chunk/0");
+
+      expect(encrypted.length).toBe(12 + data.length + 16); // iv + tag
+      expect(await helper.decryptBytes(encrypted, "chunk/0")).toEqual(data);
+      await expect(helper.decryptBytes(encrypted, "chunk/1")).rejects.toThrow(
+        DecryptionError,
+      );
+    });
+  });
+
+  describe("Associated Data", () => {
+    test("should decrypt only with the same associated data", async () => {
+      const encrypted = await helper.encrypt("secret data", "expenses_a");
+
+      expect(await helper.decrypt(encrypted, "expenses_a")).toBe("secret data");
+      await expect(helper.decrypt(encrypted, "expenses_b")).rejects.toThrow(
+        DecryptionError,
+      );
+      await expect(helper.decrypt(encrypted)).rejects.toThrow(DecryptionError);
+    });
+
+    test("should not decrypt unbound data with associated data", async () => {
+      const encrypted = await helper.encrypt("secret data");
+
+      await expect(helper.decrypt(encrypted, "expenses_a")).rejects.toThrow(
+        DecryptionError,
+      );
+    });
+  });
+
+  describe("Forgetting Keys", () => {
+    test("should derive a passphrase key again after forgetting it", async () => {
+      const encrypted = await helper.encrypt("secret data");
+      helper.forgetKey();
+
+      expect(await helper.decrypt(encrypted)).toBe("secret data");
+    });
+
+    test("should not use a raw key after forgetting it", async () => {
+      const dataKey = EncryptionHelper.generate();
+      await dataKey.encrypt("secret data");
+      dataKey.forgetKey();
+
+      await expect(dataKey.encrypt("secret data")).rejects.toThrow(
+        "The key was forgotten",
+      );
+    });
+  });
+
   describe("Key Caching", () => {
     test("should cache encryption key", async () => {
       const plaintext = "test";
@@ -224,6 +418,14 @@ describe("EncryptionHelper", () => {
       expect(time2).toBeLessThanOrEqual(time1 * 2);
     });
 
+    test("should expose the same key id for the same password", async () => {
+      const same = new EncryptionHelper("test-password");
+      const other = new EncryptionHelper("other-password");
+
+      expect(await helper.getKeyId()).toBe(await same.getKeyId());
+      expect(await helper.getKeyId()).not.toBe(await other.getKeyId());
+    });
+
     test("should use same key for multiple operations", async () => {
       const plaintext = "test";
 
@@ -310,3 +512,31 @@ describe("EncryptionHelper", () => {
     });
   });
 });
+
+// Encrypt in the legacy hex "iv|ciphertext" format (deterministic PBKDF2 key)
+async function encryptLegacy(
+  password: string,
+  plaintext: string,
+): Promise<string> {
+  const pw = new TextEncoder().encode(password);
+  const baseKey = await crypto.subtle.importKey("raw", pw, "PBKDF2", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt: pw, iterations: 100000, hash: "SHA-256" },
+    baseKey,
+    256,
+  );
+  const key = await crypto.subtle.importKey("raw", bits, "AES-GCM", false, [
+    "encrypt",
+  ]);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plaintext),
+  );
+  const hex = (bytes: Uint8Array) =>
+    Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${hex(iv)}|${hex(new Uint8Array(ciphertext))}`;
+}
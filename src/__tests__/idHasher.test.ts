@@ -0,0 +1,41 @@
+/**
+ * Tests for IdHasher
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { IdHasher } from "../idHasher.js";
+import { EncryptionHelper, DecryptionError } from "../encryption.js";
+
+describe("IdHasher", () => {
+  test("should derive stable ids that depend on the key", async () => {
+    const hasher = IdHasher.generate();
+    const id = await hasher.storedId("medical", "alice");
+
+    expect(id).toMatch(/^[0-9a-f]{16}_[0-9a-f]{32}$/);
+    expect(await hasher.storedId("medical", "alice")).toBe(id);
+    expect(await hasher.storedId("medical", "bob")).not.toBe(id);
+    expect(await IdHasher.generate().storedId("medical", "alice")).not.toBe(id);
+  });
+
+  test("should not confuse table and id boundaries", async () => {
+    const hasher = IdHasher.generate();
+
+    expect(await hasher.storedId("a", "b_c")).not.toBe(
+      await hasher.storedId("a_b", "c"),
+    );
+  });
+
+  test("should wrap and unwrap its key", async () => {
+    const hasher = IdHasher.generate();
+    const dataKey = EncryptionHelper.generate();
+    const wrapped = await hasher.wrap(dataKey);
+
+    const unwrapped = await IdHasher.unwrap(wrapped, dataKey);
+    expect(await unwrapped.storedId("medical", "alice")).toBe(
+      await hasher.storedId("medical", "alice"),
+    );
+    await expect(
+      IdHasher.unwrap(wrapped, EncryptionHelper.generate()),
+    ).rejects.toThrow(DecryptionError);
+  });
+});
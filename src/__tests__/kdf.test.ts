@@ -0,0 +1,122 @@
+/**
+ * Tests for key derivation functions
+ */
+
+import { jest, describe, test, expect } from "@jest/globals";
+import {
+  Pbkdf2,
+  Scrypt,
+  createKeyDerivation,
+  generateKdfParams,
+  registerKeyDerivation,
+} from "../kdf.js";
+import type { KdfParams, KeyDerivation, Pbkdf2Params } from "../kdf.js";
+
+describe("Key Derivation", () => {
+  describe("PBKDF2", () => {
+    test("should match the reference test vector", async () => {
+      const kdf = new Pbkdf2({
+        name: "PBKDF2",
+        hash: "SHA-256",
+        iterations: 1,
+        salt: btoa("salt"),
+      });
+
+      expect(toHex(await kdf.deriveBits("password"))).toBe(
+        "120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b",
+      );
+    });
+
+    test("should report completion", async () => {
+      const kdf = new Pbkdf2(
+        generateKdfParams({ name: "PBKDF2", iterations: 1000 }) as Pbkdf2Params,
+      );
+      const onProgress = jest.fn();
+      await kdf.deriveBits("password", onProgress);
+
+      expect(onProgress).toHaveBeenLastCalledWith(1);
+    });
+  });
+
+  describe("scrypt", () => {
+    test("should match the RFC 7914 test vector", async () => {
+      const kdf = new Scrypt({
+        name: "scrypt",
+        N: 1024,
+        r: 8,
+        p: 16,
+        salt: btoa("NaCl"),
+      });
+
+      // First 32 bytes of the 64-byte reference output
+      expect(toHex(await kdf.deriveBits("password"))).toBe(
+        "fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162",
+      );
+    });
+
+    test("should report increasing progress up to 1", async () => {
+      const kdf = new Scrypt({
+        name: "scrypt",
+        N: 4096,
+        r: 8,
+        p: 1,
+        salt: btoa("salt"),
+      });
+      const progress: number[] = [];
+      await kdf.deriveBits("password", (p) => progress.push(p));
+
+      expect(progress.length).toBeGreaterThan(2);
+      expect([...progress].sort((a, b) => a - b)).toEqual(progress);
+      expect(progress[progress.length - 1]).toBe(1);
+    });
+
+    test("should reject invalid cost parameters", () => {
+      expect(
+        () => new Scrypt({ name: "scrypt", N: 1000, r: 8, p: 1, salt: "" }),
+      ).toThrow("power of 2");
+    });
+  });
+
+  describe("Parameters", () => {
+    test("should fill in default costs and a random salt", () => {
+      const params = generateKdfParams({ name: "scrypt" });
+
+      expect(params).toMatchObject({ name: "scrypt", N: 32768, r: 8, p: 1 });
+      expect(generateKdfParams({ name: "scrypt" }).salt).not.toBe(params.salt);
+      expect(generateKdfParams()).toMatchObject({
+        name: "PBKDF2",
+        iterations: 100000,
+      });
+    });
+
+    test("should create the key derivation for recorded parameters", () => {
+      expect(createKeyDerivation(generateKdfParams())).toBeInstanceOf(Pbkdf2);
+      expect(
+        createKeyDerivation(generateKdfParams({ name: "scrypt" })),
+      ).toBeInstanceOf(Scrypt);
+    });
+
+    test("should require an Argon2id implementation to be registered", async () => {
+      const params = generateKdfParams({ name: "Argon2id" });
+      expect(() => createKeyDerivation(params)).toThrow(
+        'No implementation for key derivation "Argon2id"',
+      );
+
+      const factory = jest.fn((params: KdfParams): KeyDerivation => ({
+        params,
+        deriveBits: async () => new Uint8Array(32).fill(7),
+      }));
+      registerKeyDerivation("Argon2id", factory);
+
+      const kdf = createKeyDerivation(params);
+      expect(await kdf.deriveBits("password")).toEqual(
+        new Uint8Array(32).fill(7),
+      );
+      expect(factory).toHaveBeenCalledWith(params, expect.anything());
+    });
+  });
+});
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
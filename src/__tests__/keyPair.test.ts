@@ -0,0 +1,45 @@
+/**
+ * Tests for wrapped key material
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { KeyPair, wrapKeyBytes, unwrapKeyBytes } from "../keyPair.js";
+import type { KeyPairKind } from "../keyPair.js";
+import { EncryptionHelper, DecryptionError } from "../encryption.js";
+
+describe("wrapKeyBytes", () => {
+  test("should only unwrap with the same data key and purpose", async () => {
+    const dataKey = EncryptionHelper.generate();
+    const bytes = new Uint8Array([1, 2, 3]);
+    const wrapped = await wrapKeyBytes(bytes, dataKey, "purpose-a");
+
+    expect(await unwrapKeyBytes(wrapped, dataKey, "purpose-a")).toEqual(bytes);
+    await expect(unwrapKeyBytes(wrapped, dataKey, "purpose-b")).rejects.toThrow(
+      DecryptionError,
+    );
+    await expect(
+      unwrapKeyBytes(wrapped, EncryptionHelper.generate(), "purpose-a"),
+    ).rejects.toThrow(DecryptionError);
+  });
+});
+
+describe("KeyPair", () => {
+  const kind: KeyPairKind = {
+    algorithm: { name: "ECDSA", namedCurve: "P-256" },
+    usage: "sign",
+    purpose: "test-key",
+  };
+
+  test("should store a keypair under a data key", async () => {
+    const keyPair = await KeyPair.generate(kind);
+    const dataKey = EncryptionHelper.generate();
+    const stored = await keyPair.wrap(dataKey);
+
+    expect(stored.publicKey).toBe(keyPair.publicKey);
+    const restored = await KeyPair.unwrap(stored, dataKey, kind);
+    expect((await restored.privateKey()).usages).toEqual(["sign"]);
+    await expect(
+      KeyPair.unwrap(stored, dataKey, { ...kind, purpose: "other-key" }),
+    ).rejects.toThrow(DecryptionError);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for selectors, sorting and live query results
+ */
+
+import { describe, test, expect, jest } from "@jest/globals";
+import { compileSelector, orderAndPage, LiveQuery } from "../query.js";
+import type { Doc } from "../encryptedStore.js";
+
+const docs: Doc[] = [
+  { _id: "1", _table: "t", name: "lunch", amount: 15, tags: ["food"] },
+  {
+    _id: "2",
+    _table: "t",
+    name: "rent",
+    amount: 900,
+    place: { city: "Paris" },
+  },
+  {
+    _id: "3",
+    _table: "t",
+    name: "Dinner",
+    amount: "12",
+    place: { city: "Rome" },
+  },
+  { _id: "4", _table: "t", name: "taxi", amount: 30, paid: null },
+];
+
+function ids(selector: object): string[] {
+  return docs.filter(compileSelector(selector)).map((doc) => doc._id);
+}
+
+describe("Selectors", () => {
+  test("should match values and operators", () => {
+    expect(ids({ name: "lunch" })).toEqual(["1"]);
+    expect(ids({ amount: { $eq: 30 } })).toEqual(["4"]);
+    expect(ids({ amount: { $ne: 30 } })).toEqual(["1", "2", "3"]);
+    expect(ids({ amount: { $gt: 15, $lte: 900 } })).toEqual(["2", "4"]);
+    expect(ids({ amount: { $lt: 100 } })).toEqual(["1", "4"]);
+    expect(ids({ name: { $in: ["rent", "taxi"] } })).toEqual(["2", "4"]);
+    expect(ids({ name: { $nin: ["rent", "taxi"] } })).toEqual(["1", "3"]);
+    expect(ids({ name: { $regex: "^[a-z]+n" } })).toEqual(["1", "2"]);
+    expect(ids({ name: { $regex: /^d/i } })).toEqual(["3"]);
+    expect(ids({ tags: ["food"] })).toEqual(["1"]);
+  });
+
+  test("should match missing and null fields", () => {
+    expect(ids({ place: { $exists: true } })).toEqual(["2", "3"]);
+    expect(ids({ paid: { $exists: false } })).toEqual(["1", "2", "3"]);
+    expect(ids({ paid: null })).toEqual(["1", "2", "3", "4"]);
+  });
+
+  test("should match nested fields", () => {
+    expect(ids({ "place.city": "Paris" })).toEqual(["2"]);
+    expect(ids({ place: { city: { $regex: "^R" } } })).toEqual(["3"]);
+    expect(ids({ "place.city.name": "Paris" })).toEqual([]);
+  });
+
+  test("should combine selectors", () => {
+    expect(ids({ $or: [{ name: "lunch" }, { amount: 30 }] })).toEqual([
+      "1",
+      "4",
+    ]);
+    expect(
+      ids({ $and: [{ amount: { $gt: 10 } }, { amount: { $lt: 20 } }] }),
+    ).toEqual(["1"]);
+    expect(ids({ $not: { amount: { $gt: 20 } } })).toEqual(["1", "3"]);
+  });
+
+  test("should reject unknown operators", () => {
+    expect(() => compileSelector({ amount: { $gtt: 3 } })).toThrow(
+      "Unknown operator: $gtt",
+    );
+    expect(() => compileSelector({ $nor: [] })).toThrow(
+      "Unknown operator: $nor",
+    );
+  });
+});
+
+describe("Ordering", () => {
+  test("should sort by fields, then by id, and page", () => {
+    const order = (query: object) =>
+      orderAndPage(docs, query).map((doc) => doc._id);
+
+    expect(order({})).toEqual(["1", "2", "3", "4"]);
+    expect(order({ orderBy: "name" })).toEqual(["3", "1", "2", "4"]);
+    expect(order({ orderBy: [{ amount: "desc" }] })).toEqual([
+      "3",
+      "2",
+      "4",
+      "1",
+    ]);
+    expect(order({ orderBy: ["place.city"], offset: 1, limit: 2 })).toEqual([
+      "4",
+      "2",
+    ]);
+  });
+});
+
+describe("LiveQuery", () => {
+  test("should follow changes, including ones before the load", () => {
+    const onResults = jest.fn();
+    const live = new LiveQuery(
+      "t",
+      { where: { amount: { $gt: 10 } }, orderBy: [{ amount: "desc" }] },
+      onResults,
+    );
+
+    live.change({ _id: "5", _table: "t", amount: 50 });
+    live.remove("t", "2");
+    expect(onResults).not.toHaveBeenCalled();
+
+    live.load(docs);
+    const results = () =>
+      (onResults.mock.calls.at(-1)![0] as Doc[]).map((doc) => doc._id);
+    expect(results()).toEqual(["5", "4", "1"]);
+
+    live.change({ _id: "1", _table: "t", amount: 5 });
+    expect(results()).toEqual(["5", "4"]);
+    live.change({ _id: "6", _table: "other", amount: 70 });
+    live.change({ _id: "7", _table: "t", amount: 1 });
+    expect(onResults).toHaveBeenCalledTimes(2);
+
+    live.remove("t", "5");
+    expect(results()).toEqual(["4"]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for sorted secondary indexes
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { SecondaryIndex, indexRange } from "../secondaryIndex.js";
+
+function expenses(): SecondaryIndex {
+  const index = new SecondaryIndex("expenses", ["category", "date"]);
+  index.set("e_1", { category: "food", date: "2024-01-05" });
+  index.set("e_2", { category: "home", date: "2024-01-01" });
+  index.set("e_3", { category: "food", date: "2024-02-10" });
+  index.set("e_4", { category: "food", date: "2024-01-20" });
+  index.set("e_5", { date: "2024-01-01" });
+  return index;
+}
+
+describe("SecondaryIndex", () => {
+  test("should look up equal values and ranges in key order", () => {
+    const index = expenses();
+
+    expect(index.lookup({ eq: ["food"] })).toEqual(["e_1", "e_4", "e_3"]);
+    expect(
+      index.lookup({
+        eq: ["food"],
+        lower: { value: "2024-01-05", inclusive: false },
+        upper: { value: "2024-02-10", inclusive: true },
+      }),
+    ).toEqual(["e_4", "e_3"]);
+    expect(
+      index.lookup({ eq: [], lower: { value: "g", inclusive: true } }),
+    ).toEqual(["e_2"]);
+    // Missing values sort first
+    expect(
+      index.lookup({ eq: [], upper: { value: "food", inclusive: false } }),
+    ).toEqual(["e_5"]);
+  });
+
+  test("should follow updates and deletions", () => {
+    const index = expenses();
+    index.set("e_1", { category: "home", date: "2024-01-02" });
+    expect(index.delete("e_3")).toBe(true);
+    expect(index.delete("e_3")).toBe(false);
+
+    expect(index.lookup({ eq: ["food"] })).toEqual(["e_4"]);
+    expect(index.lookup({ eq: ["home"] })).toEqual(["e_2", "e_1"]);
+  });
+
+  test("should serialize its entries and sequence", () => {
+    const index = expenses();
+    index.seq = 42;
+    const copy = new SecondaryIndex("expenses", ["category", "date"]);
+    copy.deserialize(index.serialize());
+
+    expect(copy.seq).toBe(42);
+    expect(copy.lookup({ eq: ["food"] })).toEqual(["e_1", "e_4", "e_3"]);
+    copy.delete("e_5");
+    expect(copy.lookup({ eq: [null] })).toEqual([]);
+  });
+});
+
+describe("indexRange", () => {
+  const fields = ["category", "date"];
+
+  test("should use equal fields, then a range on the next one", () => {
+    expect(indexRange(fields, { category: "food" })).toEqual({
+      eq: ["food"],
+    });
+    expect(
+      indexRange(fields, {
+        category: { $eq: "food" },
+        date: { $gte: "2024-01", $gt: "2024-01-15", $lt: "2024-02" },
+        amount: 3,
+      }),
+    ).toEqual({
+      eq: ["food"],
+      lower: { value: "2024-01-15", inclusive: false },
+      upper: { value: "2024-02", inclusive: false },
+    });
+    expect(indexRange(fields, { category: { $lte: "g" } })).toEqual({
+      eq: [],
+      upper: { value: "g", inclusive: true },
+    });
+  });
+
+  test("should not use fields without a usable condition", () => {
+    expect(indexRange(fields, { date: "2024-01-01" })).toBeNull();
+    expect(indexRange(fields, { category: { $regex: "^f" } })).toBeNull();
+    expect(indexRange(["place"], { place: { city: "Paris" } })).toBeNull();
+  });
+});
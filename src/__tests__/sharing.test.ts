@@ -0,0 +1,112 @@
+/**
+ * Tests for identities and table key sharing
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { Identity, publicKeyId } from "../sharing.js";
+import { EncryptionHelper, DecryptionError } from "../encryption.js";
+
+describe("Sharing", () => {
+  test("should wrap a table key for a recipient only", async () => {
+    const alice = await Identity.generate();
+    const bob = await Identity.generate();
+    const tableKey = EncryptionHelper.generate();
+    const wrapped = await alice.wrapTableKey(
+      tableKey,
+      "expenses",
+      bob.publicKey,
+    );
+
+    expect(wrapped.ownerPublicKey).toBe(alice.publicKey);
+    const unwrapped = await bob.unwrapTableKey(
+      "expenses",
+      wrapped,
+      alice.publicKey,
+    );
+    expect(await unwrapped.getKeyId()).toBe(await tableKey.getKeyId());
+
+    const carol = await Identity.generate();
+    await expect(
+      carol.unwrapTableKey("expenses", wrapped, alice.publicKey),
+    ).rejects.toThrow(DecryptionError);
+  });
+
+  test("should bind a wrapped key to its table", async () => {
+    const alice = await Identity.generate();
+    const bob = await Identity.generate();
+    const wrapped = await alice.wrapTableKey(
+      EncryptionHelper.generate(),
+      "expenses",
+      bob.publicKey,
+    );
+
+    await expect(
+      bob.unwrapTableKey("notes", wrapped, alice.publicKey),
+    ).rejects.toThrow(DecryptionError);
+  });
+
+  test("should only unwrap keys wrapped by the expected owner", async () => {
+    const alice = await Identity.generate();
+    const bob = await Identity.generate();
+    const mallory = await Identity.generate();
+    const forged = await mallory.wrapTableKey(
+      EncryptionHelper.generate(),
+      "expenses",
+      bob.publicKey,
+    );
+
+    await expect(
+      bob.unwrapTableKey("expenses", forged, alice.publicKey),
+    ).rejects.toThrow(DecryptionError);
+    await expect(
+      bob.unwrapTableKey(
+        "expenses",
+        { ...forged, ownerPublicKey: alice.publicKey },
+        alice.publicKey,
+      ),
+    ).rejects.toThrow(DecryptionError);
+  });
+
+  test("should store an identity under a data key", async () => {
+    const identity = await Identity.generate();
+    const dataKey = EncryptionHelper.generate();
+    const stored = await identity.wrap(dataKey);
+
+    expect(stored.publicKey).toBe(identity.publicKey);
+    const restored = await Identity.unwrap(stored, dataKey);
+    const owner = await Identity.generate();
+    const wrapped = await owner.wrapTableKey(
+      EncryptionHelper.generate(),
+      "expenses",
+      identity.publicKey,
+    );
+    await expect(
+      restored.unwrapTableKey("expenses", wrapped, owner.publicKey),
+    ).resolves.toBeInstanceOf(EncryptionHelper);
+    await expect(
+      Identity.unwrap(stored, EncryptionHelper.generate()),
+    ).rejects.toThrow(DecryptionError);
+  });
+
+  test("should reject invalid public keys", async () => {
+    const identity = await Identity.generate();
+    await expect(
+      identity.wrapTableKey(
+        EncryptionHelper.generate(),
+        "expenses",
+        "bm90IGEga2V5",
+      ),
+    ).rejects.toThrow("Invalid public key");
+  });
+
+  test("should fingerprint public keys", async () => {
+    const identity = await Identity.generate();
+    const id = await publicKeyId(identity.publicKey);
+
+    expect(id).toMatch(/^[0-9a-f]{16}$/);
+    expect(await publicKeyId(identity.publicKey)).toBe(id);
+    expect(await publicKeyId((await Identity.generate()).publicKey)).not.toBe(
+      id,
+    );
+  });
+});
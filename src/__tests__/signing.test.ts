@@ -0,0 +1,57 @@
+/**
+ * Tests for device signing keys
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { SigningKey, importVerifyKey, verifySignature } from "../signing.js";
+import { EncryptionHelper, DecryptionError } from "../encryption.js";
+
+describe("SigningKey", () => {
+  test("should sign messages that verify with its public key only", async () => {
+    const key = await SigningKey.generate();
+    const signature = await key.sign("expenses_lunch");
+    const publicKey = await importVerifyKey(key.publicKey);
+
+    expect(await verifySignature(publicKey, "expenses_lunch", signature)).toBe(
+      true,
+    );
+    expect(await verifySignature(publicKey, "expenses_dinner", signature)).toBe(
+      false,
+    );
+    const other = await importVerifyKey(
+      (await SigningKey.generate()).publicKey,
+    );
+    expect(await verifySignature(other, "expenses_lunch", signature)).toBe(
+      false,
+    );
+  });
+
+  test("should reject malformed signatures and keys", async () => {
+    const key = await SigningKey.generate();
+    const publicKey = await importVerifyKey(key.publicKey);
+
+    expect(await verifySignature(publicKey, "message", "bm90IGl0")).toBe(false);
+    await expect(importVerifyKey("bm90IGEga2V5")).rejects.toThrow(
+      "Invalid public key",
+    );
+  });
+
+  test("should wrap and unwrap its private key", async () => {
+    const key = await SigningKey.generate();
+    const dataKey = EncryptionHelper.generate();
+    const stored = await key.wrap(dataKey);
+
+    const unwrapped = await SigningKey.unwrap(stored, dataKey);
+    expect(unwrapped.publicKey).toBe(key.publicKey);
+    expect(
+      await verifySignature(
+        await importVerifyKey(key.publicKey),
+        "message",
+        await unwrapped.sign("message"),
+      ),
+    ).toBe(true);
+    await expect(
+      SigningKey.unwrap(stored, EncryptionHelper.generate()),
+    ).rejects.toThrow(DecryptionError);
+  });
+});
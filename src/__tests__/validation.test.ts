@@ -0,0 +1,98 @@
+/**
+ * Tests for document validators
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { compileValidator, validateSchema } from "../validation.js";
+import type { JsonSchema } from "../validation.js";
+
+describe("validateSchema", () => {
+  const schema: JsonSchema = {
+    type: "object",
+    required: ["amount", "category"],
+    additionalProperties: false,
+    properties: {
+      _id: { type: "string" },
+      amount: { type: "number", minimum: 0 },
+      category: { enum: ["food", "travel"] },
+      note: { type: "string", maxLength: 5 },
+      tags: { type: "array", items: { type: "string" } },
+      place: {
+        type: "object",
+        properties: { city: { type: "string", pattern: "^[A-Z]" } },
+      },
+    },
+  };
+
+  test("should accept valid documents", () => {
+    expect(
+      validateSchema(schema, {
+        _id: "lunch",
+        amount: 12,
+        category: "food",
+        tags: ["work"],
+        place: { city: "Paris" },
+        note: undefined,
+      }),
+    ).toEqual([]);
+  });
+
+  test("should report each issue with its path", () => {
+    expect(
+      validateSchema(schema, {
+        _id: "lunch",
+        amuont: 12,
+        category: "rent",
+        note: "too long",
+        tags: ["ok", 3],
+        place: { city: "paris" },
+      }),
+    ).toEqual([
+      { path: "amount", message: "is required" },
+      { path: "amuont", message: "is not allowed" },
+      { path: "category", message: 'must be one of "food", "travel"' },
+      { path: "note", message: "must have at most 5 characters" },
+      { path: "tags.1", message: "must be string" },
+      { path: "place.city", message: "must match ^[A-Z]" },
+    ]);
+  });
+
+  test("should check types, numbers and alternatives", () => {
+    expect(validateSchema({ type: "integer" }, 1.5)).toEqual([
+      { path: "", message: "must be integer" },
+    ]);
+    expect(validateSchema({ type: ["string", "null"] }, null)).toEqual([]);
+    expect(validateSchema({ type: "number" }, NaN)).toHaveLength(1);
+    expect(validateSchema({ type: "object" }, [])).toHaveLength(1);
+    expect(validateSchema({ exclusiveMaximum: 10 }, 10)).toEqual([
+      { path: "", message: "must be less than 10" },
+    ]);
+    expect(
+      validateSchema({ anyOf: [{ type: "string" }, { minimum: 5 }] }, 3),
+    ).toEqual([{ path: "", message: "must match one of the allowed schemas" }]);
+    expect(
+      validateSchema({ additionalProperties: { type: "number" } }, { a: "x" }),
+    ).toEqual([{ path: "a", message: "must be number" }]);
+  });
+});
+
+describe("compileValidator", () => {
+  test("should turn function results into issues", () => {
+    expect(compileValidator(() => true)({})).toEqual([]);
+    expect(compileValidator(() => undefined)({})).toEqual([]);
+    expect(compileValidator(() => false)({})).toEqual([
+      { path: "", message: "is invalid" },
+    ]);
+    expect(compileValidator(() => "needs an amount")({})).toEqual([
+      { path: "", message: "needs an amount" },
+    ]);
+    const issues = [{ path: "amount", message: "must be positive" }];
+    expect(compileValidator(() => issues)({})).toEqual(issues);
+  });
+
+  test("should validate with a schema", () => {
+    expect(compileValidator({ required: ["a"] })({})).toEqual([
+      { path: "a", message: "is required" },
+    ]);
+  });
+});
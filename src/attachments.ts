@@ -0,0 +1,118 @@
+/**
+ * Chunked encryption of binary attachments
+ */
+
+import { defaultCrypto, toHex, toBase64, fromBase64 } from "./cryptoUtils.js";
+import type { CryptoInterface } from "./cryptoUtils.js";
+import { EncryptionHelper } from "./encryption.js";
+
+/**
+ * Where and how an attachment is stored. Kept inside the document's
+ * encrypted payload, so it is re-encrypted with the document.
+ */
+interface AttachmentManifest {
+  /** Random id; chunk `i` is stored as the PouchDB attachment `${id}/${i}` */
+  id: string;
+  type: string;
+  size: number;
+  chunkSize: number;
+  chunks: number;
+  /** Random key for this attachment only, base64 */
+  key: string;
+}
+
+/** Public description of an attachment */
+interface AttachmentInfo {
+  name: string;
+  type: string;
+  size: number;
+}
+
+const DEFAULT_ATTACHMENT_CHUNK_SIZE = 512 * 1024;
+
+function createManifest(
+  type: string,
+  size: number,
+  chunkSize: number,
+  crypto: CryptoInterface = defaultCrypto(),
+): AttachmentManifest {
+  const id = toHex(crypto.getRandomValues(new Uint8Array(12)));
+  return {
+    id,
+    type,
+    size,
+    chunkSize,
+    // An empty attachment still has one (empty) chunk
+    chunks: Math.max(1, Math.ceil(size / chunkSize)),
+    key: toBase64(crypto.getRandomValues(new Uint8Array(32))),
+  };
+}
+
+function chunkName(manifest: AttachmentManifest, index: number): string {
+  return `${manifest.id}/${index}`;
+}
+
+/**
+ * Read one chunk of the source. Blobs are sliced, so a large file is never
+ * read into memory at once.
+ */
+async function readChunk(
+  source: Blob | Uint8Array,
+  manifest: AttachmentManifest,
+  index: number,
+): Promise<Uint8Array> {
+  const start = index * manifest.chunkSize;
+  const end = Math.min(start + manifest.chunkSize, manifest.size);
+  if (source instanceof Uint8Array) {
+    return source.subarray(start, end);
+  }
+  return new Uint8Array(await source.slice(start, end).arrayBuffer());
+}
+
+/**
+ * Each chunk is bound to its position and the chunk count, so chunks can't
+ * be reordered, dropped or mixed between attachments.
+ */
+function chunkAssociatedData(
+  manifest: AttachmentManifest,
+  index: number,
+): string {
+  return `${manifest.id}/${index}/${manifest.chunks}`;
+}
+
+async function encryptChunk(
+  manifest: AttachmentManifest,
+  index: number,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  return keyFor(manifest).encryptBytes(
+    data,
+    chunkAssociatedData(manifest, index),
+  );
+}
+
+/** Throws DecryptionError if the chunk was tampered with */
+async function decryptChunk(
+  manifest: AttachmentManifest,
+  index: number,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  return keyFor(manifest).decryptBytes(
+    data,
+    chunkAssociatedData(manifest, index),
+  );
+}
+
+function keyFor(manifest: AttachmentManifest): EncryptionHelper {
+  return EncryptionHelper.fromRawKey(fromBase64(manifest.key));
+}
+
+export {
+  createManifest,
+  chunkName,
+  readChunk,
+  encryptChunk,
+  decryptChunk,
+  DEFAULT_ATTACHMENT_CHUNK_SIZE,
+};
+export type { AttachmentManifest, AttachmentInfo };
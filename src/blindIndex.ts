@@ -0,0 +1,144 @@
+/**
+ * Keyed-HMAC tokens of field values, so that documents can be found by
+ * equality without decrypting them
+ */
+
+import { defaultCrypto, toHex } from "./cryptoUtils.js";
+import type { CryptoInterface } from "./cryptoUtils.js";
+import type { EncryptionHelper } from "./encryption.js";
+
+class BlindIndex {
+  private readonly rawKey: Uint8Array;
+  private readonly crypto: CryptoInterface;
+  private keyPromise: Promise<CryptoKey> | null = null;
+
+  constructor(rawKey: Uint8Array, crypto: CryptoInterface = defaultCrypto()) {
+    this.rawKey = rawKey;
+    this.crypto = crypto;
+  }
+
+  /**
+   * The index of a table, keyed from the key its documents are encrypted
+   * with. Every store holding that key computes the same tokens.
+   */
+  static async forTable(
+    key: EncryptionHelper,
+    table: string,
+    crypto: CryptoInterface = defaultCrypto(),
+  ): Promise<BlindIndex> {
+    return new BlindIndex(
+      await key.deriveSubkey(`encrypted-store-blind-index\u0000${table}`),
+      crypto,
+    );
+  }
+
+  /**
+   * Token for a field's value. Equal values of the same field give equal
+   * tokens; nothing else about the value or the field can be told from it.
+   */
+  async token(field: string, value: unknown): Promise<string> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.crypto.subtle.importKey(
+        "raw",
+        this.rawKey as BufferSource,
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"],
+      );
+    }
+    const signature = await this.crypto.subtle.sign(
+      "HMAC",
+      await this.keyPromise,
+      new TextEncoder().encode(`${field}\u0000${JSON.stringify(value)}`),
+    );
+    return toHex(new Uint8Array(signature, 0, 16));
+  }
+
+  /** Tokens for the fields a document has, in field order */
+  async tokens(data: Record<string, any>, fields: string[]): Promise<string[]> {
+    const tokens: string[] = [];
+    for (const field of fields) {
+      if (data[field] !== undefined) {
+        tokens.push(await this.token(field, data[field]));
+      }
+    }
+    return tokens;
+  }
+}
+
+/** Entries of a TokenIndex, as serialize() gives them */
+interface SavedTokenIndex {
+  seq: number | string;
+  docs: Record<string, string[]>;
+}
+
+/**
+ * The part of the token lookup a token belongs to, by its first two hex
+ * digits, so that a lookup only reads and saves one of 256 parts
+ */
+function tokenShard(token: string): string {
+  return token.slice(0, 2);
+}
+
+/**
+ * The stored ids of documents by the tokens they carry. Tokens are stored
+ * in the clear with the documents, so this can be built without any key.
+ */
+class TokenIndex {
+  /** Database update sequence the entries are current to */
+  seq: number | string = 0;
+  private ids = new Map<string, Set<string>>();
+  private tokens = new Map<string, string[]>();
+
+  /** Add or update a document's tokens */
+  set(id: string, tokens: string[]): void {
+    this.delete(id);
+    if (tokens.length === 0) return;
+    this.tokens.set(id, tokens);
+    for (const token of tokens) {
+      let ids = this.ids.get(token);
+      if (!ids) {
+        ids = new Set();
+        this.ids.set(token, ids);
+      }
+      ids.add(id);
+    }
+  }
+
+  /** Remove a document */
+  delete(id: string): void {
+    for (const token of this.tokens.get(id) ?? []) {
+      const ids = this.ids.get(token)!;
+      ids.delete(id);
+      if (ids.size === 0) this.ids.delete(token);
+    }
+    this.tokens.delete(id);
+  }
+
+  /** Ids of the documents with a token, sorted */
+  lookup(token: string): string[] {
+    return [...(this.ids.get(token) ?? [])].sort();
+  }
+
+  /** The entries, to save and load with load() */
+  serialize(): SavedTokenIndex {
+    return { seq: this.seq, docs: Object.fromEntries(this.tokens) };
+  }
+
+  load(saved: SavedTokenIndex): void {
+    this.clear();
+    for (const [id, tokens] of Object.entries(saved.docs)) {
+      this.set(id, tokens);
+    }
+    this.seq = saved.seq;
+  }
+
+  clear(): void {
+    this.ids.clear();
+    this.tokens.clear();
+    this.seq = 0;
+  }
+}
+
+export { BlindIndex, TokenIndex, tokenShard };
+export type { SavedTokenIndex };
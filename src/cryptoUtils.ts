@@ -0,0 +1,100 @@
+/**
+ * WebCrypto access and byte encodings shared by the crypto modules
+ */
+
+interface CryptoInterface {
+  subtle: {
+    digest(algorithm: string, data: BufferSource): Promise<ArrayBuffer>;
+    importKey(
+      format: string,
+      keyData: BufferSource,
+      algorithm: string | object,
+      extractable: boolean,
+      keyUsages: string[],
+    ): Promise<CryptoKey>;
+    exportKey(format: string, key: CryptoKey): Promise<ArrayBuffer>;
+    encrypt(
+      algorithm: string | object,
+      key: CryptoKey,
+      data: BufferSource,
+    ): Promise<ArrayBuffer>;
+    decrypt(
+      algorithm: string | object,
+      key: CryptoKey,
+      data: BufferSource,
+    ): Promise<ArrayBuffer>;
+    deriveBits(
+      algorithm: object,
+      baseKey: CryptoKey,
+      length: number,
+    ): Promise<ArrayBuffer>;
+    sign(
+      algorithm: string | object,
+      key: CryptoKey,
+      data: BufferSource,
+    ): Promise<ArrayBuffer>;
+    verify(
+      algorithm: string | object,
+      key: CryptoKey,
+      signature: BufferSource,
+      data: BufferSource,
+    ): Promise<boolean>;
+    generateKey(
+      algorithm: object,
+      extractable: boolean,
+      keyUsages: string[],
+    ): Promise<CryptoKeyPair | CryptoKey>;
+  };
+  getRandomValues<T extends ArrayBufferView>(array: T): T;
+}
+
+function defaultCrypto(): CryptoInterface {
+  return typeof window !== "undefined"
+    ? (window.crypto as any)
+    : (global as any).crypto;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(base64url: string): Uint8Array {
+  const base64 = base64url.replace(/-/g, "+").replace(/_/g, "/");
+  return fromBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+}
+
+export {
+  defaultCrypto,
+  toHex,
+  toBase64,
+  fromBase64,
+  toBase64Url,
+  fromBase64Url,
+};
+export type { CryptoInterface };
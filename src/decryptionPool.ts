@@ -0,0 +1,249 @@
+/**
+ * Decrypting many documents at once: a few at a time on the current thread,
+ * or spread over workers
+ */
+
+import { EncryptionHelper } from "./encryption.js";
+
+/** One payload for a worker to decrypt and parse */
+interface DecryptRequest {
+  keyId: string;
+  data: string;
+  associatedData: string;
+  /** Also try without associated data (see allowUnboundDocuments) */
+  allowUnbound: boolean;
+}
+
+/** The parsed payload, or null if it could not be decrypted */
+type DecryptResult = Record<string, any> | null;
+
+/** Decrypts payloads off the current thread */
+interface DecryptionPool {
+  /**
+   * Decrypt payloads with the given raw keys (by key id). Results are in
+   * request order.
+   */
+  decrypt(
+    keys: Record<string, Uint8Array>,
+    requests: DecryptRequest[],
+  ): Promise<DecryptResult[]>;
+}
+
+/**
+ * What is used of a Web Worker, a worker_threads Worker, a worker's `self`
+ * or worker_threads' `parentPort`
+ */
+interface MessagePortLike {
+  postMessage(message: any): void;
+  on?(event: string, listener: (data: any) => void): unknown;
+  addEventListener?(type: string, listener: (event: any) => void): unknown;
+}
+
+interface WorkerLike extends MessagePortLike {
+  terminate(): unknown;
+}
+
+/** Batch of requests sent to a worker */
+interface DecryptBatch {
+  id: number;
+  keys: Record<string, Uint8Array>;
+  requests: DecryptRequest[];
+}
+
+/**
+ * Map over items with at most `concurrency` calls pending at once. Results
+ * are in item order. `fn` should not throw.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(
+    Array.from(
+      { length: Math.min(Math.max(1, concurrency), items.length) },
+      run,
+    ),
+  );
+  return results;
+}
+
+/**
+ * Spreads decryption over workers that run serveDecryption().
+ *
+ * @example
+ * const pool = new WorkerDecryptionPool(
+ *   () => new Worker(new URL("./decrypt.worker.js", import.meta.url), { type: "module" }),
+ *   navigator.hardwareConcurrency,
+ * );
+ */
+class WorkerDecryptionPool implements DecryptionPool {
+  private readonly createWorker: () => WorkerLike;
+  private readonly workers: WorkerLike[];
+  /** Batches sent and not answered yet, with the worker they were sent to */
+  private readonly pending = new Map<
+    number,
+    {
+      worker: WorkerLike;
+      resolve: (results: DecryptResult[]) => void;
+      reject: (error: any) => void;
+    }
+  >();
+  private nextId = 0;
+
+  constructor(createWorker: () => WorkerLike, size: number = 4) {
+    this.createWorker = createWorker;
+    this.workers = Array.from({ length: Math.max(1, size) }, () =>
+      this.startWorker(),
+    );
+  }
+
+  async decrypt(
+    keys: Record<string, Uint8Array>,
+    requests: DecryptRequest[],
+  ): Promise<DecryptResult[]> {
+    if (this.workers.length === 0) {
+      throw new Error("The decryption pool was terminated");
+    }
+    const chunkSize = Math.ceil(requests.length / this.workers.length);
+    const chunks = await Promise.all(
+      this.workers.map((worker, i) => {
+        const chunk = requests.slice(i * chunkSize, (i + 1) * chunkSize);
+        return chunk.length > 0 ? this.send(worker, keys, chunk) : [];
+      }),
+    );
+    return chunks.flat();
+  }
+
+  /** Stop the workers. Pending and later calls reject. */
+  terminate(): void {
+    for (const worker of this.workers.splice(0)) {
+      worker.terminate();
+    }
+    this.fail(new Error("The decryption pool was terminated"));
+  }
+
+  private startWorker(): WorkerLike {
+    const worker = this.createWorker();
+    listen(worker, "message", (message) => this.receive(message));
+    listen(worker, "error", (error) => this.replace(worker, error));
+    return worker;
+  }
+
+  /**
+   * A worker failed: reject its batches, and start another in its place.
+   * A worker_threads Worker stops after an uncaught error, so it would
+   * never answer again.
+   */
+  private replace(worker: WorkerLike, error: any): void {
+    this.fail(error, worker);
+    const index = this.workers.indexOf(worker);
+    if (index === -1) return;
+    worker.terminate();
+    this.workers[index] = this.startWorker();
+  }
+
+  private send(
+    worker: WorkerLike,
+    keys: Record<string, Uint8Array>,
+    requests: DecryptRequest[],
+  ): Promise<DecryptResult[]> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { worker, resolve, reject });
+      const batch: DecryptBatch = { id, keys, requests };
+      worker.postMessage(batch);
+    });
+  }
+
+  private receive(message: { id: number; results: DecryptResult[] }): void {
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    this.pending.delete(message.id);
+    pending.resolve(message.results);
+  }
+
+  /** Reject the pending batches of one worker, or of all */
+  private fail(error: any, worker?: WorkerLike): void {
+    for (const [id, pending] of this.pending) {
+      if (worker && pending.worker !== worker) continue;
+      this.pending.delete(id);
+      pending.reject(error);
+    }
+  }
+}
+
+/**
+ * Answer a WorkerDecryptionPool, from inside a worker. Keys come with each
+ * batch and are dropped after it, so nothing outlives a lock() in the worker.
+ *
+ * @example
+ * // decrypt.worker.js, in a browser
+ * serveDecryption(self);
+ *
+ * // decrypt.worker.js, in Node
+ * serveDecryption(parentPort);
+ */
+function serveDecryption(port: MessagePortLike): void {
+  listen(port, "message", async ({ id, keys, requests }: DecryptBatch) => {
+    const helpers = new Map<string, EncryptionHelper>();
+    for (const [keyId, raw] of Object.entries(keys)) {
+      helpers.set(keyId, EncryptionHelper.fromRawKey(raw));
+    }
+    const results = await mapWithConcurrency(requests, 8, (request) =>
+      decryptRequest(helpers.get(request.keyId), request),
+    );
+    port.postMessage({ id, results });
+  });
+}
+
+async function decryptRequest(
+  helper: EncryptionHelper | undefined,
+  request: DecryptRequest,
+): Promise<DecryptResult> {
+  if (!helper) return null;
+  try {
+    return JSON.parse(
+      await helper.decrypt(request.data, request.associatedData),
+    );
+  } catch {
+    if (!request.allowUnbound) return null;
+    try {
+      return JSON.parse(await helper.decrypt(request.data));
+    } catch {
+      return null;
+    }
+  }
+}
+
+/** Subscribe to Node-style (`on`) or DOM-style (`addEventListener`) events */
+function listen(
+  port: MessagePortLike,
+  type: "message" | "error",
+  listener: (data: any) => void,
+): void {
+  if (port.on) {
+    port.on(type, listener);
+  } else {
+    port.addEventListener?.(type, (event) =>
+      listener(type === "message" ? event.data : event),
+    );
+  }
+}
+
+export { WorkerDecryptionPool, serveDecryption, mapWithConcurrency };
+export type {
+  DecryptionPool,
+  DecryptRequest,
+  DecryptResult,
+  MessagePortLike,
+  WorkerLike,
+};
@@ -3,12 +3,58 @@
  * Simple API: put, get, delete, loadAll
  */
 
-import { EncryptionHelper } from "./encryption.js";
+import { EncryptionHelper, DecryptionError } from "./encryption.js";
+import type { KdfParams, KdfSettings, KdfProgress } from "./kdf.js";
+import { IdHasher } from "./idHasher.js";
+import {
+  createManifest,
+  chunkName,
+  readChunk,
+  encryptChunk,
+  decryptChunk,
+  DEFAULT_ATTACHMENT_CHUNK_SIZE,
+} from "./attachments.js";
+import type { AttachmentManifest, AttachmentInfo } from "./attachments.js";
+import { Identity, publicKeyId, importPublicKey } from "./sharing.js";
+import type { StoredIdentity, WrappedTableKey } from "./sharing.js";
+import { SigningKey, importVerifyKey, verifySignature } from "./signing.js";
+import { BlindIndex, TokenIndex, tokenShard } from "./blindIndex.js";
+import type { SavedTokenIndex } from "./blindIndex.js";
+import type { StoredSigningKey } from "./signing.js";
+import { mapWithConcurrency } from "./decryptionPool.js";
+import type { DecryptionPool, DecryptRequest } from "./decryptionPool.js";
+import { compileSelector, orderAndPage, LiveQuery } from "./query.js";
+import type { Query, Selector } from "./query.js";
+import { SecondaryIndex, indexRange } from "./secondaryIndex.js";
+import { toHex, toBase64, defaultCrypto } from "./cryptoUtils.js";
+import {
+  InvalidPasswordError,
+  StoreLockedError,
+  SignatureError,
+  ConflictError,
+  ValidationError,
+  SchemaVersionError,
+} from "./errors.js";
+import { Table } from "./table.js";
+import type { TableOptions } from "./table.js";
+import { compileValidator } from "./validation.js";
+import type { ValidationIssue } from "./validation.js";
 import type PouchDB from "pouchdb";
 
 export interface Doc {
   _id: string;
   _table: string;
+  /**
+   * Revision the document was read at. put() fails with ConflictError if
+   * it is no longer the current one.
+   */
+  _rev?: string;
+  /** Author of a document signed with a trusted key (see `signAs`) */
+  _author?: string;
+  /** When a document in the trash was deleted (see listTrash()) */
+  _trashedAt?: number;
+  /** When the document expires (see PutOptions.expiresAt) */
+  _expiresAt?: number;
   [key: string]: any;
 }
 
@@ -28,6 +74,19 @@ export interface ConflictInfo {
   losers: Doc[];
 }
 
+/** One revision of a document (see history()) */
+export interface DocRevision {
+  rev: string;
+  /**
+   * When the revision was written, in ms since the epoch, by the writer's
+   * clock. Missing for deletions and revisions written by older versions.
+   */
+  timestamp?: number;
+  deleted: boolean;
+  /** The decrypted document, or null for a deletion */
+  doc: Doc | null;
+}
+
 export interface SyncInfo {
   direction: "push" | "pull" | "both";
   change: {
@@ -44,6 +103,11 @@ export interface StoreListener {
   onConflict?: (conflicts: ConflictInfo[]) => void;
   onSync?: (info: SyncInfo) => void;
   onError?: (errors: DecryptionErrorEvent[]) => void;
+  /**
+   * Documents that expired (see `expiresAt`), as `{ _id, _table }`.
+   * onDelete follows once they are deleted.
+   */
+  onExpire?: (docs: Doc[]) => void;
 }
 
 export interface RemoteOptions {
@@ -52,6 +116,138 @@ export interface RemoteOptions {
   retry?: boolean;
 }
 
+export interface PasswordChangeProgress {
+  /** Documents examined so far (including ones already re-encrypted) */
+  processed: number;
+  /** Total documents in the database when the change started */
+  total: number;
+  /** Documents re-encrypted under the new password so far */
+  reencrypted: number;
+}
+
+export interface ChangePasswordOptions {
+  onProgress?: (progress: PasswordChangeProgress) => void;
+  /** Number of documents re-encrypted per write (default: 100) */
+  batchSize?: number;
+  /**
+   * Replace the data key and re-encrypt every document (default: true).
+   * With `false`, only the password's key slot is rewritten.
+   */
+  rotateKey?: boolean;
+  /**
+   * Let a key rotation remove the other key slots (such as a recovery
+   * key), which only unlock the old key. Without it, rotating a store that
+   * has other slots throws.
+   */
+  removeOtherKeySlots?: boolean;
+}
+
+/** Which documents of a table getAll() and iterate() return */
+export interface ScanOptions {
+  /** At most this many documents */
+  limit?: number;
+  /** Only documents after this id, such as the last one of a page */
+  startAfter?: string;
+  /**
+   * In descending id order. With encrypted ids, documents are in the
+   * order of their stored ids instead.
+   */
+  descending?: boolean;
+}
+
+export interface IterateOptions extends ScanOptions {
+  /** Number of documents read and decrypted at a time (default: 100) */
+  batchSize?: number;
+}
+
+/** A way to unlock the store (the secret itself is never stored) */
+export interface KeySlotInfo {
+  id: string;
+  passphraseMode: "derive" | "raw";
+}
+
+export interface KeySlotOptions {
+  /**
+   * How the slot key is derived from its secret. Use `"raw"` for
+   * high-entropy secrets such as recovery keys.
+   * @default "derive"
+   */
+  passphraseMode?: "derive" | "raw";
+  /** Key derivation for `"derive"` mode (default: the store's setting) */
+  kdf?: KdfSettings;
+  /** PBKDF2 iterations for `"derive"` mode, if `kdf` is not set */
+  kdfIterations?: number;
+}
+
+/**
+ * A shared table, and the other store's public key: the recipient's in
+ * listShares(), the owner's in listIncomingShares()
+ */
+export interface TableShareInfo {
+  table: string;
+  publicKey: string;
+}
+
+/** A key whose signatures are trusted, and the author they name */
+export interface TrustedSigner {
+  author: string;
+  publicKey: string;
+}
+
+export interface PutOptions {
+  /**
+   * Write over the current revision, whatever `_rev` says (last writer
+   * wins), instead of failing with ConflictError
+   */
+  force?: boolean;
+  /**
+   * When the document expires (see the `onExpire` callback). Without it,
+   * the document keeps its current expiry; `null` removes it.
+   */
+  expiresAt?: number | Date | null;
+}
+
+export interface UpdateOptions {
+  /** How many times to re-read and retry after a conflict (default: 3) */
+  retries?: number;
+}
+
+export interface PatchOptions extends UpdateOptions {
+  /**
+   * Merge nested objects field by field, instead of replacing them
+   * (default: false). Arrays are always replaced.
+   */
+  deep?: boolean;
+}
+
+/**
+ * Upgrades a document from one schema version of its table to the next.
+ * Must be deterministic: devices may upgrade the same document at once.
+ */
+export type Migration = (
+  doc: Doc,
+) => Record<string, any> | Promise<Record<string, any>>;
+
+export interface MigrationProgress {
+  /** Documents examined so far */
+  processed: number;
+  /** Documents of the migrated tables when the migration started */
+  total: number;
+  /** Documents upgraded and written back so far */
+  migrated: number;
+}
+
+export interface MigrateOptions {
+  onProgress?: (progress: MigrationProgress) => void;
+  /** Number of documents read at a time (default: 100) */
+  batchSize?: number;
+}
+
+/** Outcome of one document of putMany() or deleteMany() */
+export type BulkResult =
+  | { id: string; ok: true; rev: string }
+  | { id: string; ok: false; error: Error };
+
 /**
  * Options for configuring the EncryptedStore
  */
@@ -70,22 +266,383 @@ export interface EncryptedStoreOptions {
    * @default "derive"
    */
   passphraseMode?: "derive" | "raw";
+
+  /**
+   * PBKDF2 iterations for new stores in `"derive"` mode. Recorded in the
+   * store's metadata document along with a random salt; existing stores
+   * always use their recorded parameters.
+   *
+   * @default 100000
+   */
+  kdfIterations?: number;
+
+  /**
+   * Key derivation function and cost for new key slots in `"derive"` mode,
+   * such as `{ name: "scrypt", N: 65536 }`. Recorded (with a random salt)
+   * in the store's metadata, so every device derives the same key;
+   * existing slots keep their recorded parameters. Takes precedence over
+   * `kdfIterations`.
+   *
+   * @default { name: "PBKDF2", iterations: 100000 }
+   */
+  kdf?: KdfSettings;
+
+  /**
+   * Called with the fraction done (0 to 1) while a key is derived from a
+   * password, e.g. to show a progress bar on the unlock screen.
+   */
+  onKdfProgress?: KdfProgress;
+
+  /**
+   * What each document's ciphertext is bound to, as AES-GCM associated data.
+   * A payload copied to another document then fails to decrypt.
+   *
+   * - `"id"` (default): the full id, so a payload cannot move to another
+   *   document or table.
+   * - `"table"`: the table only, so a payload can move between ids within
+   *   its table but not to another table.
+   *
+   * Recorded in the metadata of new stores; existing stores keep theirs.
+   *
+   * @default "id"
+   */
+  binding?: "id" | "table";
+
+  /**
+   * Also accept documents written before ciphertexts were bound to their
+   * id. They are bound the next time they are written, or all at once with
+   * bindAllDocuments(). Set to false once every document is bound.
+   *
+   * @default true
+   */
+  allowUnboundDocuments?: boolean;
+
+  /**
+   * Store documents under keyed-HMAC ids instead of `${table}_${id}`, so
+   * that table names and ids are not readable in the database or on the
+   * remote. The real table and id are kept inside the encrypted payload.
+   *
+   * Can only be enabled when a store is created. It is recorded in the
+   * store's metadata, so other devices don't need the option.
+   *
+   * @default false
+   */
+  encryptIds?: boolean;
+
+  /**
+   * Size in bytes of the chunks attachments are encrypted in. Each chunk is
+   * read, encrypted and stored separately.
+   *
+   * @default 524288 (512 KiB)
+   */
+  attachmentChunkSize?: number;
+
+  /**
+   * Lock the store (see lock()) after this many milliseconds without an API
+   * call. Changes arriving from sync don't count as activity.
+   */
+  autoLockAfterMs?: number;
+
+  /**
+   * Sign every document this device writes, as this author (such as
+   * `"alice-phone"`). The device gets its own ECDSA key, kept in a local
+   * document that never syncs, and trusts it under this name. Documents
+   * signed with a trusted key (see trustSigner()) are read with `_author`
+   * set; those with a bad or untrusted signature go to onError with a
+   * SignatureError.
+   */
+  signAs?: string;
+
+  /**
+   * Also treat unsigned documents as unverifiable.
+   *
+   * @default false
+   */
+  requireSignatures?: boolean;
+
+  /**
+   * Fields to keep a blind index of, by table, such as
+   * `{ expenses: ["category"] }`. Each document stores keyed-HMAC tokens of
+   * these fields' values, so findBy() can find it without decrypting the
+   * database. The server can tell which documents have equal values in
+   * these fields, but not the values.
+   */
+  blindIndexes?: Record<string, string[]>;
+
+  /**
+   * How many documents loadAll(), getAll() and findBy() decrypt at a time.
+   *
+   * @default 8
+   */
+  decryptConcurrency?: number;
+
+  /**
+   * Decrypt documents for loadAll(), getAll() and findBy() off the main
+   * thread, such as with a WorkerDecryptionPool. Documents it can't decrypt
+   * are retried on the main thread, so errors are reported the same way.
+   * The store doesn't terminate the pool.
+   */
+  decryptionPool?: DecryptionPool;
+
+  /**
+   * Schema migrations by table, such as `{ expenses: [v0ToV1, v1ToV2] }`.
+   * A table's schema version is its number of steps, and each document
+   * records the version it was written at inside its encrypted payload
+   * (documents written before are at version 0). Outdated documents are
+   * upgraded as they are read (see migrateAll()). Documents written by a
+   * newer version of the app go to onError with a SchemaVersionError, and
+   * writing over them throws it.
+   */
+  migrations?: Record<string, Migration[]>;
+
+  /**
+   * Write documents upgraded on read back to the database, at the revision
+   * they were read at (a conflicting write wins).
+   *
+   * @default false
+   */
+  writeBackMigrations?: boolean;
+
+  /**
+   * Move deleted documents to a trash instead of deleting them. Trashed
+   * documents are marked inside their encrypted payload, so every device
+   * hides them (even without this option), and can be listed with
+   * listTrash() and brought back with restoreFromTrash().
+   *
+   * @default false
+   */
+  trash?: boolean;
+
+  /**
+   * How long trashed documents are kept, in ms. Older ones are deleted for
+   * good when loadAll() runs, and by the expiry sweeper afterwards. Use
+   * Infinity to keep them until emptyTrash().
+   *
+   * @default 2592000000 (30 days)
+   */
+  trashRetentionMs?: number;
 }
 
+/** A document decrypted in a batch, or why it couldn't be */
+type DecryptOutcome = { doc: Doc } | { error: Error };
+
 interface EncryptedDoc {
   _id: string;
   _rev?: string;
   d: string;
+  /** Encrypted attachment chunks (see attachments.ts) */
+  _attachments?: PouchDB.Core.Attachments;
+  /** Id of the key that signed the document (see signAs) */
+  a?: string;
+  /** Signature of the id and `d` */
+  s?: string;
+  /** Blind index tokens (see blindIndex.ts) */
+  i?: string[];
+}
+
+interface Tombstone {
+  _id: string;
+  _rev: string;
+  _deleted: true;
+  /** With encrypted ids: the real table and id, encrypted */
+  d?: string;
 }
 
+/**
+ * The changes of one putMany() or deleteMany(), collected from the change
+ * feed so that the listener gets them in one call
+ */
+interface BulkWrite {
+  /** Stored ids whose change hasn't been handled yet */
+  pending: Set<string>;
+  changed: Doc[];
+  deleted: Doc[];
+}
+
+/** Local-only (never synced) record of an unfinished password change */
+interface PasswordChangeCheckpoint {
+  _id: string;
+  _rev?: string;
+  newKeyId: string;
+  lastId: string | null;
+  processed: number;
+  reencrypted: number;
+}
+
+const PASSWORD_CHANGE_CHECKPOINT_ID = "_local/encrypted-store-password-change";
+
+/**
+ * A table key, encrypted by its owner for another user's identity. Synced,
+ * so that the recipient's store can read the table once it has accepted
+ * the share. Stored as `${SHARE_DOC_PREFIX}${table}:${recipientKeyId}`.
+ */
+interface TableShare extends WrappedTableKey {
+  _id: string;
+  _rev?: string;
+  /** The recipient's public key */
+  publicKey: string;
+}
+
+const SHARE_DOC_PREFIX = "encrypted-store-share:";
+const ACCEPTED_SHARES_ASSOCIATED_DATA = "encrypted-store-accepted-shares";
+
+/** Local-only: this device's signing key */
+const SIGNING_KEY_DOC_ID = "_local/encrypted-store-signing-key";
+const SIGNERS_ASSOCIATED_DATA = "encrypted-store-signers";
+
+/** The data key, encrypted under a key derived from one secret */
+interface KeySlot {
+  id: string;
+  passphraseMode: "derive" | "raw";
+  /** Salt and cost for "derive" mode */
+  kdf?: KdfParams;
+  wrappedKey: string;
+}
+
+/**
+ * Store-level metadata. Synced like a regular document so that every device
+ * uses the same key. Its id contains no "_", so it can never collide
+ * with a `${table}_${id}` document.
+ */
+interface StoreMeta {
+  _id: string;
+  _rev?: string;
+  /**
+   * 1: documents are encrypted with the key derived from the password.
+   * 2: documents are encrypted with a random data key held in key slots.
+   */
+  version: 1 | 2;
+  /** Version 1 only */
+  passphraseMode?: "derive" | "raw";
+  /** Version 1 only: salt and cost for "derive" mode */
+  kdf?: KdfParams;
+  /** Version 2 only */
+  keySlots?: KeySlot[];
+  /** Data or table keys being rotated out, wrapped under the current data key */
+  retiredKeys?: string[];
+  /** Set while documents are moved off the legacy unsalted key */
+  legacyMigration?: boolean;
+  /** A known value encrypted with the data key, to detect a wrong key */
+  verifier?: string;
+  /** What document ciphertexts are bound to (unset: the store's option) */
+  binding?: "id" | "table";
+  /** With encrypted ids: the HMAC key for ids, wrapped under the data key */
+  idKey?: string;
+  /** Keypair others share tables with, created by getPublicKey() */
+  identity?: StoredIdentity;
+  /** Keys of the tables this store shares, wrapped under the data key */
+  tableKeys?: Record<string, string>;
+  /**
+   * Owner public keys of the shared tables this store accepted, by table,
+   * as JSON encrypted under the data key
+   */
+  acceptedShares?: string;
+  /** Trusted signers by key id, as JSON encrypted under the data key */
+  signers?: string;
+}
+
+const META_DOC_ID = "encrypted-store-meta";
+/** Times a metadata merge starts over when another instance got there first */
+const META_MERGE_RETRIES = 3;
+const PASSWORD_SLOT_ID = "password";
+const VERIFIER_PLAINTEXT = "encrypted-store-verifier";
+
+/** Crockford base32, without the easily confused I, L, O and U */
+const RECOVERY_KEY_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/** Documents read and decrypted at a time by iterate() and query() */
+const DEFAULT_SCAN_BATCH_SIZE = 100;
+
+const DEFAULT_TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Local (never synced) documents holding secondary indexes */
+const INDEX_DOC_PREFIX = "_local/encrypted-store-index:";
+
+/**
+ * Local documents holding the ids of documents by blind index token, one
+ * per token shard
+ */
+const TOKEN_INDEX_DOC_PREFIX = "_local/encrypted-store-blind-index:";
+
 export class EncryptedStore {
   private db: PouchDB.Database;
   private encryptionHelper: EncryptionHelper;
+  /** Older keys that may still be needed to read some documents */
+  private fallbackHelpers: EncryptionHelper[] = [];
+  private unlockedSlotId: string | null = null;
+  private password: string;
+  private readonly passphraseMode: "derive" | "raw";
+  private readonly kdfSettings: KdfSettings;
+  private readonly onKdfProgress: KdfProgress | undefined;
+  private binding: "id" | "table";
+  private readonly allowUnboundDocuments: boolean;
+  private readonly encryptIds: boolean;
+  private readonly attachmentChunkSize: number;
+  private readonly autoLockAfterMs: number | undefined;
+  private autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+  private locked = false;
+  /** Changes received while locked, by document id, delivered on unlock */
+  private pendingChanges = new Map<
+    string,
+    PouchDB.Core.ChangesResponseChange<any>
+  >();
+  /** Set when the store's ids are encrypted */
+  private idHasher: IdHasher | null = null;
+  private identity: Identity | null = null;
+  /** Keys of shared tables (ours or shared with us), by table */
+  private tableKeys = new Map<string, EncryptionHelper>();
+  private readonly signAs: string | undefined;
+  private readonly requireSignatures: boolean;
+  private signingKey: SigningKey | null = null;
+  /** By key id */
+  private trustedSigners = new Map<string, TrustedSigner>();
+  /** Owner public keys of accepted shares, by table */
+  private acceptedShares = new Map<string, string>();
+  private readonly blindIndexes: Record<string, string[]>;
+  /** By key id and table */
+  private blindIndexCache = new Map<string, Promise<BlindIndex>>();
+  /** By token shard, once read */
+  private tokenIndexes = new Map<string, TokenIndex>();
+  private readonly decryptConcurrency: number;
+  private readonly decryptionPool: DecryptionPool | undefined;
+  private readonly migrations: Record<string, Migration[]>;
+  private readonly writeBackMigrations: boolean;
+  private migrationWrites: Promise<void> = Promise.resolve();
+  /**
+   * Documents with an expiry, by stored id, as last seen. `purge` marks
+   * trashed documents, due when their retention ends; `swept` the ones the
+   * sweeper failed to delete, left to the change feed.
+   */
+  private expiries = new Map<
+    string,
+    {
+      table: string;
+      id: string;
+      rev: string;
+      expiresAt: number;
+      purge?: boolean;
+      swept?: boolean;
+    }
+  >();
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly trash: boolean;
+  private readonly trashRetentionMs: number;
+  private liveQueries = new Set<LiveQuery<any>>();
+  /** Issues of a document, by table (see table()) */
+  private validators = new Map<string, (doc: any) => ValidationIssue[]>();
+  /** Secondary indexes, by table and fields */
+  private secondaryIndexes = new Map<string, SecondaryIndex>();
+  private indexUpdates: Promise<void> = Promise.resolve();
+  /** An update of the indexes that hasn't started yet */
+  private queuedIndexUpdate: Promise<void> | null = null;
+  private initPromise: Promise<void> | null = null;
+  private metaRev: string | undefined;
   private listener: StoreListener;
   private changesHandler: PouchDB.Core.Changes<any> | null = null;
   private syncHandler: PouchDB.Replication.Sync<any> | null = null;
   private remoteUrl: string | null = null;
   private processingChain: Promise<void> = Promise.resolve();
+  private bulkWrites = new Set<BulkWrite>();
 
   constructor(
     db: PouchDB.Database,
@@ -94,17 +651,51 @@ export class EncryptedStore {
     options?: EncryptedStoreOptions,
   ) {
     this.db = db;
-    this.encryptionHelper = new EncryptionHelper(
-      password,
-      undefined,
-      options?.passphraseMode || "derive",
-    );
+    this.password = password;
+    this.passphraseMode = options?.passphraseMode || "derive";
+    this.kdfSettings = options?.kdf ?? {
+      name: "PBKDF2",
+      iterations: options?.kdfIterations,
+    };
+    this.onKdfProgress = options?.onKdfProgress;
+    this.binding = options?.binding || "id";
+    this.allowUnboundDocuments = options?.allowUnboundDocuments ?? true;
+    this.encryptIds = options?.encryptIds ?? false;
+    this.attachmentChunkSize =
+      options?.attachmentChunkSize ?? DEFAULT_ATTACHMENT_CHUNK_SIZE;
+    this.autoLockAfterMs = options?.autoLockAfterMs;
+    this.signAs = options?.signAs;
+    this.requireSignatures = options?.requireSignatures ?? false;
+    this.blindIndexes = options?.blindIndexes ?? {};
+    this.decryptConcurrency = options?.decryptConcurrency ?? 8;
+    this.decryptionPool = options?.decryptionPool;
+    this.migrations = options?.migrations ?? {};
+    this.writeBackMigrations = options?.writeBackMigrations ?? false;
+    this.trash = options?.trash ?? false;
+    this.trashRetentionMs =
+      options?.trashRetentionMs ?? DEFAULT_TRASH_RETENTION_MS;
+    this.encryptionHelper = this.createLegacyHelper(password);
     this.listener = listener || { onChange: () => {}, onDelete: () => {} };
   }
 
-  /** Load all documents and set up change detection */
+  /**
+   * Read the store metadata and verify the password.
+   *
+   * Throws InvalidPasswordError - before any document is read or written -
+   * if the password does not unlock the store. Other methods (including
+   * loadAll) open the store implicitly, and refuse to work until it opens.
+   */
+  async open(): Promise<void> {
+    await this.ensureInitialized();
+  }
+
+  /**
+   * Load all documents and set up change detection.
+   * Throws InvalidPasswordError if the password is wrong.
+   */
   async loadAll(): Promise<void> {
     try {
+      await this.ensureInitialized();
       const result = await this.db.allDocs({
         include_docs: true,
         conflicts: true,
@@ -113,139 +704,793 @@ export class EncryptedStore {
       const docs: Doc[] = [];
       const errors: DecryptionErrorEvent[] = [];
       const conflicts: ConflictInfo[] = [];
+      const expired: Doc[] = [];
 
-      for (const row of result.rows) {
-        if (!row.doc || row.id.startsWith("_design/")) continue;
-
-        const encryptedDoc = row.doc as EncryptedDoc & {
-          _conflicts?: string[];
-        };
+      const encryptedDocs = this.userDocs(result.rows) as (EncryptedDoc & {
+        _conflicts?: string[];
+      })[];
+      const outcomes = await this.decryptMany(encryptedDocs);
 
-        if (encryptedDoc.d) {
-          try {
-            const doc = await this.decryptDoc(encryptedDoc);
-            docs.push(doc);
-
-            // Check for conflicts
-            if (encryptedDoc._conflicts && encryptedDoc._conflicts.length > 0) {
-              const conflictInfo = await this.buildConflictInfo(
-                encryptedDoc._id,
-                encryptedDoc._rev!,
-                encryptedDoc._conflicts,
-                doc,
-              );
-              conflicts.push(conflictInfo);
+      for (const [index, encryptedDoc] of encryptedDocs.entries()) {
+        const outcome = outcomes[index];
+        try {
+          if ("error" in outcome) throw outcome.error;
+          this.trackExpiry(encryptedDoc._id, outcome.doc);
+          if (outcome.doc._trashedAt !== undefined) {
+            if (this.isPurgeable(outcome.doc)) {
+              // Purged below rather than by the sweeper
+              this.expiries.delete(encryptedDoc._id);
+              expired.push(outcome.doc);
             }
-          } catch (error) {
-            errors.push({
-              docId: encryptedDoc._id,
-              error: error instanceof Error ? error : new Error(String(error)),
-              rawDoc: encryptedDoc,
-            });
+            continue;
           }
+          // Expired: the sweeper deletes it
+          if (this.isHidden(outcome.doc)) continue;
+          const doc = this.validate(outcome.doc._table, outcome.doc);
+          docs.push(doc);
+
+          // Check for conflicts
+          if (encryptedDoc._conflicts && encryptedDoc._conflicts.length > 0) {
+            const conflictInfo = await this.buildConflictInfo(
+              encryptedDoc._id,
+              encryptedDoc._rev!,
+              encryptedDoc._conflicts,
+              doc,
+            );
+            conflicts.push(conflictInfo);
+          }
+        } catch (error) {
+          errors.push({
+            docId: encryptedDoc._id,
+            error: error instanceof Error ? error : new Error(String(error)),
+            rawDoc: encryptedDoc,
+          });
         }
       }
 
       if (docs.length > 0) {
-        this.listener.onChange(docs);
+        this.emitChange(docs);
       }
+      this.scheduleSweep();
       if (errors.length > 0 && this.listener.onError) {
         this.listener.onError(errors);
       }
       if (conflicts.length > 0 && this.listener.onConflict) {
         this.listener.onConflict(conflicts);
       }
+      if (expired.length > 0) {
+        await this.purge(expired);
+      }
     } catch (error) {
+      if (
+        error instanceof InvalidPasswordError ||
+        error instanceof StoreLockedError
+      ) {
+        throw error;
+      }
       console.error("[EncryptedStore] loadAll failed:", error);
     }
 
     this.setupSubscription();
   }
 
-  /** Create or update a document */
-  async put(table: string, doc: any): Promise<Doc> {
+  /**
+   * A typed handle on a table. A validator given here checks every write
+   * to the table (through the handle or not) before it is encrypted, and
+   * every document read from it after it is decrypted.
+   *
+   * @example
+   * const expenses = store.table<Expense>("expenses", {
+   *   validate: { type: "object", required: ["amount"], properties: { amount: { type: "number" } } },
+   * });
+   */
+  table<T extends object = Record<string, any>>(
+    name: string,
+    options: TableOptions<T> = {},
+  ): Table<T> {
+    if (options.validate) {
+      this.validators.set(name, compileValidator(options.validate));
+    }
+    return new Table<T>(this, name);
+  }
+
+  /**
+   * Create or update a document. A document with a `_rev` (as read) is
+   * only written if that is still its current revision: otherwise this
+   * throws ConflictError, unless `force` is set.
+   */
+  async put(table: string, doc: any, options: PutOptions = {}): Promise<Doc> {
+    await this.ensureInitialized();
+
     if (!doc._id) {
       doc._id =
         crypto.randomUUID?.() ||
         `${Date.now()}-${Math.random().toString(36).slice(2)}`;
     }
 
-    const fullId = `${table}_${doc._id}`;
-    const encryptedDoc = await this.encryptDoc(doc, fullId);
+    const fullId = await this.toStoredId(table, doc._id);
 
-    // Preserve _rev if document exists
+    // Preserve _rev and attachments if document exists
+    let existing: EncryptedDoc | null = null;
     try {
-      const existing = await this.db.get(fullId);
-      encryptedDoc._rev = existing._rev;
+      existing = (await this.db.get(fullId)) as EncryptedDoc;
     } catch {
       // Document doesn't exist, that's fine
     }
+    if (
+      !options.force &&
+      doc._rev !== undefined &&
+      doc._rev !== existing?._rev
+    ) {
+      throw this.conflictError(table, doc._id);
+    }
+    this.validate(table, doc);
+    const payload = existing
+      ? await this.readCurrent(table, doc._id, existing)
+      : null;
+    const files = existing ? await this.readFiles(existing) : undefined;
 
-    await this.db.put(encryptedDoc);
-
-    return { ...doc, _table: table };
-  }
-
-  /** Get a document by table and id */
-  async get(table: string, id: string): Promise<Doc | null> {
-    try {
-      const fullId = `${table}_${id}`;
-      const encryptedDoc = (await this.db.get(fullId, {
-        conflicts: true,
-      })) as EncryptedDoc & { _conflicts?: string[] };
-
-      const doc = await this.decryptDoc(encryptedDoc);
-
-      // Notify about conflicts if present
-      if (
-        encryptedDoc._conflicts &&
-        encryptedDoc._conflicts.length > 0 &&
-        this.listener.onConflict
-      ) {
-        const conflictInfo = await this.buildConflictInfo(
-          encryptedDoc._id,
-          encryptedDoc._rev!,
-          encryptedDoc._conflicts,
-          doc,
+    const encryptedDoc = await this.encryptDoc(
+      doc,
+      table,
+      fullId,
+      files,
+      this.expiryFor(options, payload),
+    );
+    if (existing) {
+      encryptedDoc._rev = existing._rev;
+      if (files) {
+        encryptedDoc._attachments = this.referencedAttachments(
+          existing._attachments,
+          files,
         );
-        this.listener.onConflict([conflictInfo]);
       }
-
-      return doc;
-    } catch {
-      return null;
     }
-  }
 
-  /** Delete a document */
-  async delete(table: string, id: string): Promise<void> {
-    const fullId = `${table}_${id}`;
+    let rev: string;
     try {
-      const doc = await this.db.get(fullId);
-      await this.db.remove(doc);
+      rev = (await this.db.put(encryptedDoc)).rev;
     } catch (error) {
-      console.warn(`[EncryptedStore] Could not delete ${fullId}:`, error);
+      // Written meanwhile
+      if ((error as { status?: number }).status === 409 && !options.force) {
+        throw this.conflictError(table, doc._id);
+      }
+      throw error;
     }
+
+    return { ...doc, _table: table, _rev: rev };
   }
 
   /**
-   * Delete all documents locally only.
-   * Automatically disconnects sync first to prevent deletions from propagating to remote.
-   * Use this when you want to clear local data only.
+   * Change a document with a function of its current version, and write
+   * the result at that version's revision. If another write gets in
+   * between, read it again and retry; after the last retry, throw
+   * ConflictError. Throws if the document doesn't exist.
+   *
+   * @example
+   * await store.update("expenses", "lunch", (doc) => ({ ...doc, amount: doc.amount + 5 }));
    */
-  async deleteAllLocal(): Promise<void> {
-    // Disconnect sync to ensure deletions stay local
-    this.disconnectRemote();
+  async update<T extends Doc = Doc>(
+    table: string,
+    id: string,
+    mutator: (doc: T) => T | Promise<T>,
+    options: UpdateOptions = {},
+  ): Promise<T> {
+    await this.ensureInitialized();
+    const fullId = await this.toStoredId(table, id);
+    const retries = options.retries ?? 3;
+
+    for (let attempt = 0; ; attempt++) {
+      let encryptedDoc: EncryptedDoc;
+      try {
+        encryptedDoc = (await this.db.get(fullId)) as EncryptedDoc;
+      } catch (error) {
+        if ((error as { status?: number }).status === 404) {
+          throw new Error(`Document "${id}" of table "${table}" not found`);
+        }
+        throw error;
+      }
+      const current = (await this.decryptDoc(encryptedDoc)) as T;
+      if (this.isHidden(current)) {
+        throw new Error(`Document "${id}" of table "${table}" not found`);
+      }
+      const next = await mutator(current);
+      try {
+        return (await this.put(table, {
+          ...next,
+          _id: id,
+          _rev: current._rev,
+        })) as T;
+      } catch (error) {
+        if (!(error instanceof ConflictError) || attempt >= retries) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Change some fields of a document (see update()). Fields set to
+   * undefined are removed.
+   */
+  async patch<T extends Doc = Doc>(
+    table: string,
+    id: string,
+    fields: Partial<T>,
+    options: PatchOptions = {},
+  ): Promise<T> {
+    return this.update<T>(
+      table,
+      id,
+      (doc) =>
+        (options.deep
+          ? this.mergeDeep(doc, fields)
+          : { ...doc, ...fields }) as T,
+      options,
+    );
+  }
+
+  /** Merge objects field by field; other values replace what they patch */
+  private mergeDeep(target: any, fields: any): any {
+    const isObject = (value: any) =>
+      typeof value === "object" && value !== null && !Array.isArray(value);
+    if (!isObject(target) || !isObject(fields)) return fields;
+    const merged = { ...target };
+    for (const [key, value] of Object.entries(fields)) {
+      merged[key] = this.mergeDeep(target[key], value);
+    }
+    return merged;
+  }
+
+  /**
+   * Create or update many documents of a table, with one read and one
+   * write. Results are in the order of the documents: each one is written
+   * or not on its own.
+   */
+  async putMany(
+    table: string,
+    docs: any[],
+    options: PutOptions = {},
+  ): Promise<BulkResult[]> {
+    await this.ensureInitialized();
+
+    for (const doc of docs) {
+      if (!doc._id) {
+        doc._id =
+          crypto.randomUUID?.() ||
+          `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      }
+    }
+    const fullIds = await Promise.all(
+      docs.map((doc) => this.toStoredId(table, doc._id)),
+    );
+
+    // Preserve _rev and attachments of existing documents
+    const existing = await this.db.allDocs({
+      keys: fullIds,
+      include_docs: true,
+    });
+    const encrypted = await Promise.all(
+      docs.map(async (doc, i) => {
+        const row = existing.rows[i] as { doc?: EncryptedDoc | null };
+        const current = row.doc ?? null;
+        try {
+          this.validate(table, doc);
+          const payload = current
+            ? await this.readCurrent(table, doc._id, current)
+            : null;
+          const files = current ? await this.readFiles(current) : undefined;
+          const encryptedDoc = await this.encryptDoc(
+            doc,
+            table,
+            fullIds[i],
+            files,
+            this.expiryFor(options, payload),
+          );
+          if (!options.force && doc._rev !== undefined) {
+            // bulkDocs rejects it if it is not current
+            encryptedDoc._rev = doc._rev;
+          } else if (current) {
+            encryptedDoc._rev = current._rev;
+          }
+          if (current) {
+            if (files) {
+              encryptedDoc._attachments = this.referencedAttachments(
+                current._attachments,
+                files,
+              );
+            }
+          }
+          return encryptedDoc;
+        } catch (error) {
+          return error instanceof Error ? error : new Error(String(error));
+        }
+      }),
+    );
+
+    return this.writeMany(
+      table,
+      docs.map((doc) => doc._id),
+      encrypted,
+    );
+  }
+
+  /**
+   * Delete many documents of a table (or move them to the trash, like
+   * delete()), with one read and one write. Results are in the order of
+   * the ids; missing documents fail with "not found".
+   */
+  async deleteMany(table: string, ids: string[]): Promise<BulkResult[]> {
+    await this.ensureInitialized();
+    const fullIds = await Promise.all(
+      ids.map((id) => this.toStoredId(table, id)),
+    );
+
+    const existing = await this.db.allDocs({
+      keys: fullIds,
+      include_docs: this.trash,
+    });
+    const tombstones = await Promise.all(
+      ids.map(async (id, i) => {
+        const row = existing.rows[i] as {
+          value?: { rev: string; deleted?: boolean };
+          doc?: EncryptedDoc | null;
+        };
+        if (!row.value || row.value.deleted) {
+          return new Error(`Document ${id} not found`);
+        }
+        const trashed = row.doc ? await this.moveToTrash(row.doc) : null;
+        return (
+          trashed ??
+          this.createTombstone(fullIds[i], row.value.rev, { table, id })
+        );
+      }),
+    );
+
+    return this.writeMany(table, ids, tombstones);
+  }
+
+  /**
+   * Write documents with one bulkDocs, and report each one by the user's
+   * id. Errors stand for documents that couldn't be prepared.
+   */
+  private async writeMany(
+    table: string,
+    ids: string[],
+    docs: (EncryptedDoc | Tombstone | Error)[],
+  ): Promise<BulkResult[]> {
+    const writes = docs.filter(
+      (doc): doc is EncryptedDoc | Tombstone => !(doc instanceof Error),
+    );
+    const bulk = this.startBulkWrite(writes.map((doc) => doc._id));
+    let responses: (PouchDB.Core.Response | PouchDB.Core.Error)[] = [];
+    try {
+      responses = writes.length > 0 ? await this.db.bulkDocs(writes) : [];
+    } catch (error) {
+      if (bulk) this.flushBulkWrite(bulk);
+      throw error;
+    }
+    if (bulk) {
+      const written = new Set(
+        writes
+          .filter((_, i) => "ok" in responses[i] && responses[i].ok)
+          .map((doc) => doc._id),
+      );
+      for (const doc of writes) {
+        if (!written.has(doc._id)) {
+          this.settleBulkWrites(doc._id, bulk);
+        }
+      }
+    }
+
+    let next = 0;
+    return docs.map((doc, i): BulkResult => {
+      if (doc instanceof Error) return { id: ids[i], ok: false, error: doc };
+      const response = responses[next++];
+      if ("ok" in response && response.ok) {
+        return { id: ids[i], ok: true, rev: response.rev };
+      }
+      const failure = response as PouchDB.Core.Error;
+      if (failure.status === 409) {
+        return {
+          id: ids[i],
+          ok: false,
+          error: this.conflictError(table, ids[i]),
+        };
+      }
+      const error = new Error(failure.message || failure.name);
+      error.name = failure.name ?? "Error";
+      return { id: ids[i], ok: false, error };
+    });
+  }
+
+  private conflictError(table: string, id: string): ConflictError {
+    return new ConflictError(
+      `Document "${id}" of table "${table}" was changed since it was read`,
+    );
+  }
+
+  /**
+   * Check a document's fields, without its id and store fields, against its
+   * table's validator, if any. Returns it if it is valid, throws
+   * ValidationError otherwise.
+   */
+  private validate<T extends { _id: string }>(table: string, doc: T): T {
+    const validator = this.validators.get(table);
+    if (!validator) return doc;
+    const { _id, _table, _rev, _author, _trashedAt, _expiresAt, ...fields } =
+      doc as Record<string, any>;
+    const issues = validator(fields);
+    if (issues.length > 0) {
+      throw new ValidationError(
+        `Document "${doc._id}" of table "${table}" is invalid: ` +
+          issues
+            .map(
+              (issue) => (issue.path ? `${issue.path} ` : "") + issue.message,
+            )
+            .join("; "),
+        issues,
+      );
+    }
+    return doc;
+  }
+
+  /** Get a document by table and id */
+  async get(table: string, id: string): Promise<Doc | null> {
+    try {
+      await this.ensureInitialized();
+      const fullId = await this.toStoredId(table, id);
+      const encryptedDoc = (await this.db.get(fullId, {
+        conflicts: true,
+      })) as EncryptedDoc & { _conflicts?: string[] };
+
+      const doc = await this.decryptDoc(encryptedDoc);
+      if (this.isHidden(doc)) return null;
+      try {
+        this.validate(table, doc);
+      } catch (error) {
+        this.listener.onError?.([
+          { docId: fullId, error: error as Error, rawDoc: encryptedDoc },
+        ]);
+        return null;
+      }
+
+      // Notify about conflicts if present
+      if (
+        encryptedDoc._conflicts &&
+        encryptedDoc._conflicts.length > 0 &&
+        this.listener.onConflict
+      ) {
+        const conflictInfo = await this.buildConflictInfo(
+          encryptedDoc._id,
+          encryptedDoc._rev!,
+          encryptedDoc._conflicts,
+          doc,
+        );
+        this.listener.onConflict([conflictInfo]);
+      }
+
+      return doc;
+    } catch (error) {
+      if (
+        error instanceof InvalidPasswordError ||
+        error instanceof StoreLockedError
+      ) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Attach a file to an existing document, replacing any attachment with the
+   * same name. It is encrypted in chunks with its own random key and stored
+   * as PouchDB attachments, so it replicates with the document. Attachments
+   * are never part of the documents passed to onChange.
+   */
+  async putAttachment(
+    table: string,
+    id: string,
+    name: string,
+    data: Blob | Uint8Array,
+  ): Promise<void> {
+    await this.ensureInitialized();
+    const fullId = await this.toStoredId(table, id);
+
+    const manifest =
+      data instanceof Uint8Array
+        ? createManifest(
+            "application/octet-stream",
+            data.length,
+            this.attachmentChunkSize,
+          )
+        : createManifest(
+            data.type || "application/octet-stream",
+            data.size,
+            this.attachmentChunkSize,
+          );
+
+    // Each chunk is written as soon as it is encrypted, and the manifest
+    // last: until then, no document refers to the new chunks
+    try {
+      let rev = (await this.db.get(fullId))._rev;
+      for (let i = 0; i < manifest.chunks; i++) {
+        const chunk = await encryptChunk(
+          manifest,
+          i,
+          await readChunk(data, manifest, i),
+        );
+        const result = await this.db.putAttachment(
+          fullId,
+          chunkName(manifest, i),
+          rev,
+          toBase64(chunk),
+          "application/octet-stream",
+        );
+        rev = result.rev;
+      }
+    } catch (error) {
+      // Drop the chunks written so far
+      await this.updateFiles(fullId, (files) => files).catch(() => {});
+      throw error;
+    }
+
+    await this.updateFiles(fullId, (files) => ({ ...files, [name]: manifest }));
+  }
+
+  /**
+   * Read an attachment. Returns null if the document or attachment doesn't
+   * exist. Throws DecryptionError if it was tampered with.
+   */
+  async getAttachment(
+    table: string,
+    id: string,
+    name: string,
+  ): Promise<Blob | null> {
+    await this.ensureInitialized();
+    const fullId = await this.toStoredId(table, id);
+    let encryptedDoc: EncryptedDoc;
+    try {
+      encryptedDoc = (await this.db.get(fullId)) as EncryptedDoc;
+    } catch {
+      return null;
+    }
+    const manifest = (await this.readFiles(encryptedDoc))?.[name];
+    if (!manifest) return null;
+
+    const parts: BlobPart[] = [];
+    for (let i = 0; i < manifest.chunks; i++) {
+      parts.push(
+        (await this.readAttachmentChunk(encryptedDoc, manifest, i)) as BlobPart,
+      );
+    }
+    return new Blob(parts, { type: manifest.type });
+  }
+
+  /**
+   * Read an attachment as a stream, decrypting one chunk at a time as it is
+   * consumed, so a large file is never held in memory at once. Returns null
+   * if the document or attachment doesn't exist. The stream errors with
+   * DecryptionError if a chunk was tampered with.
+   */
+  async getAttachmentStream(
+    table: string,
+    id: string,
+    name: string,
+  ): Promise<ReadableStream<Uint8Array> | null> {
+    await this.ensureInitialized();
+    const fullId = await this.toStoredId(table, id);
+    let encryptedDoc: EncryptedDoc;
+    try {
+      encryptedDoc = (await this.db.get(fullId)) as EncryptedDoc;
+    } catch {
+      return null;
+    }
+    const manifest = (await this.readFiles(encryptedDoc))?.[name];
+    if (!manifest) return null;
+
+    let index = 0;
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        controller.enqueue(
+          await this.readAttachmentChunk(encryptedDoc, manifest, index++),
+        );
+        if (index === manifest.chunks) controller.close();
+      },
+    });
+  }
+
+  /**
+   * Read and decrypt one chunk of an attachment, at the revision the
+   * document was read at
+   */
+  private async readAttachmentChunk(
+    encryptedDoc: EncryptedDoc,
+    manifest: AttachmentManifest,
+    index: number,
+  ): Promise<Uint8Array> {
+    let stored: Blob | Uint8Array;
+    try {
+      stored = (await this.db.getAttachment(
+        encryptedDoc._id,
+        chunkName(manifest, index),
+        { rev: encryptedDoc._rev },
+      )) as Blob | Uint8Array;
+    } catch {
+      throw new DecryptionError(
+        `Could not decrypt: attachment chunk ${index} is missing`,
+      );
+    }
+    const bytes =
+      stored instanceof Uint8Array
+        ? stored
+        : new Uint8Array(await stored.arrayBuffer());
+    return decryptChunk(manifest, index, bytes);
+  }
+
+  /** List the attachments of a document */
+  async listAttachments(table: string, id: string): Promise<AttachmentInfo[]> {
+    await this.ensureInitialized();
+    const fullId = await this.toStoredId(table, id);
+    let encryptedDoc: EncryptedDoc;
+    try {
+      encryptedDoc = (await this.db.get(fullId)) as EncryptedDoc;
+    } catch {
+      return [];
+    }
+    const files = (await this.readFiles(encryptedDoc)) ?? {};
+    return Object.entries(files).map(([name, manifest]) => ({
+      name,
+      type: manifest.type,
+      size: manifest.size,
+    }));
+  }
+
+  /** Remove an attachment from a document */
+  async deleteAttachment(
+    table: string,
+    id: string,
+    name: string,
+  ): Promise<void> {
+    await this.ensureInitialized();
+    const fullId = await this.toStoredId(table, id);
+    await this.updateFiles(fullId, (files) => {
+      const { [name]: _removed, ...rest } = files;
+      return rest;
+    });
+  }
+
+  /**
+   * Delete a document, or move it to the trash if `trash` is set. Deleting
+   * a document that is in the trash deletes it for good.
+   */
+  async delete(table: string, id: string): Promise<void> {
+    await this.ensureInitialized();
+    const fullId = await this.toStoredId(table, id);
+    try {
+      const doc = (await this.db.get(fullId)) as EncryptedDoc;
+      const trashed = this.trash ? await this.moveToTrash(doc) : null;
+      await this.db.put(
+        trashed ??
+          (await this.createTombstone(fullId, doc._rev!, { table, id })),
+      );
+    } catch (error) {
+      console.warn(`[EncryptedStore] Could not delete ${fullId}:`, error);
+    }
+  }
+
+  /**
+   * The documents in the trash (see the `trash` option), of a table or all,
+   * most recently deleted first. `_trashedAt` says when.
+   */
+  async listTrash(table?: string): Promise<Doc[]> {
+    await this.ensureInitialized();
+    const prefix =
+      table !== undefined ? await this.tablePrefix(table) : undefined;
+    const result = await this.db.allDocs({
+      include_docs: true,
+      ...(prefix !== undefined
+        ? { startkey: prefix, endkey: `${prefix}\ufff0` }
+        : {}),
+    });
+    // Unreadable documents are reported by the reads that skip them
+    const outcomes = await this.decryptMany(this.userDocs(result.rows));
+    return outcomes
+      .flatMap((outcome) =>
+        "doc" in outcome &&
+        outcome.doc._trashedAt !== undefined &&
+        (table === undefined || outcome.doc._table === table)
+          ? [outcome.doc]
+          : [],
+      )
+      .sort((a, b) => b._trashedAt! - a._trashedAt!);
+  }
+
+  /** Take a document out of the trash, as it was when it was deleted */
+  async restoreFromTrash(table: string, id: string): Promise<Doc> {
+    await this.ensureInitialized();
+    const fullId = await this.toStoredId(table, id);
+    let current: EncryptedDoc | null = null;
+    try {
+      current = (await this.db.get(fullId)) as EncryptedDoc;
+    } catch {
+      // Not in the trash either
+    }
+    const payload = current ? await this.readPayload(current) : null;
+    if (!current || payload?._trashed === undefined) {
+      throw new Error(
+        `Document "${id}" of table "${table}" is not in the trash`,
+      );
+    }
+
+    const { _trashed, ...restored } = payload;
+    restored._t = Date.now();
+    const { rev } = await this.db.put(await this.rewrite(current, restored));
+    const { _trashedAt, ...doc } = await this.decryptDoc(current, restored);
+    return { ...doc, _rev: rev };
+  }
+
+  /**
+   * Delete the documents in the trash for good, of a table or all. Returns
+   * how many were deleted; documents restored meanwhile are kept.
+   */
+  async emptyTrash(table?: string): Promise<number> {
+    return this.purge(await this.listTrash(table));
+  }
+
+  /**
+   * A document moved to the trash, or null if it already is (or can't be
+   * read) and should be deleted for good
+   */
+  private async moveToTrash(
+    current: EncryptedDoc,
+  ): Promise<EncryptedDoc | null> {
+    let payload: Record<string, any>;
+    try {
+      payload = await this.readPayload(current);
+    } catch {
+      return null;
+    }
+    if (payload._trashed !== undefined) return null;
+    const now = Date.now();
+    return this.rewrite(current, { ...payload, _trashed: now, _t: now });
+  }
+
+  /** Whether a trashed document has been kept long enough */
+  private isPurgeable(doc: Doc): boolean {
+    return this.trash && Date.now() - doc._trashedAt! >= this.trashRetentionMs;
+  }
+
+  /**
+   * Delete trashed documents for good, at the revision they were read at:
+   * a document restored since (on any device) is kept
+   */
+  private async purge(docs: Doc[]): Promise<number> {
+    if (docs.length === 0) return 0;
+    const tombstones = await Promise.all(
+      docs.map(async (doc) =>
+        this.createTombstone(
+          await this.toStoredId(doc._table, doc._id),
+          doc._rev!,
+          { table: doc._table, id: doc._id },
+        ),
+      ),
+    );
+    const results = await this.db.bulkDocs(tombstones);
+    return results.filter((result) => "ok" in result && result.ok).length;
+  }
 
-    const result = await this.db.allDocs({ include_docs: false });
+  /**
+   * Delete all documents locally only.
+   * Automatically disconnects sync first to prevent deletions from propagating to remote.
+   * Use this when you want to clear local data only.
+   */
+  async deleteAllLocal(): Promise<void> {
+    if (this.locked) throw new StoreLockedError();
+    // Disconnect sync to ensure deletions stay local
+    this.disconnectRemote();
 
-    const docsToDelete = result.rows
-      .filter((row) => !row.id.startsWith("_design/"))
-      .map((row) => ({
-        _id: row.id,
-        _rev: row.value.rev,
-        _deleted: true,
-      }));
+    const docsToDelete = await this.createAllTombstones();
 
     if (docsToDelete.length > 0) {
       await this.db.bulkDocs(docsToDelete);
@@ -258,21 +1503,14 @@ export class EncryptedStore {
    * Throws an error if sync is not connected.
    */
   async deleteAllAndSync(): Promise<void> {
+    if (this.locked) throw new StoreLockedError();
     if (!this.syncHandler) {
       throw new Error(
         "Sync is not connected. Call connectRemote() first or use deleteAllLocal() instead.",
       );
     }
 
-    const result = await this.db.allDocs({ include_docs: false });
-
-    const docsToDelete = result.rows
-      .filter((row) => !row.id.startsWith("_design/"))
-      .map((row) => ({
-        _id: row.id,
-        _rev: row.value.rev,
-        _deleted: true,
-      }));
+    const docsToDelete = await this.createAllTombstones();
 
     if (docsToDelete.length === 0) {
       return; // Nothing to delete
@@ -323,34 +1561,97 @@ export class EncryptedStore {
     });
   }
 
-  /** Get all documents (optionally filtered by table) */
-  async getAll(table?: string): Promise<Doc[]> {
-    const result = await this.db.allDocs({
-      include_docs: true,
-      conflicts: true,
-    });
-
+  /**
+   * Get all documents (optionally of one table), in id order. Only the
+   * table's documents are read, so `limit` and `startAfter` can page
+   * through it.
+   */
+  async getAll(table?: string, options: ScanOptions = {}): Promise<Doc[]> {
     const docs: Doc[] = [];
     const errors: DecryptionErrorEvent[] = [];
+    for await (const page of this.scan(table, options, options.limit)) {
+      docs.push(...page.docs);
+      errors.push(...page.errors);
+    }
 
-    for (const row of result.rows) {
-      if (!row.doc || row.id.startsWith("_design/")) continue;
+    if (errors.length > 0 && this.listener.onError) {
+      this.listener.onError(errors);
+    }
 
-      const encryptedDoc = row.doc as EncryptedDoc;
+    return docs;
+  }
 
-      if (encryptedDoc.d) {
-        try {
-          const doc = await this.decryptDoc(encryptedDoc);
-          if (!table || doc._table === table) {
-            docs.push(doc);
-          }
-        } catch (error) {
-          errors.push({
-            docId: encryptedDoc._id,
-            error: error instanceof Error ? error : new Error(String(error)),
-            rawDoc: encryptedDoc,
-          });
+  /**
+   * Iterate over the documents of a table in id order, reading and
+   * decrypting a batch at a time, for tables too large to hold at once.
+   * Documents that can't be decrypted go to onError, a batch at a time.
+   */
+  async *iterate(
+    table: string,
+    options: IterateOptions = {},
+  ): AsyncGenerator<Doc, void, undefined> {
+    for await (const page of this.scan(
+      table,
+      options,
+      options.batchSize ?? DEFAULT_SCAN_BATCH_SIZE,
+    )) {
+      if (page.errors.length > 0 && this.listener.onError) {
+        this.listener.onError(page.errors);
+      }
+      yield* page.docs;
+    }
+  }
+
+  /**
+   * Find the documents of a table whose field equals a value, with the
+   * field's blind index (see `blindIndexes`). Documents written before the
+   * field was indexed are only found after rebuildBlindIndexes().
+   */
+  async findBy(table: string, field: string, value: unknown): Promise<Doc[]> {
+    await this.ensureInitialized();
+    if (!this.blindIndexes[table]?.includes(field)) {
+      throw new Error(`Field "${field}" of table "${table}" is not indexed`);
+    }
+    const index = await this.getBlindIndex(table);
+    const token = await index.token(field, value);
+    const update = this.indexUpdates.then(() =>
+      this.updateTokenIndex(tokenShard(token)),
+    );
+    this.indexUpdates = update.then(
+      () => {},
+      () => {},
+    );
+    const ids = (await update).lookup(token);
+    const rows =
+      ids.length > 0
+        ? (await this.db.allDocs({ keys: ids, include_docs: true })).rows
+        : [];
+
+    const docs: Doc[] = [];
+    const errors: DecryptionErrorEvent[] = [];
+    const encryptedDocs = this.userDocs(
+      rows.flatMap((row) => ("error" in row ? [] : [row])),
+    );
+    const outcomes = await this.decryptMany(encryptedDocs);
+    for (const [index, encryptedDoc] of encryptedDocs.entries()) {
+      const outcome = outcomes[index];
+      try {
+        if ("error" in outcome) throw outcome.error;
+        // Tokens are truncated: make sure it is a real match
+        const doc = outcome.doc;
+        if (
+          doc._table === table &&
+          !this.isHidden(doc) &&
+          JSON.stringify(doc[field]) === JSON.stringify(value)
+        ) {
+          docs.push(this.validate(table, doc));
         }
+      } catch (error) {
+        errors.push({
+          docId: encryptedDoc._id,
+          error: error as Error,
+          rawDoc: encryptedDoc,
+        });
       }
     }
 
@@ -363,6 +1664,7 @@ export class EncryptedStore {
 
   /** Connect to remote CouchDB for sync */
   async connectRemote(options: RemoteOptions): Promise<void> {
+    await this.ensureInitialized();
     this.disconnectRemote();
 
     this.remoteUrl = options.url;
@@ -434,6 +1736,7 @@ export class EncryptedStore {
    * Returns a promise that resolves when the sync completes.
    */
   async syncNow(): Promise<void> {
+    await this.ensureInitialized();
     if (!this.remoteUrl) {
       throw new Error(
         "No remote connection configured. Call connectRemote() first.",
@@ -488,7 +1791,8 @@ export class EncryptedStore {
     id: string,
     winningDoc: Doc,
   ): Promise<void> {
-    const fullId = `${table}_${id}`;
+    await this.ensureInitialized();
+    const fullId = await this.toStoredId(table, id);
 
     const doc = (await this.db.get(fullId, { conflicts: true })) as any;
 
@@ -497,7 +1801,7 @@ export class EncryptedStore {
     }
 
     // Update with winning document
-    await this.put(table, winningDoc);
+    await this.put(table, winningDoc, { force: true });
 
     // Remove all conflicting revisions
     for (const rev of doc._conflicts) {
@@ -515,7 +1819,8 @@ export class EncryptedStore {
     id: string,
   ): Promise<ConflictInfo | null> {
     try {
-      const fullId = `${table}_${id}`;
+      await this.ensureInitialized();
+      const fullId = await this.toStoredId(table, id);
       const encryptedDoc = (await this.db.get(fullId, {
         conflicts: true,
       })) as EncryptedDoc & { _conflicts?: string[] };
@@ -532,160 +1837,3080 @@ export class EncryptedStore {
         encryptedDoc._conflicts,
         doc,
       );
-    } catch {
+    } catch (error) {
+      if (
+        error instanceof InvalidPasswordError ||
+        error instanceof StoreLockedError
+      ) {
+        throw error;
+      }
       return null;
     }
   }
 
-  /** Re-subscribe to changes (useful after disconnect/reconnect) */
-  reconnect(): void {
-    if (this.changesHandler) {
-      this.changesHandler.cancel();
-      this.changesHandler = null;
+  /**
+   * The revisions of a document the database still has, newest first,
+   * decrypted. Follows the winning branch, including a deletion. Older
+   * revisions are gone after compaction, and revisions synced from
+   * elsewhere may only include the latest one. Revisions that can't be
+   * decrypted are left out and go to onError.
+   */
+  async history(table: string, id: string): Promise<DocRevision[]> {
+    await this.ensureInitialized();
+    const fullId = await this.toStoredId(table, id);
+
+    type Leaf = EncryptedDoc & {
+      _deleted?: boolean;
+      _revisions: { start: number; ids: string[] };
+    };
+    let leaves: { ok?: Leaf }[];
+    try {
+      leaves = (await this.db.get(fullId, {
+        open_revs: "all",
+        revs: true,
+      })) as unknown as { ok?: Leaf }[];
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) return [];
+      throw error;
     }
-    this.setupSubscription();
+    // The branch PouchDB picks: not deleted, then longest, then highest rev
+    const [winner] = leaves
+      .flatMap((leaf) => (leaf.ok ? [leaf.ok] : []))
+      .sort(
+        (a, b) =>
+          Number(!!a._deleted) - Number(!!b._deleted) ||
+          b._revisions.start - a._revisions.start ||
+          (a._rev! < b._rev! ? 1 : -1),
+      );
+    if (!winner) return [];
+
+    const revisions: DocRevision[] = [];
+    const errors: DecryptionErrorEvent[] = [];
+    const { start, ids } = winner._revisions;
+    for (const [i, hash] of ids.entries()) {
+      const rev = `${start - i}-${hash}`;
+      let encryptedDoc: EncryptedDoc & { _deleted?: boolean };
+      try {
+        encryptedDoc = await this.db.get(fullId, { rev });
+      } catch {
+        // Compacted
+        continue;
+      }
+      if (encryptedDoc._deleted || !encryptedDoc.d) {
+        revisions.push({ rev, deleted: true, doc: null });
+        continue;
+      }
+      try {
+        const payload = await this.readPayload(encryptedDoc);
+        revisions.push({
+          rev,
+          ...(typeof payload._t === "number" ? { timestamp: payload._t } : {}),
+          deleted: false,
+          doc: await this.decryptDoc(encryptedDoc, payload),
+        });
+      } catch (error) {
+        errors.push({
+          docId: fullId,
+          error: error instanceof Error ? error : new Error(String(error)),
+          rawDoc: encryptedDoc,
+        });
+      }
+    }
+
+    if (errors.length > 0 && this.listener.onError) {
+      this.listener.onError(errors);
+    }
+    return revisions;
   }
 
-  private setupSubscription(): void {
-    this.changesHandler = this.db
-      .changes({
-        since: "now",
-        live: true,
-        include_docs: true,
-        conflicts: true,
-      })
-      .on("change", (change) => {
-        this.processingChain = this.processingChain
-          .then(() => this.handleChange(change))
-          .catch((err) =>
-            console.error("[EncryptedStore] handleChange error:", err),
-          );
-      })
-      .on("error", (err) => {
-        console.error("[EncryptedStore] changes feed error:", err);
-      });
+  /**
+   * Write an older revision (see history()) as the document's new current
+   * version, even if it was deleted since. Restores the fields; the
+   * current attachments are kept.
+   */
+  async restore(table: string, id: string, rev: string): Promise<Doc> {
+    await this.ensureInitialized();
+    const fullId = await this.toStoredId(table, id);
+
+    let encryptedDoc: EncryptedDoc & { _deleted?: boolean };
+    try {
+      encryptedDoc = await this.db.get(fullId, { rev });
+    } catch {
+      throw new Error(
+        `Revision ${rev} of document "${id}" of table "${table}" is not available`,
+      );
+    }
+    if (encryptedDoc._deleted || !encryptedDoc.d) {
+      throw new Error(
+        `Revision ${rev} of document "${id}" of table "${table}" is a deletion`,
+      );
+    }
+
+    const { _rev, _author, ...doc } = await this.decryptDoc(encryptedDoc);
+    return this.put(table, doc);
   }
 
-  private async handleChange(
-    change: PouchDB.Core.ChangesResponseChange<any>,
+  /**
+   * Change the password. By default this also replaces the data key and
+   * re-encrypts every document, so a key taken from a lost device stops
+   * working for new data. The rotation throws if the store has other key
+   * slots, unless `removeOtherKeySlots` is set.
+   *
+   * Progress is checkpointed after every batch. If the process is
+   * interrupted (e.g. the tab is closed), reopen the store with the new
+   * password and call this again with the same passwords to resume. Since
+   * the rotation state is synced, it can also be resumed on another device.
+   *
+   * Other devices keep using the old key until they are reopened with the new
+   * password.
+   */
+  async changePassword(
+    oldPassword: string,
+    newPassword: string,
+    options: ChangePasswordOptions = {},
   ): Promise<void> {
-    if (change.id.startsWith("_design/")) return;
+    await this.ensureInitialized();
 
-    const encryptedDoc = change.doc as
-      | (EncryptedDoc & { _conflicts?: string[] })
-      | undefined;
+    if (!(await this.getMeta())) {
+      return this.changeLegacyPassword(oldPassword, newPassword, options);
+    }
 
-    // Deletion
-    if (change.deleted || !encryptedDoc?.d) {
-      const parsed = this.parseFullId(change.id);
-      if (parsed) {
-        this.listener.onDelete([{ _id: parsed.id, _table: parsed.table }]);
-      }
+    const meta = await this.ensureKeySlotMeta();
+    const currentKeyId = await this.encryptionHelper.getKeyId();
+
+    if (meta.retiredKeys?.length) {
+      // Resuming: the new password already unlocks the new data key
+      await this.findKeySlot(meta, newPassword, currentKeyId);
+      this.password = newPassword;
+      await this.finishKeyRotation(meta, options);
       return;
     }
 
-    // Changed/added document
-    const errors: DecryptionErrorEvent[] = [];
-    const conflicts: ConflictInfo[] = [];
+    const slot = await this.findKeySlot(meta, oldPassword, currentKeyId);
+    const slotOptions = {
+      passphraseMode: slot.passphraseMode,
+      kdf: slot.kdf,
+    };
 
-    try {
-      const doc = await this.decryptDoc(encryptedDoc);
+    if (options.rotateKey === false) {
+      const newSlot = await this.createKeySlot(
+        slot.id,
+        newPassword,
+        this.encryptionHelper,
+        slotOptions,
+      );
+      meta.keySlots = meta.keySlots!.map((s) =>
+        s.id === slot.id ? newSlot : s,
+      );
+      await this.saveMeta(meta);
+      this.password = newPassword;
+      return;
+    }
 
-      // Check for conflicts
-      if (encryptedDoc._conflicts && encryptedDoc._conflicts.length > 0) {
-        const conflictInfo = await this.buildConflictInfo(
-          encryptedDoc._id,
-          encryptedDoc._rev!,
-          encryptedDoc._conflicts,
-          doc,
-        );
-        conflicts.push(conflictInfo);
-      }
+    const otherSlots = meta.keySlots!.filter((s) => s.id !== slot.id);
+    if (otherSlots.length > 0 && !options.removeOtherKeySlots) {
+      throw new Error(
+        `Rotating the data key would remove the key slots ${otherSlots
+          .map((s) => `"${s.id}"`)
+          .join(", ")}. Pass removeOtherKeySlots: true, or rotateKey: false.`,
+      );
+    }
 
-      this.listener.onChange([doc]);
-    } catch (error) {
-      errors.push({
-        docId: encryptedDoc._id,
-        error: error instanceof Error ? error : new Error(String(error)),
-        rawDoc: encryptedDoc,
-      });
+    const newKey = EncryptionHelper.generate();
+    meta.keySlots = [
+      await this.createKeySlot(slot.id, newPassword, newKey, slotOptions),
+    ];
+    meta.retiredKeys = [await newKey.wrapKey(this.encryptionHelper)];
+    meta.verifier = await newKey.encrypt(VERIFIER_PLAINTEXT);
+    if (this.idHasher) {
+      meta.idKey = await this.idHasher.wrap(newKey);
+    }
+    if (this.identity) {
+      meta.identity = await this.identity.wrap(newKey);
+    }
+    for (const table of Object.keys(meta.tableKeys ?? {})) {
+      meta.tableKeys![table] = await newKey.wrapKey(this.tableKeys.get(table)!);
+    }
+    if (meta.signers) {
+      meta.signers = await this.encryptSigners(this.trustedSigners, newKey);
+    }
+    if (meta.acceptedShares) {
+      meta.acceptedShares = await this.encryptAcceptedShares(
+        this.acceptedShares,
+        newKey,
+      );
+    }
+    await this.saveMeta(meta);
+    if (this.signingKey) {
+      // Other devices create new keys when they can't unwrap theirs
+      await this.saveSigningKey(this.signingKey, newKey);
     }
 
-    if (errors.length > 0 && this.listener.onError) {
-      this.listener.onError(errors);
+    this.password = newPassword;
+    this.unlockedSlotId = slot.id;
+    await this.applyMeta(meta, newKey);
+    await this.finishKeyRotation(meta, options);
+  }
+
+  /**
+   * Move a legacy store to a random data key protected by a salted password.
+   *
+   * Stores created before the metadata document existed derive their key
+   * from the passphrase alone, so the same passphrase gives the same key in
+   * every app. This writes the metadata document (which syncs, so other
+   * devices pick up the new key) and re-encrypts every document. It is
+   * resumable like changePassword(); documents not yet migrated remain
+   * readable on every device meanwhile. No-op for stores that already have
+   * metadata.
+   */
+  async migrateKeyDerivation(
+    options: ChangePasswordOptions = {},
+  ): Promise<void> {
+    await this.ensureInitialized();
+
+    let meta = await this.getMeta();
+    if (meta && !meta.legacyMigration) return;
+    if (!meta) {
+      meta = await this.createMeta(true);
     }
-    if (conflicts.length > 0 && this.listener.onConflict) {
-      this.listener.onConflict(conflicts);
+
+    const complete = await this.reencryptAll(options);
+    if (complete) {
+      delete meta.legacyMigration;
+      await this.saveMeta(meta);
     }
   }
 
-  private async buildConflictInfo(
-    fullId: string,
-    currentRev: string,
-    conflictRevs: string[],
-    winnerDoc: Doc,
-  ): Promise<ConflictInfo> {
-    const parsed = this.parseFullId(fullId);
-    if (!parsed) {
-      throw new Error(`Invalid ID format: ${fullId}`);
+  /**
+   * Rewrite every document whose ciphertext is not yet bound to its id, so
+   * that `allowUnboundDocuments: false` can be used. Resumable like
+   * changePassword().
+   */
+  async bindAllDocuments(options: ChangePasswordOptions = {}): Promise<void> {
+    await this.ensureInitialized();
+
+    const meta = await this.getMeta();
+    if (meta?.retiredKeys?.length || meta?.legacyMigration) {
+      throw new Error(
+        "Finish the pending password change or key migration first.",
+      );
     }
 
-    const losers: Doc[] = [];
+    await this.reencryptAll(options, "unbound");
+  }
+
+  /**
+   * Rewrite every document of the tables with blind indexes, so that
+   * documents written before a field was indexed can be found with
+   * findBy(). Resumable like changePassword().
+   */
+  async rebuildBlindIndexes(
+    options: ChangePasswordOptions = {},
+  ): Promise<void> {
+    await this.ensureInitialized();
+    await this.reencryptAll(options, "indexed");
+  }
+
+  /**
+   * Upgrade and write back every outdated document of the tables with
+   * migrations, instead of waiting for them to be read. Documents that
+   * can't be upgraded go to onError. Safe to run on several devices at
+   * once, and to run again after an interruption.
+   */
+  async migrateAll(options: MigrateOptions = {}): Promise<void> {
+    await this.ensureInitialized();
+    const batchSize = options.batchSize ?? DEFAULT_SCAN_BATCH_SIZE;
+    const tables = Object.keys(this.migrations).filter(
+      (table) => this.migrations[table].length > 0,
+    );
+
+    const ranges = await Promise.all(
+      tables.map(async (table) => {
+        const prefix = await this.tablePrefix(table);
+        return { table, prefix, endkey: `${prefix}\ufff0` };
+      }),
+    );
+    const progress: MigrationProgress = { processed: 0, total: 0, migrated: 0 };
+    for (const { prefix, endkey } of ranges) {
+      const result = await this.db.allDocs({ startkey: prefix, endkey });
+      progress.total += result.rows.length;
+    }
     const errors: DecryptionErrorEvent[] = [];
 
-    for (const rev of conflictRevs) {
-      try {
-        const conflictDoc = (await this.db.get(fullId, {
-          rev,
-        })) as EncryptedDoc;
-        const decrypted = await this.decryptDoc(conflictDoc);
-        losers.push(decrypted);
-      } catch (error) {
-        errors.push({
-          docId: `${fullId}@${rev}`,
-          error: error instanceof Error ? error : new Error(String(error)),
-          rawDoc: { _id: fullId, _rev: rev },
+    for (const { table, prefix, endkey } of ranges) {
+      const version = this.migrations[table].length;
+      let lastId: string | null = null;
+      for (;;) {
+        const result: PouchDB.Core.AllDocsResponse<{}> = await this.db.allDocs({
+          include_docs: true,
+          startkey: lastId ?? prefix,
+          endkey,
+          limit: batchSize + 1,
         });
+        const rows = result.rows
+          .filter((row) => row.id !== lastId)
+          .slice(0, batchSize);
+        if (rows.length === 0) break;
+        lastId = rows[rows.length - 1].id;
+
+        for (const encryptedDoc of this.userDocs(rows)) {
+          try {
+            const payload = await this.readPayload(encryptedDoc);
+            // Trashed documents are upgraded if they are restored
+            if ((payload._v ?? 0) < version && payload._trashed === undefined) {
+              const id = this.idHasher
+                ? payload._id
+                : this.parseFullId(encryptedDoc._id)!.id;
+              // Re-read and upgrade again if it changed meanwhile
+              await this.update(table, id, (doc) => doc);
+              progress.migrated++;
+            }
+          } catch (error) {
+            errors.push({
+              docId: encryptedDoc._id,
+              error: error instanceof Error ? error : new Error(String(error)),
+              rawDoc: encryptedDoc,
+            });
+          }
+        }
+        progress.processed += rows.length;
+        options.onProgress?.({ ...progress });
       }
     }
 
     if (errors.length > 0 && this.listener.onError) {
       this.listener.onError(errors);
     }
+  }
 
-    return {
-      docId: fullId,
-      table: parsed.table,
-      id: parsed.id,
-      currentRev,
-      conflictRevs,
-      winner: winnerDoc,
-      losers,
-    };
+  /** Whether a password change was started but not finished */
+  async hasPendingPasswordChange(): Promise<boolean> {
+    await this.ensureInitialized();
+    if (await this.getPasswordChangeCheckpoint()) return true;
+    return !!(await this.getMeta())?.retiredKeys?.length;
   }
 
-  private async decryptDoc(encryptedDoc: EncryptedDoc): Promise<Doc> {
-    const parsed = this.parseFullId(encryptedDoc._id);
-    if (!parsed) throw new Error(`Invalid ID format: ${encryptedDoc._id}`);
+  /** List the key slots that can unlock this store */
+  async listKeySlots(): Promise<KeySlotInfo[]> {
+    await this.ensureInitialized();
+    const meta = await this.getMeta();
+    return (meta?.keySlots ?? []).map((slot) => ({
+      id: slot.id,
+      passphraseMode: slot.passphraseMode,
+    }));
+  }
+
+  /**
+   * Add another way to unlock the store, such as a recovery key.
+   * Replaces any existing slot with the same id. The store must be unlocked.
+   *
+   * @example
+   * const recoveryKey = EncryptedStore.generateRecoveryKey();
+   * await store.addKeySlot("recovery", recoveryKey, { passphraseMode: "raw" });
+   */
+  async addKeySlot(
+    id: string,
+    secret: string,
+    options: KeySlotOptions = {},
+  ): Promise<void> {
+    await this.ensureInitialized();
+    const meta = await this.ensureKeySlotMeta();
 
-    const decrypted = JSON.parse(
-      await this.encryptionHelper.decrypt(encryptedDoc.d),
+    const slot = await this.createKeySlot(
+      id,
+      secret,
+      this.encryptionHelper,
+      options,
     );
-    return { _id: parsed.id, _table: parsed.table, ...decrypted };
+    meta.keySlots = [...meta.keySlots!.filter((s) => s.id !== id), slot];
+    await this.saveMeta(meta);
   }
 
-  private async encryptDoc(doc: any, fullId: string): Promise<EncryptedDoc> {
-    const data: Record<string, any> = {};
-    for (const [key, value] of Object.entries(doc)) {
-      if (!key.startsWith("_")) {
-        data[key] = value;
+  /** Remove a way to unlock the store. The last slot cannot be removed. */
+  async removeKeySlot(id: string): Promise<void> {
+    await this.ensureInitialized();
+    const meta = await this.ensureKeySlotMeta();
+
+    if (!meta.keySlots!.some((slot) => slot.id === id)) {
+      throw new Error(`No key slot "${id}"`);
+    }
+    if (meta.keySlots!.length === 1) {
+      throw new Error("Cannot remove the last key slot");
+    }
+    meta.keySlots = meta.keySlots!.filter((slot) => slot.id !== id);
+    await this.saveMeta(meta);
+  }
+
+  /**
+   * Unlock the store with a specific key slot instead of the password given
+   * to the constructor - e.g. with a recovery key after the password was
+   * forgotten. Follow up with addKeySlot("password", newPassword) to set a
+   * new password.
+   */
+  async unlockWith(slotId: string, secret: string): Promise<void> {
+    const meta = await this.getMeta();
+    const slot = meta?.keySlots?.find((s) => s.id === slotId);
+    if (!meta || !slot) {
+      throw new Error(`No key slot "${slotId}"`);
+    }
+
+    let dataKey: EncryptionHelper;
+    try {
+      dataKey = await this.unlockKeySlot(slot, secret);
+    } catch {
+      throw new InvalidPasswordError(`Invalid secret for key slot "${slotId}"`);
+    }
+    this.password = secret;
+    this.unlockedSlotId = slotId;
+    await this.applyMeta(meta, dataKey);
+    await this.setUpSigningKey();
+    this.markUnlocked();
+  }
+
+  /**
+   * This store's public key, for others to share tables with. The keypair
+   * is created on first use and kept in the metadata (the private key under
+   * the data key), so every device of the store has the same one.
+   */
+  async getPublicKey(): Promise<string> {
+    await this.ensureInitialized();
+    if (!this.identity) {
+      const meta = await this.ensureKeySlotMeta();
+      if (meta.identity) {
+        this.identity = await Identity.unwrap(
+          meta.identity,
+          this.encryptionHelper,
+        );
+      } else {
+        const identity = await Identity.generate();
+        meta.identity = await identity.wrap(this.encryptionHelper);
+        await this.saveMeta(meta);
+        this.identity = identity;
       }
     }
+    return this.identity.publicKey;
+  }
 
-    return {
-      _id: fullId,
-      d: await this.encryptionHelper.encrypt(JSON.stringify(data)),
-    };
+  /**
+   * Share a table with another user's store, given its getPublicKey().
+   *
+   * The first share gives the table its own random key and re-encrypts the
+   * table's documents with it (resumable like changePassword(): call this
+   * again). The table key is then written, encrypted for the recipient
+   * with this store's identity, to a share document. Replicate the table to
+   * the recipient's database with EncryptedStore.shareFilter(): once they
+   * call acceptShare() with this store's getPublicKey(), their store can
+   * read and write that table, and nothing else.
+   */
+  async shareTable(
+    table: string,
+    recipientPublicKey: string,
+    options: ChangePasswordOptions = {},
+  ): Promise<void> {
+    await this.ensureInitialized();
+    if (this.idHasher) {
+      throw new Error("Tables can't be shared in a store with encrypted ids.");
+    }
+    // Shares are wrapped with the identity: create it before reading meta
+    await this.getPublicKey();
+    const meta = await this.ensureKeySlotMeta();
+
+    const isNew = !meta.tableKeys?.[table];
+    if (isNew) {
+      if (this.tableKeys.has(table)) {
+        throw new Error(
+          `Table "${table}" was shared with this store. Only its owner can share it.`,
+        );
+      }
+      meta.tableKeys = {
+        ...meta.tableKeys,
+        [table]: await this.encryptionHelper.wrapKey(
+          EncryptionHelper.generate(),
+        ),
+      };
+      await this.saveMeta(meta);
+      await this.applyMeta(meta, this.encryptionHelper);
+    }
+
+    await this.writeShare(
+      table,
+      this.tableKeys.get(table)!,
+      recipientPublicKey,
+    );
+    if (isNew || (await this.getPasswordChangeCheckpoint())) {
+      await this.finishKeyRotation(meta, options);
+    }
+  }
+
+  /**
+   * Stop sharing a table with the holder of a public key.
+   *
+   * Deletes their share document. Since they may have kept the key, the
+   * table then gets a new one: its documents are re-encrypted and the
+   * remaining recipients are sent the new key. If interrupted, call this
+   * again to resume. Stop replicating the table to them as well.
+   */
+  async revokeShare(
+    table: string,
+    recipientPublicKey: string,
+    options: ChangePasswordOptions = {},
+  ): Promise<void> {
+    await this.ensureInitialized();
+    await this.getPublicKey();
+    const meta = await this.ensureKeySlotMeta();
+    if (!meta.tableKeys?.[table]) {
+      throw new Error(`Table "${table}" is not shared by this store`);
+    }
+
+    const shareId = await this.shareId(table, recipientPublicKey);
+    const share = (await this.getShares(table)).find((s) => s._id === shareId);
+    if (!share) {
+      if (!meta.retiredKeys?.length) {
+        throw new Error(`Table "${table}" is not shared with this key`);
+      }
+      // Resuming: the share is gone, but documents still use the old key
+      await this.finishKeyRotation(meta, options);
+      return;
+    }
+    await this.db.remove(share._id, share._rev!);
+
+    const newKey = EncryptionHelper.generate();
+    meta.retiredKeys = [
+      ...(meta.retiredKeys ?? []),
+      await this.encryptionHelper.wrapKey(this.tableKeys.get(table)!),
+    ];
+    meta.tableKeys = {
+      ...meta.tableKeys,
+      [table]: await this.encryptionHelper.wrapKey(newKey),
+    };
+    await this.saveMeta(meta);
+    await this.applyMeta(meta, this.encryptionHelper);
+
+    for (const other of await this.getShares(table)) {
+      await this.writeShare(table, newKey, other.publicKey);
+    }
+    await this.finishKeyRotation(meta, options);
+  }
+
+  /** The tables this store shares, once per recipient */
+  async listShares(): Promise<TableShareInfo[]> {
+    await this.ensureInitialized();
+    const owned = (await this.getMeta())?.tableKeys ?? {};
+    const shares: TableShareInfo[] = [];
+    for (const share of await this.getShares()) {
+      const parsed = this.parseShareId(share._id);
+      if (parsed && parsed.table in owned) {
+        shares.push({ table: parsed.table, publicKey: share.publicKey });
+      }
+    }
+    return shares;
+  }
+
+  /**
+   * Use a table shared with this store by the holder of a public key (the
+   * owner's getPublicKey(), obtained from them directly). Until then, share
+   * documents for the table are ignored, and afterwards only those the
+   * owner wrapped are used: anyone can write a share document, but only
+   * the owner's key can give access to the table. The choice is kept in
+   * the metadata under the data key. Documents of the table already
+   * replicated are reported through `onChange`.
+   */
+  async acceptShare(table: string, ownerPublicKey: string): Promise<void> {
+    await this.ensureInitialized();
+    await importPublicKey(ownerPublicKey);
+    await this.getPublicKey();
+    const meta = await this.ensureKeySlotMeta();
+    if (meta.tableKeys?.[table]) {
+      throw new Error(`Table "${table}" is shared by this store`);
+    }
+    const accepted = meta.acceptedShares
+      ? await this.decryptAcceptedShares(
+          meta.acceptedShares,
+          this.encryptionHelper,
+        )
+      : new Map<string, string>();
+    accepted.set(table, ownerPublicKey);
+    meta.acceptedShares = await this.encryptAcceptedShares(
+      accepted,
+      this.encryptionHelper,
+    );
+    await this.saveMeta(meta);
+    await this.applyMeta(meta, this.encryptionHelper);
+    if (this.tableKeys.has(table)) {
+      await this.emitTable(table);
+    }
+  }
+
+  /**
+   * Tables shared with this store, accepted or not, and the owner public
+   * keys their share documents claim. Check a key with its owner before
+   * accepting it.
+   */
+  async listIncomingShares(): Promise<TableShareInfo[]> {
+    await this.ensureInitialized();
+    if (!this.identity) return [];
+    const recipient = await publicKeyId(this.identity.publicKey);
+    const shares: TableShareInfo[] = [];
+    for (const share of await this.getShares()) {
+      const parsed = this.parseShareId(share._id);
+      if (parsed?.recipient === recipient && share.ownerPublicKey) {
+        shares.push({ table: parsed.table, publicKey: share.ownerPublicKey });
+      }
+    }
+    return shares;
+  }
+
+  /**
+   * Replication filter for a shared table: its documents and its share
+   * documents, and nothing else.
+   *
+   * @example
+   * db.sync(sharedUrl, { live: true, filter: EncryptedStore.shareFilter("expenses") });
+   */
+  static shareFilter(table: string): (doc: { _id: string }) => boolean {
+    return (doc) =>
+      doc._id.startsWith(`${table}_`) ||
+      doc._id.startsWith(`${SHARE_DOC_PREFIX}${table}:`);
+  }
+
+  /**
+   * This device's signing public key, for other stores to trust with
+   * trustSigner(). Null without the `signAs` option.
+   */
+  async getSigningKey(): Promise<string | null> {
+    await this.ensureInitialized();
+    return this.signingKey?.publicKey ?? null;
+  }
+
+  /**
+   * Trust documents signed with a public key (another store's
+   * getSigningKey()), and read them with `_author` set to this author. The
+   * list of trusted keys is kept in the metadata under the data key.
+   */
+  async trustSigner(author: string, publicKey: string): Promise<void> {
+    await this.ensureInitialized();
+    await importVerifyKey(publicKey);
+    const keyId = await publicKeyId(publicKey);
+    await this.updateSigners((signers) => {
+      signers.set(keyId, { author, publicKey });
+    });
+  }
+
+  /** Stop trusting a key: documents it signed go to onError from now on */
+  async untrustSigner(publicKey: string): Promise<void> {
+    await this.ensureInitialized();
+    const keyId = await publicKeyId(publicKey);
+    await this.updateSigners((signers) => {
+      signers.delete(keyId);
+    });
+  }
+
+  /** The keys whose signatures are trusted */
+  async listTrustedSigners(): Promise<TrustedSigner[]> {
+    await this.ensureInitialized();
+    return [...this.trustedSigners.values()];
+  }
+
+  /**
+   * Forget the keys and the password, and pause change delivery.
+   *
+   * Until the store is unlocked again, API calls reject with
+   * StoreLockedError. Sync continues; changes it brings in are queued and
+   * delivered to the listener after unlock.
+   */
+  lock(): void {
+    if (this.locked) return;
+    this.locked = true;
+    if (this.autoLockTimer) {
+      clearTimeout(this.autoLockTimer);
+      this.autoLockTimer = null;
+    }
+    this.scheduleSweep();
+    this.encryptionHelper.forgetKey();
+    for (const helper of this.fallbackHelpers) {
+      helper.forgetKey();
+    }
+    this.fallbackHelpers = [];
+    for (const helper of this.tableKeys.values()) {
+      helper.forgetKey();
+    }
+    this.tableKeys = new Map();
+    this.idHasher = null;
+    this.identity = null;
+    this.signingKey = null;
+    this.trustedSigners = new Map();
+    this.acceptedShares = new Map();
+    this.blindIndexCache = new Map();
+    for (const index of this.secondaryIndexes.values()) {
+      index.clear();
+    }
+    this.password = "";
+    this.initPromise = null;
+  }
+
+  /**
+   * Unlock a locked store and deliver the changes queued meanwhile.
+   * Throws InvalidPasswordError, and stays locked, if the password is wrong.
+   * Use unlockWith() for other key slots.
+   */
+  async unlock(password: string): Promise<void> {
+    if (!this.locked) return;
+    this.password = password;
+    this.encryptionHelper = this.createLegacyHelper(password);
+    try {
+      await this.initialize();
+    } catch (error) {
+      this.password = "";
+      this.encryptionHelper.forgetKey();
+      throw error;
+    }
+    this.markUnlocked();
+  }
+
+  /** Whether the store is locked (see lock()) */
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  /**
+   * Generate a random recovery key, formatted for printing
+   * (e.g. "7KQ2-M9XD-..."). Store it with addKeySlot() in "raw" mode.
+   */
+  static generateRecoveryKey(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(20));
+    let bits = 0;
+    let value = 0;
+    let key = "";
+    for (const byte of bytes) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        key += RECOVERY_KEY_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    return key.match(/.{4}/g)!.join("-");
+  }
+
+  /** Re-subscribe to changes (useful after disconnect/reconnect) */
+  reconnect(): void {
+    if (this.changesHandler) {
+      this.changesHandler.cancel();
+      this.changesHandler = null;
+    }
+    // Changes the feed hasn't delivered yet won't come
+    for (const bulk of this.bulkWrites) {
+      this.flushBulkWrite(bulk);
+    }
+    this.setupSubscription();
+  }
+
+  /**
+   * Stop the change feed, sync and the store's timers (auto-lock and the
+   * expiry sweeper), so that the process can exit. The database is left
+   * open; loadAll() starts watching it again.
+   */
+  close(): void {
+    if (this.changesHandler) {
+      this.changesHandler.cancel();
+      this.changesHandler = null;
+    }
+    // Changes the feed hasn't delivered yet won't come
+    for (const bulk of this.bulkWrites) {
+      this.flushBulkWrite(bulk);
+    }
+    this.disconnectRemote();
+    if (this.autoLockTimer) {
+      clearTimeout(this.autoLockTimer);
+      this.autoLockTimer = null;
+    }
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  private setupSubscription(): void {
+    this.changesHandler = this.db
+      .changes({
+        since: "now",
+        live: true,
+        include_docs: true,
+        conflicts: true,
+      })
+      .on("change", (change) => this.processChange(change))
+      .on("error", (err) => {
+        console.error("[EncryptedStore] changes feed error:", err);
+      });
+  }
+
+  /** Report changed documents to the listener and live queries */
+  private emitChange(docs: Doc[]): void {
+    this.listener.onChange(docs);
+    for (const live of this.liveQueries) {
+      for (const doc of docs) live.change(doc);
+    }
+  }
+
+  /** Report deleted documents to the listener and live queries */
+  private emitDelete(docs: Doc[]): void {
+    this.listener.onDelete(docs);
+    for (const live of this.liveQueries) {
+      for (const doc of docs) live.remove(doc._table, doc._id);
+    }
+  }
+
+  private processChange(change: PouchDB.Core.ChangesResponseChange<any>): void {
+    this.processingChain = this.processingChain
+      .then(() => this.handleChange(change))
+      .catch((err) =>
+        console.error("[EncryptedStore] handleChange error:", err),
+      )
+      .then(() => this.settleBulkWrites(change.id));
+  }
+
+  /** Report a changed document, with the rest of its bulk write if any */
+  private reportChange(fullId: string, doc: Doc): void {
+    const bulk = this.bulkWriteOf(fullId);
+    if (bulk) {
+      bulk.changed.push(doc);
+    } else {
+      this.emitChange([doc]);
+    }
+  }
+
+  /** Report a deleted document, with the rest of its bulk write if any */
+  private reportDelete(fullId: string, doc: Doc): void {
+    const bulk = this.bulkWriteOf(fullId);
+    if (bulk) {
+      bulk.deleted.push(doc);
+    } else {
+      this.emitDelete([doc]);
+    }
+  }
+
+  private bulkWriteOf(fullId: string): BulkWrite | undefined {
+    for (const bulk of this.bulkWrites) {
+      if (bulk.pending.has(fullId)) return bulk;
+    }
+    return undefined;
+  }
+
+  /**
+   * Watch the change feed for the documents of a bulk write. Null without
+   * a change feed, since nothing would be reported anyway.
+   */
+  private startBulkWrite(fullIds: string[]): BulkWrite | null {
+    if (!this.changesHandler || fullIds.length === 0) return null;
+    const bulk: BulkWrite = {
+      pending: new Set(fullIds),
+      changed: [],
+      deleted: [],
+    };
+    this.bulkWrites.add(bulk);
+    return bulk;
+  }
+
+  /**
+   * A document of a bulk write was handled, or won't be written: once none
+   * is left, report the bulk write's documents
+   */
+  private settleBulkWrites(
+    fullId: string,
+    bulk = this.bulkWriteOf(fullId),
+  ): void {
+    if (!bulk) return;
+    bulk.pending.delete(fullId);
+    if (bulk.pending.size === 0) {
+      this.flushBulkWrite(bulk);
+    }
+  }
+
+  private flushBulkWrite(bulk: BulkWrite): void {
+    this.bulkWrites.delete(bulk);
+    if (bulk.changed.length > 0) {
+      this.emitChange(bulk.changed);
+    }
+    if (bulk.deleted.length > 0) {
+      this.emitDelete(bulk.deleted);
+    }
+  }
+
+  private async handleChange(
+    change: PouchDB.Core.ChangesResponseChange<any>,
+  ): Promise<void> {
+    if (this.locked) {
+      // Keep only the latest change per document, in arrival order
+      this.pendingChanges.delete(change.id);
+      this.pendingChanges.set(change.id, change);
+      return;
+    }
+    if (change.id === META_DOC_ID) {
+      // Another device created or migrated the metadata - follow it
+      const previousKeyId = await this.encryptionHelper.getKeyId();
+      if (!change.deleted && change.doc && change.doc._rev !== this.metaRev) {
+        try {
+          await this.applyMeta(change.doc as StoreMeta);
+        } catch (error) {
+          // Our password no longer unlocks the store: refuse reads and writes
+          this.initPromise = Promise.reject(error);
+          this.initPromise.catch(() => {});
+          throw error;
+        }
+      }
+      const addedKeyIds = await this.mergeMetaConflicts();
+      if (addedKeyIds.length > 0) {
+        // Documents written with the other devices' keys can be read now,
+        // including the winner's if we were the device that lost
+        const keyId = await this.encryptionHelper.getKeyId();
+        if (keyId !== previousKeyId) {
+          addedKeyIds.push(keyId);
+        }
+        const result = await this.db.allDocs({ include_docs: true });
+        await this.emitDocs(
+          this.userDocs(result.rows).filter((encryptedDoc) =>
+            addedKeyIds.includes(this.getKeyIdOf(encryptedDoc.d) ?? ""),
+          ),
+        );
+      }
+      return;
+    }
+    if (change.id.startsWith(SHARE_DOC_PREFIX)) {
+      await this.applyShareChange(change);
+      return;
+    }
+    if (this.isInternalId(change.id)) return;
+    if (this.secondaryIndexes.size > 0) {
+      this.updateIndexes().catch((error) =>
+        console.error("[EncryptedStore] index update error:", error),
+      );
+    }
+
+    const encryptedDoc = change.doc as
+      (EncryptedDoc & { _conflicts?: string[] }) | undefined;
+
+    // Deletion
+    if (change.deleted || !encryptedDoc?.d) {
+      const parsed = await this.parseDeletedId(change.id, encryptedDoc);
+      const expiry = this.expiries.get(change.id);
+      this.expiries.delete(change.id);
+      if (parsed) {
+        // Expired and deleted elsewhere before this device's sweeper ran
+        if (expiry && !expiry.purge && expiry.expiresAt <= Date.now()) {
+          this.listener.onExpire?.([{ _id: parsed.id, _table: parsed.table }]);
+        }
+        this.reportDelete(change.id, { _id: parsed.id, _table: parsed.table });
+      }
+      return;
+    }
+
+    // Changed/added document
+    const errors: DecryptionErrorEvent[] = [];
+    const conflicts: ConflictInfo[] = [];
+
+    try {
+      const decrypted = await this.decryptDoc(encryptedDoc);
+      this.trackExpiry(encryptedDoc._id, decrypted);
+      this.scheduleSweep();
+      if (decrypted._trashedAt !== undefined) {
+        // Moved to the trash: gone, as far as the app is concerned
+        this.reportDelete(change.id, {
+          _id: decrypted._id,
+          _table: decrypted._table,
+        });
+        return;
+      }
+      // Expired: the sweeper deletes it
+      if (this.isHidden(decrypted)) return;
+      const doc = this.validate(decrypted._table, decrypted);
+
+      // Check for conflicts
+      if (encryptedDoc._conflicts && encryptedDoc._conflicts.length > 0) {
+        const conflictInfo = await this.buildConflictInfo(
+          encryptedDoc._id,
+          encryptedDoc._rev!,
+          encryptedDoc._conflicts,
+          doc,
+        );
+        conflicts.push(conflictInfo);
+      }
+
+      this.reportChange(change.id, doc);
+    } catch (error) {
+      errors.push({
+        docId: encryptedDoc._id,
+        error: error instanceof Error ? error : new Error(String(error)),
+        rawDoc: encryptedDoc,
+      });
+    }
+
+    if (errors.length > 0 && this.listener.onError) {
+      this.listener.onError(errors);
+    }
+    if (conflicts.length > 0 && this.listener.onConflict) {
+      this.listener.onConflict(conflicts);
+    }
+  }
+
+  private async buildConflictInfo(
+    fullId: string,
+    currentRev: string,
+    conflictRevs: string[],
+    winnerDoc: Doc,
+  ): Promise<ConflictInfo> {
+    const losers: Doc[] = [];
+    const errors: DecryptionErrorEvent[] = [];
+
+    for (const rev of conflictRevs) {
+      try {
+        const conflictDoc = (await this.db.get(fullId, {
+          rev,
+        })) as EncryptedDoc;
+        const decrypted = await this.decryptDoc(conflictDoc);
+        losers.push(decrypted);
+      } catch (error) {
+        errors.push({
+          docId: `${fullId}@${rev}`,
+          error: error instanceof Error ? error : new Error(String(error)),
+          rawDoc: { _id: fullId, _rev: rev },
+        });
+      }
+    }
+
+    if (errors.length > 0 && this.listener.onError) {
+      this.listener.onError(errors);
+    }
+
+    return {
+      docId: fullId,
+      table: winnerDoc._table,
+      id: winnerDoc._id,
+      currentRev,
+      conflictRevs,
+      winner: winnerDoc,
+      losers,
+    };
+  }
+
+  /** changePassword() for legacy stores, whose key is the password itself */
+  private async changeLegacyPassword(
+    oldPassword: string,
+    newPassword: string,
+    options: ChangePasswordOptions,
+  ): Promise<void> {
+    const oldHelper = this.createLegacyHelper(oldPassword);
+    const newHelper = this.createLegacyHelper(newPassword);
+    const [currentKeyId, oldKeyId, newKeyId] = await Promise.all([
+      this.encryptionHelper.getKeyId(),
+      oldHelper.getKeyId(),
+      newHelper.getKeyId(),
+    ]);
+
+    const checkpoint = await this.getPasswordChangeCheckpoint();
+    const resuming =
+      checkpoint?.newKeyId === newKeyId && currentKeyId === newKeyId;
+    if (currentKeyId !== oldKeyId && !resuming) {
+      throw new InvalidPasswordError("Current password is incorrect");
+    }
+
+    this.password = newPassword;
+    this.encryptionHelper = newHelper;
+    this.fallbackHelpers = [oldHelper];
+    await this.reencryptAll(options);
+  }
+
+  private async finishKeyRotation(
+    meta: StoreMeta,
+    options: ChangePasswordOptions,
+  ): Promise<void> {
+    const complete = await this.reencryptAll(options);
+    if (complete) {
+      delete meta.retiredKeys;
+      await this.saveMeta(meta);
+    }
+  }
+
+  /**
+   * Re-encrypt every document not yet under its key (its table's key, or
+   * else the data key), checkpointing after each batch so that an
+   * interrupted run can be resumed. With `rewrite`, also rewrite documents
+   * not yet bound to their id (`"unbound"`), or all documents of tables
+   * with blind indexes (`"indexed"`).
+   * Returns false if some documents could not be decrypted.
+   */
+  private async reencryptAll(
+    options: ChangePasswordOptions,
+    rewrite?: "unbound" | "indexed",
+  ): Promise<boolean> {
+    const toKeyId = await this.encryptionHelper.getKeyId();
+
+    let checkpoint = await this.getPasswordChangeCheckpoint();
+    if (checkpoint && checkpoint.newKeyId !== toKeyId) {
+      throw new Error(
+        "Another password change is in progress. Resume it with the same new password first.",
+      );
+    }
+    if (!checkpoint) {
+      checkpoint = {
+        _id: PASSWORD_CHANGE_CHECKPOINT_ID,
+        newKeyId: toKeyId,
+        lastId: null,
+        processed: 0,
+        reencrypted: 0,
+      };
+      checkpoint._rev = (await this.db.put(checkpoint)).rev;
+    }
+
+    const batchSize = options.batchSize ?? 100;
+    const total = await this.countUserDocs();
+    const errors: DecryptionErrorEvent[] = [];
+
+    for (;;) {
+      const result = await this.db.allDocs({
+        include_docs: true,
+        limit: batchSize + 1,
+        ...(checkpoint.lastId !== null ? { startkey: checkpoint.lastId } : {}),
+      });
+      const rows = result.rows
+        .filter((row) => row.id !== checkpoint!.lastId)
+        .slice(0, batchSize);
+      if (rows.length === 0) break;
+
+      const updates: EncryptedDoc[] = [];
+      for (const row of rows) {
+        const encryptedDoc = row.doc as EncryptedDoc | undefined;
+        if (!encryptedDoc?.d || this.isInternalId(row.id)) continue;
+
+        // Already re-encrypted (resumed run or concurrent put)
+        const key = this.keyFor(encryptedDoc._id);
+        if (
+          this.getKeyIdOf(encryptedDoc.d) === (await key.getKeyId()) &&
+          (rewrite !== "unbound" || (await this.isBound(encryptedDoc))) &&
+          (rewrite !== "indexed" || !this.mayHaveBlindIndex(encryptedDoc._id))
+        ) {
+          continue;
+        }
+
+        try {
+          const plaintext = await this.decryptPayload(
+            encryptedDoc.d,
+            encryptedDoc._id,
+          );
+          const d = await key.encrypt(
+            plaintext,
+            this.associatedDataFor(encryptedDoc._id),
+          );
+          const payload = JSON.parse(plaintext);
+          updates.push({
+            _id: encryptedDoc._id,
+            _rev: encryptedDoc._rev,
+            _attachments: encryptedDoc._attachments,
+            d,
+            ...(await this.blindIndexFor(
+              this.tableOf(encryptedDoc._id, payload),
+              payload,
+            )),
+            ...(await this.signatureFor(encryptedDoc._id, d)),
+          });
+        } catch (error) {
+          errors.push({
+            docId: encryptedDoc._id,
+            error: error instanceof Error ? error : new Error(String(error)),
+            rawDoc: encryptedDoc,
+          });
+        }
+      }
+
+      if (updates.length > 0) {
+        // Conflicts mean the doc was rewritten concurrently - with the new key
+        const results = await this.db.bulkDocs(updates);
+        checkpoint.reencrypted += results.filter((r) => "ok" in r).length;
+      }
+
+      checkpoint.lastId = rows[rows.length - 1].id;
+      checkpoint.processed += rows.filter(
+        (row) => !this.isInternalId(row.id),
+      ).length;
+      checkpoint._rev = (await this.db.put(checkpoint)).rev;
+
+      options.onProgress?.({
+        processed: checkpoint.processed,
+        total: Math.max(total, checkpoint.processed),
+        reencrypted: checkpoint.reencrypted,
+      });
+    }
+
+    await this.db.remove(checkpoint._id, checkpoint._rev!);
+
+    if (errors.length > 0) {
+      // Keep the old keys around for the documents they may still be needed for
+      if (this.listener.onError) {
+        this.listener.onError(errors);
+      }
+      return false;
+    }
+
+    this.fallbackHelpers = [];
+    return true;
+  }
+
+  /** Read (or create) the store metadata once and set up the matching key */
+  private ensureInitialized(): Promise<void> {
+    if (this.locked) {
+      return Promise.reject(new StoreLockedError());
+    }
+    this.resetAutoLock();
+    if (!this.initPromise) {
+      this.initPromise = this.initialize()
+        .then(() => {
+          // Deriving the key may take a while: count from when it's done
+          this.resetAutoLock();
+        })
+        .catch((error) => {
+          this.initPromise = null;
+          throw error;
+        });
+    }
+    return this.initPromise;
+  }
+
+  /** Leave the locked state (if locked) and deliver queued changes */
+  private markUnlocked(): void {
+    this.locked = false;
+    this.initPromise = Promise.resolve();
+    this.resetAutoLock();
+
+    const changes = [...this.pendingChanges.values()];
+    this.pendingChanges.clear();
+    for (const change of changes) {
+      this.processChange(change);
+    }
+    this.scheduleSweep();
+  }
+
+  /** Trashed or expired: left out of reads */
+  private isHidden(doc: Doc): boolean {
+    return (
+      doc._trashedAt !== undefined ||
+      (doc._expiresAt !== undefined && doc._expiresAt <= Date.now())
+    );
+  }
+
+  /**
+   * Remember when a document read at some revision expires, or, if it is
+   * in the trash and the trash option is on, when it is purged
+   */
+  private trackExpiry(fullId: string, doc: Doc): void {
+    const purge = doc._trashedAt !== undefined;
+    const expiresAt = purge
+      ? this.trash
+        ? doc._trashedAt! + this.trashRetentionMs
+        : undefined
+      : doc._expiresAt;
+    if (expiresAt === undefined || doc._rev === undefined) {
+      this.expiries.delete(fullId);
+    } else {
+      this.expiries.set(fullId, {
+        table: doc._table,
+        id: doc._id,
+        rev: doc._rev,
+        expiresAt,
+        purge,
+      });
+    }
+  }
+
+  /** Run the sweeper when the next known document expires (not while locked) */
+  private scheduleSweep(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    if (this.locked) return;
+
+    let next = Infinity;
+    for (const { expiresAt, swept } of this.expiries.values()) {
+      if (!swept) next = Math.min(next, expiresAt);
+    }
+    if (next === Infinity) return;
+    // Longer delays overflow setTimeout: wake up and look again
+    const delay = Math.min(Math.max(0, next - Date.now()), 2 ** 31 - 1);
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      // After the changes already queued, which may extend an expiry
+      this.processingChain = this.processingChain
+        .then(() => this.sweep())
+        .catch((err) =>
+          console.error("[EncryptedStore] expiry sweep error:", err),
+        );
+    }, delay);
+  }
+
+  /**
+   * Delete the documents that expired, or were kept in the trash long
+   * enough, at the revision they were seen at, and report the expired ones
+   * deleted. A document changed or deleted meanwhile is left to the change
+   * feed.
+   */
+  private async sweep(): Promise<void> {
+    if (this.locked) return;
+    const now = Date.now();
+    const due = [...this.expiries].filter(
+      ([, expiry]) => !expiry.swept && expiry.expiresAt <= now,
+    );
+
+    if (due.length > 0) {
+      for (const [, expiry] of due) expiry.swept = true;
+      const results = await this.db.bulkDocs(
+        await Promise.all(
+          due.map(([fullId, { table, id, rev }]) =>
+            this.createTombstone(fullId, rev, { table, id }),
+          ),
+        ),
+      );
+      const deleted = due.filter(([fullId, { purge }], i) => {
+        const result = results[i];
+        if (!("ok" in result && result.ok)) return false;
+        this.expiries.delete(fullId);
+        return !purge;
+      });
+      if (deleted.length > 0) {
+        this.listener.onExpire?.(
+          deleted.map(([, { table, id }]) => ({ _id: id, _table: table })),
+        );
+      }
+    }
+    this.scheduleSweep();
+  }
+
+  /** Restart the inactivity timer for autoLockAfterMs */
+  private resetAutoLock(): void {
+    if (this.autoLockAfterMs === undefined) return;
+    if (this.autoLockTimer) {
+      clearTimeout(this.autoLockTimer);
+    }
+    this.autoLockTimer = setTimeout(() => this.lock(), this.autoLockAfterMs);
+  }
+
+  private async initialize(): Promise<void> {
+    const meta = await this.getMeta();
+    if (meta) {
+      await this.applyMeta(meta);
+      try {
+        await this.mergeMetaConflicts();
+      } catch (error) {
+        // Documents written with the other keys stay unreadable until the
+        // next attempt
+        console.warn("[EncryptedStore] Could not merge metadata:", error);
+      }
+    } else if (!(await this.hasEncryptedDocs())) {
+      await this.createMeta(false);
+    } else {
+      // Legacy store: keep the deterministic key from the constructor until
+      // migrateKeyDerivation() is called
+      await this.verifyKeyAgainstDocuments(this.encryptionHelper);
+    }
+
+    if (this.encryptIds && !this.idHasher) {
+      throw new Error(
+        "encryptIds can only be enabled when a store is created, and this store has plaintext ids.",
+      );
+    }
+    await this.setUpSigningKey();
+  }
+
+  /**
+   * With signAs: load this device's signing key, or create one if it has
+   * none or it was wrapped under a previous data key. New keys are trusted.
+   */
+  private async setUpSigningKey(): Promise<void> {
+    if (!this.signAs) return;
+
+    let signingKey: SigningKey | null = null;
+    try {
+      const stored = (await this.db.get(
+        SIGNING_KEY_DOC_ID,
+      )) as unknown as StoredSigningKey;
+      signingKey = await SigningKey.unwrap(stored, this.encryptionHelper);
+    } catch {
+      // No key yet, or the data key was rotated
+    }
+    if (!signingKey) {
+      signingKey = await SigningKey.generate();
+      await this.saveSigningKey(signingKey, this.encryptionHelper);
+    }
+
+    const keyId = await publicKeyId(signingKey.publicKey);
+    if (!this.trustedSigners.has(keyId)) {
+      await this.updateSigners((signers) => {
+        signers.set(keyId, {
+          author: this.signAs!,
+          publicKey: signingKey.publicKey,
+        });
+      });
+    }
+    this.signingKey = signingKey;
+  }
+
+  private async saveSigningKey(
+    signingKey: SigningKey,
+    dataKey: EncryptionHelper,
+  ): Promise<void> {
+    let rev: string | undefined;
+    try {
+      rev = (await this.db.get(SIGNING_KEY_DOC_ID))._rev;
+    } catch {
+      // First key on this device
+    }
+    await this.db.put({
+      _id: SIGNING_KEY_DOC_ID,
+      ...(rev ? { _rev: rev } : {}),
+      ...(await signingKey.wrap(dataKey)),
+    });
+  }
+
+  /** Change the trusted signers in the metadata */
+  private async updateSigners(
+    update: (signers: Map<string, TrustedSigner>) => void,
+  ): Promise<void> {
+    const meta = await this.ensureKeySlotMeta();
+    const signers = meta.signers
+      ? await this.decryptSigners(meta.signers, this.encryptionHelper)
+      : new Map<string, TrustedSigner>();
+    update(signers);
+    meta.signers = await this.encryptSigners(signers, this.encryptionHelper);
+    await this.saveMeta(meta);
+    this.trustedSigners = signers;
+  }
+
+  private async encryptSigners(
+    signers: Map<string, TrustedSigner>,
+    dataKey: EncryptionHelper,
+  ): Promise<string> {
+    return dataKey.encrypt(
+      JSON.stringify(Object.fromEntries(signers)),
+      SIGNERS_ASSOCIATED_DATA,
+    );
+  }
+
+  private async decryptSigners(
+    encrypted: string,
+    dataKey: EncryptionHelper,
+  ): Promise<Map<string, TrustedSigner>> {
+    return new Map(
+      Object.entries(
+        JSON.parse(await dataKey.decrypt(encrypted, SIGNERS_ASSOCIATED_DATA)),
+      ),
+    );
+  }
+
+  private async encryptAcceptedShares(
+    acceptedShares: Map<string, string>,
+    dataKey: EncryptionHelper,
+  ): Promise<string> {
+    return dataKey.encrypt(
+      JSON.stringify(Object.fromEntries(acceptedShares)),
+      ACCEPTED_SHARES_ASSOCIATED_DATA,
+    );
+  }
+
+  private async decryptAcceptedShares(
+    encrypted: string,
+    dataKey: EncryptionHelper,
+  ): Promise<Map<string, string>> {
+    return new Map(
+      Object.entries(
+        JSON.parse(
+          await dataKey.decrypt(encrypted, ACCEPTED_SHARES_ASSOCIATED_DATA),
+        ),
+      ),
+    );
+  }
+
+  /** Signature fields for a ciphertext, if this device signs */
+  private async signatureFor(
+    fullId: string,
+    data: string,
+  ): Promise<{ a?: string; s?: string }> {
+    if (!this.signingKey) return {};
+    return {
+      a: await publicKeyId(this.signingKey.publicKey),
+      s: await this.signingKey.sign(`${fullId}\u0000${data}`),
+    };
+  }
+
+  /**
+   * The author of a document signed with a trusted key. Throws
+   * SignatureError if the signature is bad or from an untrusted key, or if
+   * the document is unsigned while signatures are required.
+   */
+  private async verifyAuthor(
+    encryptedDoc: EncryptedDoc,
+  ): Promise<string | undefined> {
+    if (!encryptedDoc.a || !encryptedDoc.s) {
+      if (this.requireSignatures) {
+        throw new SignatureError("Document is not signed");
+      }
+      return undefined;
+    }
+    const signer = this.trustedSigners.get(encryptedDoc.a);
+    if (!signer) {
+      throw new SignatureError("Document is signed with an untrusted key");
+    }
+    const valid = await verifySignature(
+      await importVerifyKey(signer.publicKey),
+      `${encryptedDoc._id}\u0000${encryptedDoc.d}`,
+      encryptedDoc.s,
+    );
+    if (!valid) {
+      throw new SignatureError();
+    }
+    return signer.author;
+  }
+
+  /**
+   * Set up the keys described by the metadata.
+   * @param dataKey - The already unlocked data key, if known
+   */
+  private async applyMeta(
+    meta: StoreMeta,
+    dataKey?: EncryptionHelper,
+  ): Promise<void> {
+    if (meta.binding) {
+      this.binding = meta.binding;
+    }
+
+    const helper =
+      meta.version === 1
+        ? new EncryptionHelper(
+            this.password,
+            undefined,
+            meta.passphraseMode,
+            meta.kdf,
+            this.onKdfProgress,
+          )
+        : (dataKey ?? (await this.unlockKeySlots(meta, this.password)));
+
+    if (meta.verifier) {
+      await this.checkVerifier(helper, meta.verifier);
+    } else {
+      await this.verifyKeyAgainstDocuments(helper);
+    }
+
+    const fallbackHelpers: EncryptionHelper[] = [];
+    for (const wrapped of meta.retiredKeys ?? []) {
+      fallbackHelpers.push(await helper.unwrapKey(wrapped));
+    }
+    if (meta.legacyMigration) {
+      fallbackHelpers.push(this.createLegacyHelper(this.password));
+    }
+    const idHasher = meta.idKey
+      ? await IdHasher.unwrap(meta.idKey, helper)
+      : null;
+    const identity = meta.identity
+      ? await Identity.unwrap(meta.identity, helper)
+      : null;
+    const acceptedShares = meta.acceptedShares
+      ? await this.decryptAcceptedShares(meta.acceptedShares, helper)
+      : new Map<string, string>();
+    const tableKeys = identity
+      ? await this.readSharedTableKeys(identity, acceptedShares)
+      : new Map<string, EncryptionHelper>();
+    for (const [table, wrapped] of Object.entries(meta.tableKeys ?? {})) {
+      tableKeys.set(table, await helper.unwrapKey(wrapped));
+    }
+    const trustedSigners = meta.signers
+      ? await this.decryptSigners(meta.signers, helper)
+      : new Map<string, TrustedSigner>();
+
+    this.encryptionHelper = helper;
+    this.idHasher = idHasher;
+    this.identity = identity;
+    this.tableKeys = tableKeys;
+    this.trustedSigners = trustedSigners;
+    this.acceptedShares = acceptedShares;
+    this.fallbackHelpers = fallbackHelpers;
+    this.metaRev = meta._rev;
+  }
+
+  /** Keys of the accepted tables shared with an identity, by table */
+  private async readSharedTableKeys(
+    identity: Identity,
+    acceptedShares: Map<string, string>,
+  ): Promise<Map<string, EncryptionHelper>> {
+    const keys = new Map<string, EncryptionHelper>();
+    for (const [table, ownerPublicKey] of acceptedShares) {
+      try {
+        const share = (await this.db.get(
+          await this.shareId(table, identity.publicKey),
+        )) as TableShare;
+        keys.set(
+          table,
+          await identity.unwrapTableKey(table, share, ownerPublicKey),
+        );
+      } catch {
+        // Not shared yet, revoked, or not from the owner: the table stays
+        // unreadable
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Follow a share document for this store: use the table key it holds, or
+   * stop using it once revoked. Only shares accepted with acceptShare(),
+   * and wrapped by the owner they were accepted from, are used.
+   */
+  private async applyShareChange(
+    change: PouchDB.Core.ChangesResponseChange<any>,
+  ): Promise<void> {
+    const parsed = this.parseShareId(change.id);
+    const ownerPublicKey = parsed && this.acceptedShares.get(parsed.table);
+    if (
+      !parsed ||
+      !ownerPublicKey ||
+      !this.identity ||
+      parsed.recipient !== (await publicKeyId(this.identity.publicKey))
+    ) {
+      return;
+    }
+    const current = this.tableKeys.get(parsed.table);
+    if (change.deleted) {
+      this.tableKeys.delete(parsed.table);
+      return;
+    }
+
+    let key: EncryptionHelper;
+    try {
+      key = await this.identity.unwrapTableKey(
+        parsed.table,
+        change.doc as TableShare,
+        ownerPublicKey,
+      );
+    } catch {
+      // Not wrapped by the owner: keep the key we have
+      return;
+    }
+    if (current && (await current.getKeyId()) === (await key.getKeyId())) {
+      return;
+    }
+    if (current) {
+      // The owner rotated the key: documents they haven't re-encrypted yet
+      // still use the old one
+      this.fallbackHelpers.push(current);
+    }
+    this.tableKeys.set(parsed.table, key);
+    await this.emitTable(parsed.table);
+  }
+
+  /** Report the documents of a table whose key just became available */
+  private async emitTable(table: string): Promise<void> {
+    const result = await this.db.allDocs({
+      include_docs: true,
+      startkey: `${table}_`,
+      endkey: `${table}_\ufff0`,
+    });
+    await this.emitDocs(
+      result.rows.flatMap((row) =>
+        row.doc && (row.doc as EncryptedDoc).d ? [row.doc as EncryptedDoc] : [],
+      ),
+    );
+  }
+
+  /** Report documents that just became readable, or why they aren't */
+  private async emitDocs(encryptedDocs: EncryptedDoc[]): Promise<void> {
+    const docs: Doc[] = [];
+    const errors: DecryptionErrorEvent[] = [];
+    for (const encryptedDoc of encryptedDocs) {
+      try {
+        docs.push(await this.decryptDoc(encryptedDoc));
+      } catch (error) {
+        errors.push({
+          docId: encryptedDoc._id,
+          error: error instanceof Error ? error : new Error(String(error)),
+          rawDoc: encryptedDoc,
+        });
+      }
+    }
+    if (docs.length > 0) {
+      this.emitChange(docs);
+    }
+    if (errors.length > 0 && this.listener.onError) {
+      this.listener.onError(errors);
+    }
+  }
+
+  /** Write (or replace) the share of a table key with a public key */
+  private async writeShare(
+    table: string,
+    tableKey: EncryptionHelper,
+    publicKey: string,
+  ): Promise<void> {
+    const share: TableShare = {
+      _id: await this.shareId(table, publicKey),
+      publicKey,
+      ...(await this.identity!.wrapTableKey(tableKey, table, publicKey)),
+    };
+    try {
+      share._rev = (await this.db.get(share._id))._rev;
+    } catch {
+      // First share with this key
+    }
+    await this.db.put(share);
+  }
+
+  /** Share documents, of one table or all */
+  private async getShares(table?: string): Promise<TableShare[]> {
+    const prefix =
+      table === undefined ? SHARE_DOC_PREFIX : `${SHARE_DOC_PREFIX}${table}:`;
+    const result = await this.db.allDocs({
+      include_docs: true,
+      startkey: prefix,
+      endkey: `${prefix}\ufff0`,
+    });
+    return result.rows
+      .filter((row) => row.doc)
+      .map((row) => row.doc as unknown as TableShare);
+  }
+
+  private async shareId(table: string, publicKey: string): Promise<string> {
+    return `${SHARE_DOC_PREFIX}${table}:${await publicKeyId(publicKey)}`;
+  }
+
+  private parseShareId(
+    id: string,
+  ): { table: string; recipient: string } | null {
+    if (!id.startsWith(SHARE_DOC_PREFIX)) return null;
+    const rest = id.slice(SHARE_DOC_PREFIX.length);
+    const idx = rest.lastIndexOf(":");
+    if (idx === -1) return null;
+    return { table: rest.slice(0, idx), recipient: rest.slice(idx + 1) };
+  }
+
+  private async checkVerifier(
+    helper: EncryptionHelper,
+    verifier: string,
+  ): Promise<void> {
+    let plaintext: string;
+    try {
+      plaintext = await helper.decrypt(verifier);
+    } catch {
+      throw new InvalidPasswordError();
+    }
+    if (plaintext !== VERIFIER_PLAINTEXT) {
+      throw new InvalidPasswordError();
+    }
+  }
+
+  /**
+   * Check a key against existing documents, for stores without a verifier.
+   * Fails only if well-formed documents exist and none of the sampled ones
+   * decrypt; corrupted values say nothing about the password. Unbound
+   * documents count even when they are not allowed: only the key is checked.
+   */
+  private async verifyKeyAgainstDocuments(
+    helper: EncryptionHelper,
+  ): Promise<void> {
+    const result = await this.db.allDocs({ include_docs: true, limit: 50 });
+    let failures = 0;
+    for (const row of result.rows) {
+      const data = (row.doc as EncryptedDoc | undefined)?.d;
+      if (!data || this.isInternalId(row.id)) continue;
+      try {
+        EncryptionHelper.parseEnvelope(data);
+      } catch {
+        continue;
+      }
+      try {
+        await this.decryptBound(helper, data, row.id);
+        return;
+      } catch {
+        // Try without the binding below
+      }
+      try {
+        await helper.decrypt(data);
+        return;
+      } catch {
+        if (++failures >= 5) break;
+      }
+    }
+    if (failures > 0) {
+      throw new InvalidPasswordError();
+    }
+  }
+
+  /** Unlock the data key with the first slot the secret opens */
+  private async unlockKeySlots(
+    meta: StoreMeta,
+    secret: string,
+  ): Promise<EncryptionHelper> {
+    const slots = [...meta.keySlots!].sort(
+      (a, b) =>
+        Number(b.id === this.unlockedSlotId) -
+        Number(a.id === this.unlockedSlotId),
+    );
+    for (const slot of slots) {
+      try {
+        const dataKey = await this.unlockKeySlot(slot, secret);
+        this.unlockedSlotId = slot.id;
+        return dataKey;
+      } catch {
+        // Try the next slot
+      }
+    }
+    throw new InvalidPasswordError();
+  }
+
+  private async unlockKeySlot(
+    slot: KeySlot,
+    secret: string,
+  ): Promise<EncryptionHelper> {
+    const slotHelper = new EncryptionHelper(
+      secret,
+      undefined,
+      slot.passphraseMode,
+      slot.kdf,
+      this.onKdfProgress,
+    );
+    return slotHelper.unwrapKey(slot.wrappedKey);
+  }
+
+  /** The slot that the secret opens, checked against the current data key */
+  private async findKeySlot(
+    meta: StoreMeta,
+    secret: string,
+    dataKeyId: string,
+  ): Promise<KeySlot> {
+    for (const slot of meta.keySlots!) {
+      try {
+        const dataKey = await this.unlockKeySlot(slot, secret);
+        if ((await dataKey.getKeyId()) === dataKeyId) return slot;
+      } catch {
+        // Try the next slot
+      }
+    }
+    throw new InvalidPasswordError("Current password is incorrect");
+  }
+
+  private async createKeySlot(
+    id: string,
+    secret: string,
+    dataKey: EncryptionHelper,
+    options: KeySlotOptions,
+  ): Promise<KeySlot> {
+    const passphraseMode = options.passphraseMode ?? "derive";
+    const kdf =
+      passphraseMode === "derive"
+        ? EncryptionHelper.generateKdfParams(
+            options.kdf ??
+              (options.kdfIterations !== undefined
+                ? { name: "PBKDF2", iterations: options.kdfIterations }
+                : this.kdfSettings),
+          )
+        : undefined;
+    const slotHelper = new EncryptionHelper(
+      secret,
+      undefined,
+      passphraseMode,
+      kdf,
+      this.onKdfProgress,
+    );
+    return {
+      id,
+      passphraseMode,
+      ...(kdf ? { kdf } : {}),
+      wrappedKey: await slotHelper.wrapKey(dataKey),
+    };
+  }
+
+  /**
+   * The metadata, upgraded to key slots if needed. Version 1 stores keep
+   * their password-derived key as the data key, so nothing is re-encrypted.
+   */
+  private async ensureKeySlotMeta(): Promise<StoreMeta> {
+    const meta = await this.getMeta();
+    if (!meta) {
+      throw new Error(
+        "This store predates key slots. Call migrateKeyDerivation() first.",
+      );
+    }
+    if (meta.version === 2) return meta;
+
+    const slot = await this.createKeySlot(
+      PASSWORD_SLOT_ID,
+      this.password,
+      this.encryptionHelper,
+      {
+        passphraseMode: meta.passphraseMode,
+        kdf: meta.kdf,
+      },
+    );
+    const upgraded: StoreMeta = {
+      _id: meta._id,
+      _rev: meta._rev,
+      version: 2,
+      keySlots: [slot],
+      verifier: await this.encryptionHelper.encrypt(VERIFIER_PLAINTEXT),
+      ...(meta.binding ? { binding: meta.binding } : {}),
+    };
+    await this.saveMeta(upgraded);
+    return upgraded;
+  }
+
+  /**
+   * Merge the metadata revisions that lost a replication conflict into the
+   * winning one. Devices that create a store while offline each make their
+   * own data key: the losing keys become retired keys, so the documents
+   * written with them stay readable, and the next rotation re-encrypts
+   * them. Table keys, identity, trusted signers and accepted shares are
+   * kept too. Revisions the password doesn't unlock are left to a device
+   * that knows theirs. If another instance changes the metadata meanwhile,
+   * the merge follows it and starts over. Returns the ids of the keys added.
+   */
+  private async mergeMetaConflicts(): Promise<string[]> {
+    const knownKeyIds = await this.knownKeyIds();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.mergeMetaRevisions();
+        break;
+      } catch (error) {
+        if (
+          (error as { status?: number }).status !== 409 ||
+          attempt >= META_MERGE_RETRIES
+        ) {
+          throw error;
+        }
+        const meta = await this.getMeta();
+        if (meta && meta._rev !== this.metaRev) {
+          await this.applyMeta(meta);
+        }
+      }
+    }
+    return [...(await this.knownKeyIds())].filter(
+      (keyId) => !knownKeyIds.has(keyId),
+    );
+  }
+
+  /** Ids of the data key, retired keys and table keys in use */
+  private async knownKeyIds(): Promise<Set<string>> {
+    const keyIds = new Set<string>();
+    for (const helper of [
+      this.encryptionHelper,
+      ...this.fallbackHelpers,
+      ...this.tableKeys.values(),
+    ]) {
+      keyIds.add(await helper.getKeyId());
+    }
+    return keyIds;
+  }
+
+  /** One attempt of mergeMetaConflicts() */
+  private async mergeMetaRevisions(): Promise<void> {
+    let conflicts: string[] | undefined;
+    try {
+      conflicts = (await this.db.get(META_DOC_ID, { conflicts: true }))
+        ._conflicts;
+    } catch {
+      return;
+    }
+    if (!conflicts?.length) return;
+
+    const meta = await this.ensureKeySlotMeta();
+    const dataKey = this.encryptionHelper;
+    const knownKeyIds = await this.knownKeyIds();
+    const retire = async (key: EncryptionHelper) => {
+      const keyId = await key.getKeyId();
+      if (knownKeyIds.has(keyId)) return;
+      knownKeyIds.add(keyId);
+      meta.retiredKeys = [
+        ...(meta.retiredKeys ?? []),
+        await dataKey.wrapKey(key),
+      ];
+    };
+
+    const merged: string[] = [];
+    for (const rev of conflicts) {
+      const losing = (await this.db.get(META_DOC_ID, { rev })) as StoreMeta;
+      const losingKey = await this.unlockMetaRevision(losing);
+      if (!losingKey) continue;
+
+      await retire(losingKey);
+      for (const wrapped of losing.retiredKeys ?? []) {
+        await retire(await losingKey.unwrapKey(wrapped));
+      }
+      for (const [table, wrapped] of Object.entries(losing.tableKeys ?? {})) {
+        const tableKey = await losingKey.unwrapKey(wrapped);
+        if (meta.tableKeys?.[table]) {
+          await retire(tableKey);
+        } else {
+          knownKeyIds.add(await tableKey.getKeyId());
+          meta.tableKeys = {
+            ...meta.tableKeys,
+            [table]: await dataKey.wrapKey(tableKey),
+          };
+        }
+      }
+      if (losing.identity && !meta.identity) {
+        const identity = await Identity.unwrap(losing.identity, losingKey);
+        meta.identity = await identity.wrap(dataKey);
+      }
+      if (losing.signers) {
+        const signers = await this.decryptSigners(losing.signers, losingKey);
+        if (meta.signers) {
+          for (const [keyId, signer] of await this.decryptSigners(
+            meta.signers,
+            dataKey,
+          )) {
+            signers.set(keyId, signer);
+          }
+        }
+        meta.signers = await this.encryptSigners(signers, dataKey);
+      }
+      if (losing.acceptedShares) {
+        const accepted = await this.decryptAcceptedShares(
+          losing.acceptedShares,
+          losingKey,
+        );
+        if (meta.acceptedShares) {
+          for (const [
+            table,
+            ownerPublicKey,
+          ] of await this.decryptAcceptedShares(meta.acceptedShares, dataKey)) {
+            accepted.set(table, ownerPublicKey);
+          }
+        }
+        meta.acceptedShares = await this.encryptAcceptedShares(
+          accepted,
+          dataKey,
+        );
+      }
+      if (losing.legacyMigration) {
+        meta.legacyMigration = true;
+      }
+      merged.push(rev);
+    }
+    if (merged.length === 0) return;
+
+    await this.saveMeta(meta);
+    for (const rev of merged) {
+      await this.db.remove(META_DOC_ID, rev);
+    }
+    await this.applyMeta(meta, dataKey);
+  }
+
+  /** The data key of a metadata revision, or null if the password is wrong */
+  private async unlockMetaRevision(
+    meta: StoreMeta,
+  ): Promise<EncryptionHelper | null> {
+    if (meta.version === 1) {
+      return new EncryptionHelper(
+        this.password,
+        undefined,
+        meta.passphraseMode,
+        meta.kdf,
+        this.onKdfProgress,
+      );
+    }
+    for (const slot of meta.keySlots ?? []) {
+      try {
+        const dataKey = await this.unlockKeySlot(slot, this.password);
+        if (meta.verifier) {
+          await this.checkVerifier(dataKey, meta.verifier);
+        }
+        return dataKey;
+      } catch {
+        // Try the next slot
+      }
+    }
+    return null;
+  }
+
+  private async getMeta(): Promise<StoreMeta | null> {
+    try {
+      return (await this.db.get(META_DOC_ID)) as StoreMeta;
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveMeta(meta: StoreMeta): Promise<void> {
+    meta._rev = (await this.db.put(meta)).rev;
+    this.metaRev = meta._rev;
+  }
+
+  /** Create the metadata for a new store (or a legacy one being migrated) */
+  private async createMeta(legacyMigration: boolean): Promise<StoreMeta> {
+    const dataKey = EncryptionHelper.generate();
+    const meta: StoreMeta = {
+      _id: META_DOC_ID,
+      version: 2,
+      keySlots: [
+        await this.createKeySlot(PASSWORD_SLOT_ID, this.password, dataKey, {
+          passphraseMode: this.passphraseMode,
+        }),
+      ],
+      ...(legacyMigration ? { legacyMigration } : {}),
+      verifier: await dataKey.encrypt(VERIFIER_PLAINTEXT),
+      binding: this.binding,
+      ...(this.encryptIds && !legacyMigration
+        ? { idKey: await IdHasher.generate().wrap(dataKey) }
+        : {}),
+    };
+    try {
+      await this.saveMeta(meta);
+    } catch (error) {
+      // Another instance created it first - use theirs
+      const existing = await this.getMeta();
+      if (!existing) throw error;
+      await this.applyMeta(existing);
+      return existing;
+    }
+    this.unlockedSlotId = PASSWORD_SLOT_ID;
+    await this.applyMeta(meta, dataKey);
+    return meta;
+  }
+
+  private async hasEncryptedDocs(): Promise<boolean> {
+    return (await this.countUserDocs()) > 0;
+  }
+
+  private async countUserDocs(): Promise<number> {
+    const result = await this.db.allDocs();
+    return result.rows.filter((row) => !this.isInternalId(row.id)).length;
+  }
+
+  /** Deterministic key used by stores created before the metadata doc */
+  private createLegacyHelper(password: string): EncryptionHelper {
+    return new EncryptionHelper(
+      password,
+      undefined,
+      this.passphraseMode,
+      undefined,
+      this.onKdfProgress,
+    );
+  }
+
+  /** Design docs, the metadata doc and share docs are not user documents */
+  private isInternalId(id: string): boolean {
+    return (
+      id.startsWith("_design/") ||
+      id === META_DOC_ID ||
+      id.startsWith(SHARE_DOC_PREFIX)
+    );
+  }
+
+  /**
+   * Find the documents of a table that match a selector, sorted and paged.
+   * Documents are decrypted to be matched: for large tables, see findBy().
+   *
+   * @example
+   * await store.query<Expense>("expenses", {
+   *   where: { category: { $in: ["food", "travel"] }, amount: { $gt: 10 } },
+   *   orderBy: [{ date: "desc" }],
+   *   limit: 20,
+   * });
+   */
+  async query<T extends Doc = Doc>(
+    table: string,
+    query: Query<T> = {},
+  ): Promise<T[]> {
+    await this.ensureInitialized();
+    const matches = compileSelector(query.where ?? {});
+    // Scans are in id order, so without another order we can stop early
+    const needed =
+      query.orderBy || this.idHasher
+        ? Infinity
+        : (query.offset ?? 0) + (query.limit ?? Infinity);
+
+    const docs: T[] = [];
+    const errors: DecryptionErrorEvent[] = [];
+    const ids = await this.idsFromIndex(table, query.where ?? {});
+    if (ids) {
+      // Only the documents in the index's range
+      const result = await this.db.allDocs({ keys: ids, include_docs: true });
+      const page = await this.decryptTable(
+        this.userDocs(result.rows as { id: string; doc?: any }[]),
+        table,
+      );
+      docs.push(...(page.docs.filter(matches) as T[]));
+      errors.push(...page.errors);
+    } else {
+      for await (const page of this.scan(table, {}, DEFAULT_SCAN_BATCH_SIZE)) {
+        docs.push(...(page.docs.filter(matches) as T[]));
+        errors.push(...page.errors);
+        if (docs.length >= needed) break;
+      }
+    }
+
+    if (errors.length > 0 && this.listener.onError) {
+      this.listener.onError(errors);
+    }
+
+    return orderAndPage(docs, query);
+  }
+
+  /**
+   * Run a query now, and again whenever a document of the table changes
+   * (see query()). Changes come from the change feed loadAll() starts.
+   * Returns a function that stops the subscription.
+   */
+  subscribe<T extends Doc = Doc>(
+    table: string,
+    query: Query<T>,
+    onResults: (docs: T[]) => void,
+  ): () => void {
+    const live = new LiveQuery(table, query, onResults);
+    this.liveQueries.add(live);
+    this.getAll(table)
+      .then((docs) => {
+        if (this.liveQueries.has(live)) live.load(docs);
+      })
+      .catch((error) =>
+        console.error("[EncryptedStore] subscribe error:", error),
+      );
+    return () => {
+      this.liveQueries.delete(live);
+    };
+  }
+
+  /**
+   * Keep a sorted index of some fields of a table's documents, so that
+   * query() only decrypts the documents in range of conditions on them,
+   * such as `{ date: { $gte: "2024-01-01", $lt: "2024-02-01" } }`.
+   *
+   * The index is built on first use and saved, encrypted, in a local
+   * document. Later, on this device, only the changes since are read.
+   * Define indexes each time the store is created.
+   */
+  async defineIndex(table: string, fields: string[]): Promise<void> {
+    await this.ensureInitialized();
+    if (fields.length === 0) throw new Error("An index needs fields");
+    const name = `${table}\u0000${fields.join("\u0000")}`;
+    if (!this.secondaryIndexes.has(name)) {
+      this.secondaryIndexes.set(name, new SecondaryIndex(table, fields));
+    }
+    await this.updateIndexes();
+  }
+
+  /**
+   * Stored ids of the documents that may match a selector, from an index
+   * of the table, or null if no index helps
+   */
+  private async idsFromIndex(
+    table: string,
+    where: Selector<any>,
+  ): Promise<string[] | null> {
+    for (const index of this.secondaryIndexes.values()) {
+      if (index.table !== table) continue;
+      const range = indexRange(index.fields, where);
+      if (!range) continue;
+      await this.updateIndexes();
+      return index.loaded ? index.lookup(range) : null;
+    }
+    return null;
+  }
+
+  /**
+   * Bring every secondary index up to date with the database, after the
+   * updates already queued
+   */
+  private updateIndexes(): Promise<void> {
+    if (!this.queuedIndexUpdate) {
+      const update = this.indexUpdates.then(async () => {
+        this.queuedIndexUpdate = null;
+        for (const index of this.secondaryIndexes.values()) {
+          await this.updateIndex(index);
+        }
+      });
+      this.queuedIndexUpdate = update;
+      this.indexUpdates = update.catch(() => {});
+    }
+    return this.queuedIndexUpdate;
+  }
+
+  /** Read an index's saved entries, then apply the changes since */
+  private async updateIndex(index: SecondaryIndex): Promise<void> {
+    await this.ensureInitialized();
+    const localId = await this.indexDocId(index);
+    if (!index.loaded) {
+      await this.loadIndex(index, localId);
+    }
+
+    const prefix = await this.tablePrefix(index.table);
+    const seq = index.seq;
+    for (;;) {
+      const result = await this.db.changes({
+        since: index.seq,
+        include_docs: true,
+        limit: DEFAULT_SCAN_BATCH_SIZE,
+      });
+      const changes = result.results.filter((change) =>
+        change.id.startsWith(prefix),
+      );
+      const encryptedDocs = changes
+        .filter((change) => !change.deleted)
+        .map((change) => change.doc as EncryptedDoc | undefined)
+        .filter((doc): doc is EncryptedDoc => !!doc?.d);
+      const outcomes = await this.decryptMany(encryptedDocs);
+      // Locked meanwhile: the documents couldn't be decrypted
+      if (this.locked) return;
+
+      for (const change of changes) index.delete(change.id);
+      for (const [i, outcome] of outcomes.entries()) {
+        // Unreadable documents are left out, as getAll() leaves them out
+        if (
+          "doc" in outcome &&
+          outcome.doc._table === index.table &&
+          !this.isHidden(outcome.doc)
+        ) {
+          index.set(encryptedDocs[i]._id, outcome.doc);
+        }
+      }
+      index.seq = result.last_seq;
+      if (result.results.length < DEFAULT_SCAN_BATCH_SIZE) break;
+    }
+
+    if (index.seq !== seq) {
+      let rev: string | undefined;
+      try {
+        rev = (await this.db.get(localId))._rev;
+      } catch {
+        // First save
+      }
+      await this.db.put({
+        _id: localId,
+        ...(rev ? { _rev: rev } : {}),
+        d: await this.encryptionHelper.encrypt(index.serialize(), localId),
+      });
+    }
+  }
+
+  /**
+   * Read the saved blind index tokens of a shard, then apply the changes
+   * since. They are kept in local documents rather than a view, as design
+   * documents would sync and need admin rights on the server.
+   */
+  private async updateTokenIndex(shard: string): Promise<TokenIndex> {
+    const localId = TOKEN_INDEX_DOC_PREFIX + shard;
+    let index = this.tokenIndexes.get(shard);
+    if (!index) {
+      index = new TokenIndex();
+      try {
+        index.load(await this.db.get<SavedTokenIndex>(localId));
+      } catch {
+        // Not saved yet: build it
+        index.clear();
+      }
+      this.tokenIndexes.set(shard, index);
+    }
+
+    const seq = index.seq;
+    for (;;) {
+      const result = await this.db.changes({
+        since: index.seq,
+        include_docs: true,
+        limit: DEFAULT_SCAN_BATCH_SIZE,
+      });
+      for (const change of result.results) {
+        if (this.isInternalId(change.id)) continue;
+        const doc = change.doc as EncryptedDoc | undefined;
+        const tokens = (!change.deleted && doc?.i) || [];
+        index.set(
+          change.id,
+          tokens.filter((token) => tokenShard(token) === shard),
+        );
+      }
+      index.seq = result.last_seq;
+      if (result.results.length < DEFAULT_SCAN_BATCH_SIZE) break;
+    }
+
+    if (index.seq !== seq) {
+      let rev: string | undefined;
+      try {
+        rev = (await this.db.get(localId))._rev;
+      } catch {
+        // First save
+      }
+      try {
+        await this.db.put({
+          _id: localId,
+          ...(rev ? { _rev: rev } : {}),
+          ...index.serialize(),
+        });
+      } catch (error) {
+        // Saved meanwhile by another store on this database
+        if ((error as { status?: number }).status !== 409) throw error;
+      }
+    }
+    return index;
+  }
+
+  /** Read an index saved by updateIndex(), if it can be */
+  private async loadIndex(
+    index: SecondaryIndex,
+    localId: string,
+  ): Promise<void> {
+    try {
+      const saved = (await this.db.get(localId)) as { d: string };
+      index.deserialize(await this.encryptionHelper.decrypt(saved.d, localId));
+    } catch {
+      // Not saved yet, or under a key since replaced: build it again
+      index.clear();
+    }
+    index.loaded = true;
+  }
+
+  /** Id of the local document an index is saved in */
+  private async indexDocId(index: SecondaryIndex): Promise<string> {
+    const digest = await defaultCrypto().subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode([index.table, ...index.fields].join("\u0000")),
+    );
+    return `${INDEX_DOC_PREFIX}${toHex(new Uint8Array(digest, 0, 8))}`;
+  }
+
+  /**
+   * Read the documents of a table (or all tables) a page of rows at a
+   * time, with allDocs ranges over the table's id prefix. Pages without a
+   * page size are unbounded.
+   */
+  private async *scan(
+    table: string | undefined,
+    options: ScanOptions,
+    pageSize: number | undefined,
+  ): AsyncGenerator<{ docs: Doc[]; errors: DecryptionErrorEvent[] }> {
+    await this.ensureInitialized();
+    if (options.startAfter !== undefined && table === undefined) {
+      throw new Error("startAfter needs a table");
+    }
+
+    const prefix = table !== undefined ? await this.tablePrefix(table) : "";
+    const descending = options.descending ?? false;
+    const low = prefix;
+    const high = `${prefix}\ufff0`;
+    let after =
+      options.startAfter !== undefined
+        ? await this.toStoredId(table!, options.startAfter)
+        : undefined;
+    let remaining = options.limit ?? Infinity;
+
+    while (remaining > 0) {
+      // The store may have been locked between pages
+      await this.ensureInitialized();
+      const limit = Math.min(pageSize ?? Infinity, remaining);
+      const result = await this.db.allDocs({
+        include_docs: true,
+        startkey: after ?? (descending ? high : low),
+        endkey: descending ? low : high,
+        descending,
+        // One more, as the range starts at the last row of the previous page
+        ...(Number.isFinite(limit)
+          ? { limit: limit + (after !== undefined ? 1 : 0) }
+          : {}),
+      });
+      const rows = result.rows.filter((row) => row.id !== after);
+      if (rows.length === 0) return;
+      after = rows[rows.length - 1].id;
+
+      const page = await this.decryptTable(this.userDocs(rows), table);
+      const docs = page.docs.slice(0, remaining);
+      remaining -= docs.length;
+      yield { docs, errors: page.errors };
+
+      if (rows.length < limit) return;
+    }
+  }
+
+  /** Decrypt documents, keeping those of a table (if given) */
+  private async decryptTable(
+    encryptedDocs: EncryptedDoc[],
+    table: string | undefined,
+  ): Promise<{ docs: Doc[]; errors: DecryptionErrorEvent[] }> {
+    const docs: Doc[] = [];
+    const errors: DecryptionErrorEvent[] = [];
+    const outcomes = await this.decryptMany(encryptedDocs);
+    for (const [index, encryptedDoc] of encryptedDocs.entries()) {
+      const outcome = outcomes[index];
+      if (
+        "doc" in outcome &&
+        ((table !== undefined && outcome.doc._table !== table) ||
+          this.isHidden(outcome.doc))
+      ) {
+        continue;
+      }
+      try {
+        if ("error" in outcome) throw outcome.error;
+        docs.push(this.validate(outcome.doc._table, outcome.doc));
+      } catch (error) {
+        errors.push({
+          docId: encryptedDoc._id,
+          error: error as Error,
+          rawDoc: encryptedDoc,
+        });
+      }
+    }
+    return { docs, errors };
+  }
+
+  /** The encrypted user documents among query rows */
+  private userDocs(
+    rows: { id: string; doc?: PouchDB.Core.Document<any> }[],
+  ): EncryptedDoc[] {
+    return rows
+      .filter((row) => row.doc && !this.isInternalId(row.id))
+      .map((row) => row.doc as EncryptedDoc)
+      .filter((encryptedDoc) => encryptedDoc.d);
+  }
+
+  /**
+   * Decrypt documents in order: in the decryption pool if there is one,
+   * then a few at a time here. Errors are the ones decryptDoc() throws.
+   */
+  private async decryptMany(
+    encryptedDocs: EncryptedDoc[],
+  ): Promise<DecryptOutcome[]> {
+    const payloads = this.decryptionPool
+      ? await this.decryptInPool(this.decryptionPool, encryptedDocs)
+      : [];
+    return mapWithConcurrency(
+      encryptedDocs,
+      this.decryptConcurrency,
+      async (encryptedDoc, index): Promise<DecryptOutcome> => {
+        try {
+          return {
+            doc: await this.decryptDoc(
+              encryptedDoc,
+              payloads[index] ?? undefined,
+            ),
+          };
+        } catch (error) {
+          return {
+            error: error instanceof Error ? error : new Error(String(error)),
+          };
+        }
+      },
+    );
+  }
+
+  /**
+   * Payloads the pool could decrypt, by index (null for the others).
+   * Legacy values don't name their key, so they are left for this thread.
+   */
+  private async decryptInPool(
+    pool: DecryptionPool,
+    encryptedDocs: EncryptedDoc[],
+  ): Promise<(Record<string, any> | null)[]> {
+    const helpers = new Map<string, EncryptionHelper>();
+    for (const helper of [
+      this.encryptionHelper,
+      ...this.tableKeys.values(),
+      ...this.fallbackHelpers,
+    ]) {
+      helpers.set(await helper.getKeyId(), helper);
+    }
+
+    const keys: Record<string, Uint8Array> = {};
+    const requests: DecryptRequest[] = [];
+    const indexes: number[] = [];
+    for (const [index, encryptedDoc] of encryptedDocs.entries()) {
+      const keyId = this.getKeyIdOf(encryptedDoc.d);
+      const helper = keyId !== null ? helpers.get(keyId) : undefined;
+      if (keyId === null || !helper) continue;
+      keys[keyId] ??= await helper.exportKey();
+      requests.push({
+        keyId,
+        data: encryptedDoc.d,
+        associatedData: this.associatedDataFor(encryptedDoc._id),
+        allowUnbound: this.allowUnboundDocuments,
+      });
+      indexes.push(index);
+    }
+
+    const payloads = new Array<Record<string, any> | null>(
+      encryptedDocs.length,
+    ).fill(null);
+    if (requests.length === 0) return payloads;
+    try {
+      const results = await pool.decrypt(keys, requests);
+      results.forEach((result, i) => (payloads[indexes[i]] = result));
+    } catch (error) {
+      console.warn("[EncryptedStore] Decryption pool failed:", error);
+    }
+    return payloads;
+  }
+
+  /** Decrypt a document, unless its payload was already decrypted */
+  private async decryptDoc(
+    encryptedDoc: EncryptedDoc,
+    payload?: Record<string, any>,
+  ): Promise<Doc> {
+    const parsed = this.parseFullId(encryptedDoc._id);
+    if (!parsed) throw new Error(`Invalid ID format: ${encryptedDoc._id}`);
+
+    const author = await this.verifyAuthor(encryptedDoc);
+    const { _files, _v, _t, _trashed, _exp, ...decrypted } =
+      payload ?? (await this.readPayload(encryptedDoc));
+    const signed = {
+      ...(encryptedDoc._rev !== undefined ? { _rev: encryptedDoc._rev } : {}),
+      ...(author !== undefined ? { _author: author } : {}),
+      ...(_trashed !== undefined ? { _trashedAt: _trashed } : {}),
+      ...(_exp !== undefined ? { _expiresAt: _exp } : {}),
+    };
+    if (this.idHasher) {
+      // The stored id is a hash: the real one is in the payload
+      const { _id, _table, ...data } = decrypted;
+      return this.upgrade({ _id, _table, ...signed, ...data }, _v ?? 0);
+    }
+    return this.upgrade(
+      { _id: parsed.id, _table: parsed.table, ...signed, ...decrypted },
+      _v ?? 0,
+    );
+  }
+
+  /**
+   * Apply the migrations a document read at a schema version is missing,
+   * and queue writing it back if writeBackMigrations is set
+   */
+  private async upgrade(doc: Doc, version: number): Promise<Doc> {
+    const steps = this.migrations[doc._table] ?? [];
+    if (version > steps.length) {
+      throw new SchemaVersionError(
+        `Document "${doc._id}" of table "${doc._table}" has schema version ${version}, newer than ${steps.length}`,
+      );
+    }
+    if (version === steps.length) return doc;
+
+    let upgraded: Record<string, any> = doc;
+    for (const step of steps.slice(version)) {
+      upgraded = await step(upgraded as Doc);
+    }
+    // Steps change fields, not where the document is or who wrote it
+    const { _id, _table, _rev, _author, _trashedAt, _expiresAt } = doc;
+    const result: Doc = {
+      ...upgraded,
+      _id,
+      _table,
+      ...(_rev !== undefined ? { _rev } : {}),
+      ...(_author !== undefined ? { _author } : {}),
+      ...(_trashedAt !== undefined ? { _trashedAt } : {}),
+      ...(_expiresAt !== undefined ? { _expiresAt } : {}),
+    };
+    // Writing a trashed document back would take it out of the trash
+    if (
+      this.writeBackMigrations &&
+      _rev !== undefined &&
+      _trashedAt === undefined
+    ) {
+      this.writeBack(result);
+    }
+    return result;
+  }
+
+  /**
+   * Write an upgraded document back, one at a time. Losing to a write
+   * made since it was read is fine: that one is upgraded when read.
+   */
+  private writeBack(doc: Doc): void {
+    this.migrationWrites = this.migrationWrites
+      .then(() => this.put(doc._table, { ...doc }))
+      .then(
+        () => {},
+        (error) => {
+          if (
+            !(error instanceof ConflictError) &&
+            !(error instanceof StoreLockedError)
+          ) {
+            console.warn(
+              "[EncryptedStore] Writing back a migrated document failed:",
+              error,
+            );
+          }
+        },
+      );
+  }
+
+  /**
+   * The payload of a document about to be overwritten (null if it can't be
+   * read). Throws SchemaVersionError if it is at a newer schema version
+   * than this store writes, so that writing over it would lose its upgrade.
+   */
+  private async readCurrent(
+    table: string,
+    id: string,
+    encryptedDoc: EncryptedDoc,
+  ): Promise<Record<string, any> | null> {
+    let payload: Record<string, any>;
+    try {
+      payload = await this.readPayload(encryptedDoc);
+    } catch {
+      // Unreadable documents can be overwritten, as always
+      return null;
+    }
+    const version = payload._v ?? 0;
+    const current = this.migrations[table]?.length ?? 0;
+    if (version > current) {
+      throw new SchemaVersionError(
+        `Document "${id}" of table "${table}" has schema version ${version}, newer than ${current}: it can't be overwritten`,
+      );
+    }
+    return payload;
+  }
+
+  /** The expiry to write: the one given, or else the current one */
+  private expiryFor(
+    options: PutOptions,
+    current: Record<string, any> | null,
+  ): number | undefined {
+    if (options.expiresAt === null) return undefined;
+    if (options.expiresAt !== undefined) {
+      return new Date(options.expiresAt).getTime();
+    }
+    return current?._exp;
+  }
+
+  /** The decrypted payload, including internal fields */
+  private async readPayload(
+    encryptedDoc: EncryptedDoc,
+  ): Promise<Record<string, any>> {
+    return JSON.parse(
+      await this.decryptPayload(encryptedDoc.d, encryptedDoc._id),
+    );
+  }
+
+  /** Attachment manifests of a document (undefined if unreadable or none) */
+  private async readFiles(
+    encryptedDoc: EncryptedDoc,
+  ): Promise<Record<string, AttachmentManifest> | undefined> {
+    if (!encryptedDoc._attachments) return undefined;
+    try {
+      return (await this.readPayload(encryptedDoc))._files;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Rewrite a document's attachment manifests. Chunks no manifest refers
+   * to (replaced, deleted or from an interrupted upload) are dropped.
+   */
+  private async updateFiles(
+    fullId: string,
+    update: (
+      files: Record<string, AttachmentManifest>,
+    ) => Record<string, AttachmentManifest>,
+  ): Promise<void> {
+    const current = (await this.db.get(fullId)) as EncryptedDoc;
+    const payload = await this.readPayload(current);
+    const files = update(payload._files ?? {});
+    if (Object.keys(files).length > 0) {
+      payload._files = files;
+    } else {
+      delete payload._files;
+    }
+    payload._t = Date.now();
+    await this.db.put(await this.rewrite(current, payload));
+  }
+
+  /**
+   * A stored document with a new payload, at its current revision. Keeps
+   * the attachment chunks the payload's manifests refer to.
+   */
+  private async rewrite(
+    current: EncryptedDoc,
+    payload: Record<string, any>,
+  ): Promise<EncryptedDoc> {
+    const fullId = current._id;
+    const d = await this.keyFor(fullId).encrypt(
+      JSON.stringify(payload),
+      this.associatedDataFor(fullId),
+    );
+    return {
+      _id: fullId,
+      _rev: current._rev,
+      d,
+      ...(await this.blindIndexFor(this.tableOf(fullId, payload), payload)),
+      ...(await this.signatureFor(fullId, d)),
+      _attachments: this.referencedAttachments(
+        current._attachments,
+        payload._files ?? {},
+      ),
+    };
+  }
+
+  /** The attachment stubs that hold chunks of the given attachments */
+  private referencedAttachments(
+    attachments: PouchDB.Core.Attachments | undefined,
+    files: Record<string, AttachmentManifest>,
+  ): PouchDB.Core.Attachments {
+    const ids = new Set(Object.values(files).map((manifest) => manifest.id));
+    return Object.fromEntries(
+      Object.entries(attachments ?? {}).filter(([name]) =>
+        ids.has(name.slice(0, name.indexOf("/"))),
+      ),
+    );
+  }
+
+  /**
+   * Decrypt with the current key, a table key, or an older one mid-rotation.
+   * Current values name their key; legacy values are tried with each.
+   */
+  private async decryptPayload(data: string, fullId: string): Promise<string> {
+    const keyId = this.getKeyIdOf(data);
+    if (keyId !== null) {
+      for (const helper of [
+        ...this.tableKeys.values(),
+        ...this.fallbackHelpers,
+      ]) {
+        if ((await helper.getKeyId()) === keyId) {
+          return await this.decryptBound(helper, data, fullId);
+        }
+      }
+      return await this.decryptBound(this.encryptionHelper, data, fullId);
+    }
+
+    // Legacy values don't name their key: try each one
+    try {
+      return await this.decryptBound(this.encryptionHelper, data, fullId);
+    } catch (error) {
+      for (const fallback of this.fallbackHelpers) {
+        try {
+          return await this.decryptBound(fallback, data, fullId);
+        } catch {
+          // Try the next key
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypt a value bound to the document it is stored in. Unbound values
+   * (written before binding) are accepted only in compatibility mode.
+   */
+  private async decryptBound(
+    helper: EncryptionHelper,
+    data: string,
+    fullId: string,
+  ): Promise<string> {
+    try {
+      return await helper.decrypt(data, this.associatedDataFor(fullId));
+    } catch (error) {
+      if (!this.allowUnboundDocuments) throw error;
+      try {
+        return await helper.decrypt(data);
+      } catch {
+        throw error;
+      }
+    }
+  }
+
+  /** Whether a document decrypts with its key bound to its id */
+  private async isBound(encryptedDoc: EncryptedDoc): Promise<boolean> {
+    try {
+      await this.keyFor(encryptedDoc._id).decrypt(
+        encryptedDoc.d,
+        this.associatedDataFor(encryptedDoc._id),
+      );
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Associated data binding a ciphertext to where it is stored */
+  private associatedDataFor(fullId: string): string {
+    if (this.binding === "table") {
+      const parsed = this.parseFullId(fullId);
+      return `table:${parsed ? parsed.table : fullId}`;
+    }
+    return `id:${fullId}`;
+  }
+
+  /** The key a document is written with: its table's, or the data key */
+  private keyFor(fullId: string): EncryptionHelper {
+    const parsed = this.idHasher ? null : this.parseFullId(fullId);
+    return parsed ? this.keyForTable(parsed.table) : this.encryptionHelper;
+  }
+
+  private keyForTable(table: string): EncryptionHelper {
+    return (
+      (!this.idHasher && this.tableKeys.get(table)) || this.encryptionHelper
+    );
+  }
+
+  /** The table of a document, given its decrypted payload */
+  private tableOf(
+    fullId: string,
+    payload: Record<string, any>,
+  ): string | undefined {
+    return this.idHasher ? payload._table : this.parseFullId(fullId)?.table;
+  }
+
+  /** Blind index tokens for a document's payload, if its table has any */
+  private async blindIndexFor(
+    table: string | undefined,
+    payload: Record<string, any>,
+  ): Promise<{ i?: string[] }> {
+    const fields = table !== undefined ? this.blindIndexes[table] : undefined;
+    if (!fields?.length) return {};
+    const tokens = await (
+      await this.getBlindIndex(table!)
+    ).tokens(payload, fields);
+    return tokens.length > 0 ? { i: tokens } : {};
+  }
+
+  /** Whether a document may belong to a table with blind indexes */
+  private mayHaveBlindIndex(fullId: string): boolean {
+    // Encrypted ids hide the table
+    if (this.idHasher) return Object.keys(this.blindIndexes).length > 0;
+    const table = this.parseFullId(fullId)?.table;
+    return table !== undefined && !!this.blindIndexes[table]?.length;
+  }
+
+  /** The blind index of a table, for the key its documents use now */
+  private async getBlindIndex(table: string): Promise<BlindIndex> {
+    const key = this.keyForTable(table);
+    const cacheKey = `${await key.getKeyId()}:${table}`;
+    let index = this.blindIndexCache.get(cacheKey);
+    if (!index) {
+      index = BlindIndex.forTable(key, table);
+      this.blindIndexCache.set(cacheKey, index);
+    }
+    return index;
+  }
+
+  /** Key id recorded in an encrypted value (null if legacy or unreadable) */
+  private getKeyIdOf(data: string): string | null {
+    try {
+      return EncryptionHelper.parseEnvelope(data).keyId;
+    } catch {
+      return null;
+    }
+  }
+
+  private async getPasswordChangeCheckpoint(): Promise<PasswordChangeCheckpoint | null> {
+    try {
+      return (await this.db.get(
+        PASSWORD_CHANGE_CHECKPOINT_ID,
+      )) as PasswordChangeCheckpoint;
+    } catch {
+      return null;
+    }
+  }
+
+  private async encryptDoc(
+    doc: any,
+    table: string,
+    fullId: string,
+    files?: Record<string, AttachmentManifest>,
+    expiresAt?: number,
+  ): Promise<EncryptedDoc> {
+    const data: Record<string, any> = {};
+    for (const [key, value] of Object.entries(doc)) {
+      if (!key.startsWith("_")) {
+        data[key] = value;
+      }
+    }
+    if (this.idHasher) {
+      // User fields never start with "_", so these can't collide
+      data._id = doc._id;
+      data._table = table;
+    }
+    if (files) {
+      data._files = files;
+    }
+    const version = this.migrations[table]?.length ?? 0;
+    if (version > 0) {
+      data._v = version;
+    }
+    data._t = Date.now();
+    if (expiresAt !== undefined) {
+      data._exp = expiresAt;
+    }
+
+    const d = await this.keyFor(fullId).encrypt(
+      JSON.stringify(data),
+      this.associatedDataFor(fullId),
+    );
+    return {
+      _id: fullId,
+      d,
+      ...(await this.blindIndexFor(table, data)),
+      ...(await this.signatureFor(fullId, d)),
+    };
+  }
+
+  /** The id a document is stored under: `${table}_${id}`, or its hash */
+  private async toStoredId(table: string, id: string): Promise<string> {
+    return this.idHasher ? this.idHasher.storedId(table, id) : `${table}_${id}`;
+  }
+
+  /** The prefix of the stored ids of a table's documents */
+  private async tablePrefix(table: string): Promise<string> {
+    return this.idHasher ? this.idHasher.tablePrefix(table) : `${table}_`;
+  }
+
+  /**
+   * Deletion marker. With encrypted ids it carries the real table and id,
+   * encrypted, so that other devices can report the deletion.
+   */
+  private async createTombstone(
+    fullId: string,
+    rev: string,
+    parsed: { table: string; id: string } | null,
+  ): Promise<Tombstone> {
+    const tombstone: Tombstone = { _id: fullId, _rev: rev, _deleted: true };
+    if (!this.idHasher || !parsed) return tombstone;
+    return {
+      ...tombstone,
+      d: await this.encryptionHelper.encrypt(
+        JSON.stringify({ _id: parsed.id, _table: parsed.table }),
+        this.associatedDataFor(fullId),
+      ),
+    };
+  }
+
+  /** Tombstones for every user document */
+  private async createAllTombstones(): Promise<Tombstone[]> {
+    // Wiping must work without the password (though not while locked),
+    // but with it the tombstones can carry the real ids
+    await this.ensureInitialized().catch(() => {});
+
+    const result = await this.db.allDocs({ include_docs: !!this.idHasher });
+    const tombstones: Tombstone[] = [];
+    for (const row of result.rows) {
+      if (this.isInternalId(row.id)) continue;
+      let parsed: { table: string; id: string } | null = null;
+      if (this.idHasher) {
+        try {
+          const doc = await this.decryptDoc(row.doc as EncryptedDoc);
+          parsed = { table: doc._table, id: doc._id };
+        } catch {
+          // Unreadable: delete it without its real id
+        }
+      }
+      tombstones.push(
+        await this.createTombstone(row.id, row.value.rev, parsed),
+      );
+    }
+    return tombstones;
+  }
+
+  /** Table and id of a deleted document, if they can be known */
+  private async parseDeletedId(
+    fullId: string,
+    tombstone: EncryptedDoc | undefined,
+  ): Promise<{ table: string; id: string } | null> {
+    if (!this.idHasher) return this.parseFullId(fullId);
+    if (!tombstone?.d) return null;
+    try {
+      const { _id, _table } = JSON.parse(
+        await this.decryptPayload(tombstone.d, fullId),
+      );
+      return { table: _table, id: _id };
+    } catch {
+      return null;
+    }
   }
 
   private parseFullId(fullId: string): { table: string; id: string } | null {
@@ -2,35 +2,47 @@
  * AES-256-GCM encryption using WebCrypto API
  */
 
-interface CryptoInterface {
-  subtle: {
-    digest(algorithm: string, data: BufferSource): Promise<ArrayBuffer>;
-    importKey(
-      format: string,
-      keyData: BufferSource,
-      algorithm: string | object,
-      extractable: boolean,
-      keyUsages: string[],
-    ): Promise<CryptoKey>;
-    encrypt(
-      algorithm: string | object,
-      key: CryptoKey,
-      data: BufferSource,
-    ): Promise<ArrayBuffer>;
-    decrypt(
-      algorithm: string | object,
-      key: CryptoKey,
-      data: BufferSource,
-    ): Promise<ArrayBuffer>;
-    deriveBits(
-      algorithm: object,
-      baseKey: CryptoKey,
-      length: number,
-    ): Promise<ArrayBuffer>;
-  };
-  getRandomValues<T extends ArrayBufferView>(array: T): T;
+import {
+  defaultCrypto,
+  toHex,
+  toBase64,
+  fromBase64,
+  toBase64Url,
+  fromBase64Url,
+} from "./cryptoUtils.js";
+import type { CryptoInterface } from "./cryptoUtils.js";
+import {
+  Pbkdf2,
+  createKeyDerivation,
+  generateKdfParams,
+  DEFAULT_PBKDF2_ITERATIONS,
+} from "./kdf.js";
+import type {
+  KdfParams,
+  KdfSettings,
+  KdfProgress,
+  KeyDerivation,
+} from "./kdf.js";
+
+/**
+ * Header of an encrypted value.
+ *
+ * Current values are `"2.A256GCM.<keyId>.b64u.<payload>"`, where the payload
+ * is base64url(iv || ciphertext). Legacy values are hex `"<iv>|<ciphertext>"`
+ * and are reported as version 1.
+ */
+interface EnvelopeHeader {
+  version: number;
+  algorithm: string;
+  /** Id of the key that encrypted the value (see getKeyId); null for legacy */
+  keyId: string | null;
+  encoding: string;
 }
 
+const ENVELOPE_VERSION = 2;
+const ENVELOPE_ALGORITHM = "A256GCM";
+const ENVELOPE_ENCODING = "b64u";
+
 class DecryptionError extends Error {
   constructor(message: string) {
     super(message);
@@ -41,59 +53,105 @@ class DecryptionError extends Error {
 
 class EncryptionHelper {
   private keyPromise: Promise<CryptoKey> | null = null;
+  private keyIdPromise: Promise<string> | null = null;
+  /** False for raw-key helpers, whose key can't be derived again */
+  private canDerive = true;
   private readonly passphrase: string;
   private readonly crypto: CryptoInterface;
   private readonly passphraseMode: "derive" | "raw";
+  private readonly kdf: KdfParams | KeyDerivation | null;
+  private readonly onKdfProgress: KdfProgress | undefined;
 
+  /**
+   * @param kdf - Key derivation (or its recorded parameters) for `"derive"`
+   *   mode. Without it, the legacy deterministic PBKDF2 derivation is used
+   *   (passphrase as its own salt).
+   * @param onKdfProgress - Called while the key is derived
+   */
   constructor(
     passphrase: string,
     crypto?: CryptoInterface,
     passphraseMode: "derive" | "raw" = "derive",
+    kdf?: KdfParams | KeyDerivation,
+    onKdfProgress?: KdfProgress,
   ) {
     this.passphrase = passphrase;
-    this.crypto =
-      crypto ||
-      (typeof window !== "undefined" ? window.crypto : (global as any).crypto);
+    this.crypto = crypto || defaultCrypto();
     this.passphraseMode = passphraseMode;
+    this.kdf = kdf || null;
+    this.onKdfProgress = onKdfProgress;
+  }
+
+  /** Helper for an existing raw 256-bit key, such as an unwrapped data key */
+  static fromRawKey(
+    rawKey: Uint8Array,
+    crypto?: CryptoInterface,
+  ): EncryptionHelper {
+    const helper = new EncryptionHelper("", crypto, "raw");
+    helper.canDerive = false;
+    helper.keyPromise = helper.crypto.subtle.importKey(
+      "raw",
+      rawKey as BufferSource,
+      "AES-GCM",
+      true,
+      ["encrypt", "decrypt"],
+    );
+    return helper;
+  }
+
+  /** Helper for a new random 256-bit key */
+  static generate(crypto: CryptoInterface = defaultCrypto()): EncryptionHelper {
+    return EncryptionHelper.fromRawKey(
+      crypto.getRandomValues(new Uint8Array(32)),
+      crypto,
+    );
+  }
+
+  /**
+   * Fresh key derivation parameters with a random 16-byte salt.
+   * A number is the PBKDF2 iteration count.
+   */
+  static generateKdfParams(
+    settings: KdfSettings | number = { name: "PBKDF2" },
+    crypto: CryptoInterface = defaultCrypto(),
+  ): KdfParams {
+    return generateKdfParams(
+      typeof settings === "number"
+        ? { name: "PBKDF2", iterations: settings }
+        : settings,
+      crypto,
+    );
+  }
+
+  /**
+   * Drop the cached key. Passphrase helpers derive it again when next used;
+   * helpers for a raw key can't be used any more.
+   */
+  forgetKey(): void {
+    this.keyPromise = null;
+    this.keyIdPromise = null;
   }
 
   private async getKey(): Promise<CryptoKey> {
     if (this.keyPromise) {
       return this.keyPromise;
     }
+    if (!this.canDerive) {
+      throw new Error("The key was forgotten");
+    }
 
     this.keyPromise = (async () => {
       const enc = new TextEncoder();
       const pwUtf8 = enc.encode(this.passphrase);
 
-      let keyMaterial: ArrayBuffer;
+      let keyMaterial: BufferSource;
 
       if (this.passphraseMode === "derive") {
-        // User passphrase - use PBKDF2 to derive strong key
-        // No salt for deterministic behavior (same passphrase = same key everywhere)
-        // Use passphrase itself as "salt" for PBKDF2
-        const iterations = 100000; // 100k iterations - good security/performance balance
-
-        // Import passphrase as key material for PBKDF2
-        const baseKey = await this.crypto.subtle.importKey(
-          "raw",
-          pwUtf8,
-          "PBKDF2",
-          false,
-          ["deriveBits"],
-        );
-
-        // Derive 256 bits using PBKDF2
-        keyMaterial = await this.crypto.subtle.deriveBits(
-          {
-            name: "PBKDF2",
-            salt: pwUtf8, // Use passphrase as salt for determinism
-            iterations: iterations,
-            hash: "SHA-256",
-          },
-          baseKey,
-          256, // bits
-        );
+        // User passphrase - use the KDF to derive strong key
+        keyMaterial = (await this.getKeyDerivation().deriveBits(
+          this.passphrase,
+          this.onKdfProgress,
+        )) as BufferSource;
       } else {
         // Raw mode - passphrase is already strong (e.g., random bytes)
         // Just hash to normalize to 256 bits
@@ -113,50 +171,253 @@ class EncryptionHelper {
     return this.keyPromise;
   }
 
+  private getKeyDerivation(): KeyDerivation {
+    if (!this.kdf) {
+      // Legacy stores have no params: the passphrase itself is the "salt",
+      // so the same passphrase yields the same key everywhere.
+      return new Pbkdf2(
+        {
+          name: "PBKDF2",
+          hash: "SHA-256",
+          iterations: DEFAULT_PBKDF2_ITERATIONS,
+          salt: toBase64(new TextEncoder().encode(this.passphrase)),
+        },
+        this.crypto,
+      );
+    }
+    return "deriveBits" in this.kdf
+      ? this.kdf
+      : createKeyDerivation(this.kdf, this.crypto);
+  }
+
+  /**
+   * Short, stable fingerprint of the derived key.
+   * Two helpers share a key id only if they encrypt with the same key.
+   */
+  async getKeyId(): Promise<string> {
+    if (!this.keyIdPromise) {
+      this.keyIdPromise = (async () => {
+        const key = await this.getKey();
+        const raw = await this.crypto.subtle.exportKey("raw", key);
+        const hash = await this.crypto.subtle.digest("SHA-256", raw);
+        return toHex(new Uint8Array(hash, 0, 8));
+      })();
+    }
+    return this.keyIdPromise;
+  }
+
+  /** Encrypt another helper's key under this helper's key */
+  async wrapKey(helper: EncryptionHelper): Promise<string> {
+    return this.encrypt(toBase64(await helper.exportKey()));
+  }
+
+  /**
+   * The raw key, e.g. to hand to a decryption worker. Anyone holding it can
+   * decrypt everything the key encrypts.
+   */
+  async exportKey(): Promise<Uint8Array> {
+    const raw = await this.crypto.subtle.exportKey("raw", await this.getKey());
+    return new Uint8Array(raw);
+  }
+
+  /**
+   * Recover a key wrapped with wrapKey().
+   * Throws DecryptionError if this helper's key is not the one that wrapped it.
+   */
+  async unwrapKey(wrapped: string): Promise<EncryptionHelper> {
+    const raw = fromBase64(await this.decrypt(wrapped));
+    return EncryptionHelper.fromRawKey(raw, this.crypto);
+  }
+
+  /**
+   * Derive 256 bits for another purpose from this helper's key, with
+   * HKDF-SHA256. The same `info` always gives the same bits; different
+   * `info` gives independent ones.
+   */
+  async deriveSubkey(info: string): Promise<Uint8Array> {
+    const raw = await this.crypto.subtle.exportKey("raw", await this.getKey());
+    const hkdfKey = await this.crypto.subtle.importKey(
+      "raw",
+      raw,
+      "HKDF",
+      false,
+      ["deriveBits"],
+    );
+    const bits = await this.crypto.subtle.deriveBits(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: new Uint8Array(0),
+        info: new TextEncoder().encode(info),
+      },
+      hkdfKey,
+      256,
+    );
+    return new Uint8Array(bits);
+  }
+
+  /**
+   * Read the header of an encrypted value without decrypting it.
+   * Throws DecryptionError if the value is not in a known format.
+   */
+  static parseEnvelope(data: string): EnvelopeHeader {
+    return EncryptionHelper.openEnvelope(data).header;
+  }
+
+  private static openEnvelope(data: string): {
+    header: EnvelopeHeader;
+    iv: Uint8Array;
+    ciphertext: Uint8Array;
+  } {
+    try {
+      if (data.includes("|")) {
+        const [iv, ciphertext] = data
+          .split("|")
+          .map((s) => EncryptionHelper.fromHexString(s));
+        return {
+          header: {
+            version: 1,
+            algorithm: ENVELOPE_ALGORITHM,
+            keyId: null,
+            encoding: "hex",
+          },
+          iv,
+          ciphertext,
+        };
+      }
+
+      const [version, algorithm, keyId, encoding, payload] = data.split(".");
+      if (Number(version) !== ENVELOPE_VERSION) {
+        throw new Error(`unsupported format version "${version}"`);
+      }
+      if (algorithm !== ENVELOPE_ALGORITHM) {
+        throw new Error(`unsupported algorithm "${algorithm}"`);
+      }
+      if (encoding !== ENVELOPE_ENCODING || payload === undefined) {
+        throw new Error(`unsupported encoding "${encoding}"`);
+      }
+      const bytes = fromBase64Url(payload);
+      return {
+        header: { version: ENVELOPE_VERSION, algorithm, keyId, encoding },
+        iv: bytes.slice(0, 12),
+        ciphertext: bytes.slice(12),
+      };
+    } catch (e) {
+      throw new DecryptionError(
+        `Could not decrypt: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+  }
+
   private static fromHexString(hexString: string): Uint8Array {
-    return new Uint8Array(
-      hexString.match(/.{1,2}/g)!.map((byte) => parseInt(byte, 16)),
+    if (hexString.length === 0) {
+      throw new Error("empty value");
+    }
+    const bytes = new Uint8Array(Math.ceil(hexString.length / 2));
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hexString.substring(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+  }
+
+  private static additionalData(associatedData?: string): {
+    additionalData?: Uint8Array;
+  } {
+    return associatedData === undefined
+      ? {}
+      : { additionalData: new TextEncoder().encode(associatedData) };
+  }
+
+  /**
+   * Encrypt a value into the current envelope format. When `associatedData`
+   * is given the ciphertext is bound to it: decryption only succeeds when the
+   * same associated data is supplied again.
+   */
+  async encrypt(data: string, associatedData?: string): Promise<string> {
+    const keyId = await this.getKeyId();
+    const payload = await this.encryptBytes(
+      new TextEncoder().encode(data),
+      associatedData,
     );
+    return [
+      ENVELOPE_VERSION,
+      ENVELOPE_ALGORITHM,
+      keyId,
+      ENVELOPE_ENCODING,
+      toBase64Url(payload),
+    ].join(".");
   }
 
-  private static toHexString(bytes: Uint8Array): string {
-    return bytes.reduce(
-      (str, byte) => str + byte.toString(16).padStart(2, "0"),
-      "",
+  /**
+   * Decrypt a value in the current envelope format or the legacy hex format.
+   * `associatedData` must match the value passed to `encrypt`.
+   */
+  async decrypt(data: string, associatedData?: string): Promise<string> {
+    const { header, iv, ciphertext } = EncryptionHelper.openEnvelope(data);
+    if (header.keyId !== null && header.keyId !== (await this.getKeyId())) {
+      throw new DecryptionError(
+        `Could not decrypt: encrypted with a different key (${header.keyId})`,
+      );
+    }
+    return new TextDecoder().decode(
+      await this.decryptParts(iv, ciphertext, associatedData),
     );
   }
 
-  async encrypt(data: string): Promise<string> {
-    const enc = new TextEncoder();
+  /**
+   * Encrypt binary data to `iv || ciphertext`, without an envelope header.
+   * For payloads whose key is known from elsewhere, such as attachments.
+   */
+  async encryptBytes(
+    data: Uint8Array,
+    associatedData?: string,
+  ): Promise<Uint8Array> {
     const key = await this.getKey();
-    const encoded = enc.encode(data);
     const iv = this.crypto.getRandomValues(new Uint8Array(12));
     const ciphertext = await this.crypto.subtle.encrypt(
       {
         name: "AES-GCM",
         iv: iv,
+        ...EncryptionHelper.additionalData(associatedData),
       },
       key,
-      encoded,
+      data as BufferSource,
+    );
+    const payload = new Uint8Array(iv.length + ciphertext.byteLength);
+    payload.set(iv);
+    payload.set(new Uint8Array(ciphertext), iv.length);
+    return payload;
+  }
+
+  /** Decrypt data from encryptBytes() */
+  async decryptBytes(
+    data: Uint8Array,
+    associatedData?: string,
+  ): Promise<Uint8Array> {
+    return this.decryptParts(
+      data.subarray(0, 12),
+      data.subarray(12),
+      associatedData,
     );
-    return `${EncryptionHelper.toHexString(iv)}|${EncryptionHelper.toHexString(new Uint8Array(ciphertext))}`;
   }
 
-  async decrypt(data: string): Promise<string> {
+  private async decryptParts(
+    iv: Uint8Array,
+    ciphertext: Uint8Array,
+    associatedData?: string,
+  ): Promise<Uint8Array> {
     const key = await this.getKey();
-    const [iv, ciphertext] = data
-      .split("|")
-      .map((s) => EncryptionHelper.fromHexString(s));
     try {
       const decrypted = await this.crypto.subtle.decrypt(
         {
           name: "AES-GCM",
           iv: iv,
+          ...EncryptionHelper.additionalData(associatedData),
         },
         key,
         ciphertext as BufferSource,
       );
-      return new TextDecoder().decode(decrypted);
+      return new Uint8Array(decrypted);
     } catch (e) {
       throw new DecryptionError(
         `Could not decrypt: ${e instanceof Error ? e.message : String(e)}`,
@@ -166,4 +427,4 @@ class EncryptionHelper {
 }
 
 export { EncryptionHelper, DecryptionError };
-export type { CryptoInterface };
+export type { CryptoInterface, KdfParams, EnvelopeHeader };
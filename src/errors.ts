@@ -0,0 +1,86 @@
+/**
+ * Errors thrown by EncryptedStore
+ */
+
+import type { ValidationIssue } from "./validation.js";
+
+/** The password (or key slot secret) does not unlock the store */
+class InvalidPasswordError extends Error {
+  constructor(message: string = "Invalid password") {
+    super(message);
+    this.name = "InvalidPasswordError";
+    Object.setPrototypeOf(this, InvalidPasswordError.prototype);
+  }
+}
+
+/** The store is locked: call unlock() first */
+class StoreLockedError extends Error {
+  constructor(message: string = "Store is locked") {
+    super(message);
+    this.name = "StoreLockedError";
+    Object.setPrototypeOf(this, StoreLockedError.prototype);
+  }
+}
+
+/**
+ * A document's signature is invalid or from an untrusted key, or the
+ * document is unsigned while signatures are required
+ */
+class SignatureError extends Error {
+  constructor(message: string = "Invalid signature") {
+    super(message);
+    this.name = "SignatureError";
+    Object.setPrototypeOf(this, SignatureError.prototype);
+  }
+}
+
+/**
+ * A write was based on a revision that is no longer the document's
+ * current one
+ */
+class ConflictError extends Error {
+  constructor(message: string = "Document update conflict") {
+    super(message);
+    this.name = "ConflictError";
+    Object.setPrototypeOf(this, ConflictError.prototype);
+  }
+}
+
+/**
+ * A document was written by a newer version of the app, with schema
+ * migrations this one doesn't have
+ */
+class SchemaVersionError extends Error {
+  constructor(message: string = "Document has a newer schema version") {
+    super(message);
+    this.name = "SchemaVersionError";
+    Object.setPrototypeOf(this, SchemaVersionError.prototype);
+  }
+}
+
+/**
+ * A document does not match its table's validator (see `store.table()`).
+ * `issues` says what is wrong, field by field.
+ */
+class ValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(
+    message: string = "Invalid document",
+    issues: ValidationIssue[] = [],
+  ) {
+    super(message);
+    this.name = "ValidationError";
+    this.issues = issues;
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+export {
+  InvalidPasswordError,
+  StoreLockedError,
+  SignatureError,
+  ConflictError,
+  ValidationError,
+  SchemaVersionError,
+};
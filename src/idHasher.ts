@@ -0,0 +1,82 @@
+/**
+ * Keyed-HMAC document ids, so that table names and ids are not stored in
+ * plaintext
+ */
+
+import { defaultCrypto, toHex } from "./cryptoUtils.js";
+import type { CryptoInterface } from "./cryptoUtils.js";
+import type { EncryptionHelper } from "./encryption.js";
+import { wrapKeyBytes, unwrapKeyBytes } from "./keyPair.js";
+
+const ID_KEY_PURPOSE = "encrypted-store-id-key";
+
+class IdHasher {
+  private readonly rawKey: Uint8Array;
+  private readonly crypto: CryptoInterface;
+  private keyPromise: Promise<CryptoKey> | null = null;
+
+  constructor(rawKey: Uint8Array, crypto: CryptoInterface = defaultCrypto()) {
+    this.rawKey = rawKey;
+    this.crypto = crypto;
+  }
+
+  /** Hasher with a new random 256-bit key */
+  static generate(crypto: CryptoInterface = defaultCrypto()): IdHasher {
+    return new IdHasher(crypto.getRandomValues(new Uint8Array(32)), crypto);
+  }
+
+  /** Recover a key wrapped with wrap() */
+  static async unwrap(
+    wrapped: string,
+    dataKey: EncryptionHelper,
+    crypto: CryptoInterface = defaultCrypto(),
+  ): Promise<IdHasher> {
+    return new IdHasher(
+      await unwrapKeyBytes(wrapped, dataKey, ID_KEY_PURPOSE),
+      crypto,
+    );
+  }
+
+  /** Encrypt the HMAC key under a data key */
+  async wrap(dataKey: EncryptionHelper): Promise<string> {
+    return wrapKeyBytes(this.rawKey, dataKey, ID_KEY_PURPOSE);
+  }
+
+  /**
+   * The id to store a document under: `${tableToken}_${idToken}`. Both parts
+   * are hex, so the result still splits on the first "_", and all documents
+   * of a table share a prefix.
+   */
+  async storedId(table: string, id: string): Promise<string> {
+    const [prefix, idToken] = await Promise.all([
+      this.tablePrefix(table),
+      this.hmac(`id\u0000${table}\u0000${id}`, 16),
+    ]);
+    return `${prefix}${idToken}`;
+  }
+
+  /** The prefix of the stored ids of a table's documents */
+  async tablePrefix(table: string): Promise<string> {
+    return `${await this.hmac(`table\u0000${table}`, 8)}_`;
+  }
+
+  private async hmac(message: string, length: number): Promise<string> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.crypto.subtle.importKey(
+        "raw",
+        this.rawKey as BufferSource,
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"],
+      );
+    }
+    const signature = await this.crypto.subtle.sign(
+      "HMAC",
+      await this.keyPromise,
+      new TextEncoder().encode(message),
+    );
+    return toHex(new Uint8Array(signature, 0, length));
+  }
+}
+
+export { IdHasher };
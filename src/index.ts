@@ -13,10 +13,83 @@ export type {
   SyncInfo,
   RemoteOptions,
   EncryptedStoreOptions,
+  PasswordChangeProgress,
+  ChangePasswordOptions,
+  KeySlotInfo,
+  KeySlotOptions,
+  TableShareInfo,
+  TrustedSigner,
+  ScanOptions,
+  IterateOptions,
+  BulkResult,
+  PutOptions,
+  UpdateOptions,
+  PatchOptions,
+  Migration,
+  DocRevision,
+  MigrationProgress,
+  MigrateOptions,
 } from "./encryptedStore.js";
 
+export type { AttachmentInfo } from "./attachments.js";
+
+export { Table } from "./table.js";
+export type { TableDoc, TableInput, TableOptions } from "./table.js";
+
+export { validateSchema } from "./validation.js";
+export type {
+  ValidationIssue,
+  JsonSchema,
+  SchemaType,
+  Validator,
+} from "./validation.js";
+
+export type {
+  Query,
+  Selector,
+  Condition,
+  OrderBy,
+  SortDirection,
+} from "./query.js";
+
+export { WorkerDecryptionPool, serveDecryption } from "./decryptionPool.js";
+export type {
+  DecryptionPool,
+  DecryptRequest,
+  DecryptResult,
+  MessagePortLike,
+  WorkerLike,
+} from "./decryptionPool.js";
+
+export {
+  InvalidPasswordError,
+  StoreLockedError,
+  SignatureError,
+  ConflictError,
+  ValidationError,
+  SchemaVersionError,
+} from "./errors.js";
+
 export { EncryptionHelper, DecryptionError } from "./encryption.js";
-export type { CryptoInterface } from "./encryption.js";
+export type { CryptoInterface, EnvelopeHeader } from "./encryption.js";
+
+export {
+  Pbkdf2,
+  Scrypt,
+  registerKeyDerivation,
+  createKeyDerivation,
+  generateKdfParams,
+} from "./kdf.js";
+export type {
+  KdfParams,
+  KdfSettings,
+  KdfProgress,
+  KeyDerivation,
+  KeyDerivationFactory,
+  Pbkdf2Params,
+  ScryptParams,
+  Argon2idParams,
+} from "./kdf.js";
 
 export const VERSION = "2.1.0";
 
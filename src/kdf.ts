@@ -0,0 +1,370 @@
+/**
+ * Password-based key derivation functions
+ */
+
+import { defaultCrypto, toBase64, fromBase64 } from "./cryptoUtils.js";
+import type { CryptoInterface } from "./cryptoUtils.js";
+
+/** Called with the fraction of the derivation done, from 0 to 1 */
+type KdfProgress = (progress: number) => void;
+
+interface Pbkdf2Params {
+  name: "PBKDF2";
+  hash: "SHA-256";
+  iterations: number;
+  /** Random per-database salt, base64-encoded */
+  salt: string;
+}
+
+interface ScryptParams {
+  name: "scrypt";
+  /** CPU/memory cost, a power of 2. Uses 128 * N * r bytes of memory. */
+  N: number;
+  /** Block size */
+  r: number;
+  /** Parallelization */
+  p: number;
+  /** Random per-database salt, base64-encoded */
+  salt: string;
+}
+
+interface Argon2idParams {
+  name: "Argon2id";
+  /** Memory in KiB */
+  memory: number;
+  iterations: number;
+  parallelism: number;
+  /** Random per-database salt, base64-encoded */
+  salt: string;
+}
+
+/**
+ * Key derivation parameters recorded with a store, so that every device
+ * derives the same key from the same passphrase.
+ */
+type KdfParams = Pbkdf2Params | ScryptParams | Argon2idParams;
+
+/**
+ * Cost settings for new key derivation parameters. A fresh salt is added by
+ * generateKdfParams(); omitted costs use the defaults.
+ */
+type KdfSettings =
+  | { name: "PBKDF2"; hash?: "SHA-256"; iterations?: number }
+  | { name: "scrypt"; N?: number; r?: number; p?: number }
+  | {
+      name: "Argon2id";
+      memory?: number;
+      iterations?: number;
+      parallelism?: number;
+    };
+
+/** Derives a 256-bit key from a passphrase */
+interface KeyDerivation {
+  /** Parameters to record with the store, including the salt */
+  readonly params: KdfParams;
+  deriveBits(passphrase: string, onProgress?: KdfProgress): Promise<Uint8Array>;
+}
+
+type KeyDerivationFactory = (
+  params: KdfParams,
+  crypto: CryptoInterface,
+) => KeyDerivation;
+
+const DEFAULT_PBKDF2_ITERATIONS = 100000;
+const DEFAULT_SCRYPT = { N: 32768, r: 8, p: 1 };
+/** OWASP recommendation for Argon2id */
+const DEFAULT_ARGON2ID = { memory: 19456, iterations: 2, parallelism: 1 };
+
+/** PBKDF2-HMAC-SHA256, run natively by WebCrypto */
+class Pbkdf2 implements KeyDerivation {
+  readonly params: Pbkdf2Params;
+  private readonly crypto: CryptoInterface;
+
+  constructor(params: Pbkdf2Params, crypto: CryptoInterface = defaultCrypto()) {
+    this.params = params;
+    this.crypto = crypto;
+  }
+
+  /**
+   * WebCrypto runs PBKDF2 in one step, so progress is only reported on
+   * completion.
+   */
+  async deriveBits(
+    passphrase: string,
+    onProgress?: KdfProgress,
+  ): Promise<Uint8Array> {
+    const bits = await pbkdf2Sha256(
+      this.crypto,
+      new TextEncoder().encode(passphrase),
+      fromBase64(this.params.salt),
+      this.params.iterations,
+      32,
+    );
+    onProgress?.(1);
+    return bits;
+  }
+}
+
+/**
+ * scrypt (RFC 7914) in plain JavaScript. Memory-hard, so it is much more
+ * expensive to brute-force on GPUs than PBKDF2. Yields to the event loop
+ * while running so that progress can be rendered.
+ */
+class Scrypt implements KeyDerivation {
+  readonly params: ScryptParams;
+  private readonly crypto: CryptoInterface;
+
+  constructor(params: ScryptParams, crypto: CryptoInterface = defaultCrypto()) {
+    const { N, r, p } = params;
+    if (N < 2 || (N & (N - 1)) !== 0) {
+      throw new Error("scrypt N must be a power of 2");
+    }
+    if (r < 1 || p < 1) {
+      throw new Error("scrypt r and p must be positive");
+    }
+    this.params = params;
+    this.crypto = crypto;
+  }
+
+  async deriveBits(
+    passphrase: string,
+    onProgress?: KdfProgress,
+  ): Promise<Uint8Array> {
+    const { N, r, p } = this.params;
+    const password = new TextEncoder().encode(passphrase);
+    const blockWords = 32 * r;
+
+    const bytes = await pbkdf2Sha256(
+      this.crypto,
+      password,
+      fromBase64(this.params.salt),
+      1,
+      p * 128 * r,
+    );
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+    const B = new Uint32Array(p * blockWords);
+    for (let i = 0; i < B.length; i++) {
+      B[i] = view.getUint32(i * 4, true);
+    }
+
+    const totalSteps = p * 2 * N;
+    let steps = 0;
+    const V = new Uint32Array(blockWords * N);
+    for (let i = 0; i < p; i++) {
+      const X = B.subarray(i * blockWords, (i + 1) * blockWords);
+      await roMix(X, V, N, r, async (done) => {
+        steps += done;
+        onProgress?.(steps / totalSteps);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+    }
+
+    for (let i = 0; i < B.length; i++) {
+      view.setUint32(i * 4, B[i], true);
+    }
+    const key = await pbkdf2Sha256(this.crypto, password, bytes, 1, 32);
+    onProgress?.(1);
+    return key;
+  }
+}
+
+const registry = new Map<string, KeyDerivationFactory>([
+  ["PBKDF2", (params, crypto) => new Pbkdf2(params as Pbkdf2Params, crypto)],
+  ["scrypt", (params, crypto) => new Scrypt(params as ScryptParams, crypto)],
+]);
+
+/**
+ * Provide an implementation for a key derivation function, such as Argon2id
+ * backed by a WebAssembly library. It must be registered on every device
+ * that opens a store using it.
+ *
+ * @example
+ * registerKeyDerivation("Argon2id", (params) => new MyArgon2id(params));
+ */
+function registerKeyDerivation(
+  name: KdfParams["name"],
+  factory: KeyDerivationFactory,
+): void {
+  registry.set(name, factory);
+}
+
+/** The key derivation for recorded parameters */
+function createKeyDerivation(
+  params: KdfParams,
+  crypto: CryptoInterface = defaultCrypto(),
+): KeyDerivation {
+  const factory = registry.get(params.name);
+  if (!factory) {
+    throw new Error(
+      `No implementation for key derivation "${params.name}". Register one with registerKeyDerivation().`,
+    );
+  }
+  return factory(params, crypto);
+}
+
+/** Fresh parameters with a random 16-byte salt */
+function generateKdfParams(
+  settings: KdfSettings = { name: "PBKDF2" },
+  crypto: CryptoInterface = defaultCrypto(),
+): KdfParams {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  switch (settings.name) {
+    case "PBKDF2":
+      return {
+        name: "PBKDF2",
+        hash: "SHA-256",
+        iterations: settings.iterations ?? DEFAULT_PBKDF2_ITERATIONS,
+        salt,
+      };
+    case "scrypt":
+      return {
+        name: "scrypt",
+        N: settings.N ?? DEFAULT_SCRYPT.N,
+        r: settings.r ?? DEFAULT_SCRYPT.r,
+        p: settings.p ?? DEFAULT_SCRYPT.p,
+        salt,
+      };
+    case "Argon2id":
+      return {
+        name: "Argon2id",
+        memory: settings.memory ?? DEFAULT_ARGON2ID.memory,
+        iterations: settings.iterations ?? DEFAULT_ARGON2ID.iterations,
+        parallelism: settings.parallelism ?? DEFAULT_ARGON2ID.parallelism,
+        salt,
+      };
+  }
+}
+
+async function pbkdf2Sha256(
+  crypto: CryptoInterface,
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number,
+): Promise<Uint8Array> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    password as BufferSource,
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    length * 8,
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * scrypt's sequential memory-hard mixing of one block, in place.
+ * `pause` is called periodically with the number of steps done since.
+ */
+async function roMix(
+  X: Uint32Array,
+  V: Uint32Array,
+  N: number,
+  r: number,
+  pause: (steps: number) => Promise<void>,
+): Promise<void> {
+  const blockWords = 32 * r;
+  const Y = new Uint32Array(blockWords);
+  const T = new Uint32Array(16);
+  const stepsPerPause = Math.max(1, Math.floor(4096 / r));
+
+  for (let i = 0; i < N; i++) {
+    V.set(X, i * blockWords);
+    blockMix(X, Y, T, r);
+    if ((i + 1) % stepsPerPause === 0) await pause(stepsPerPause);
+  }
+  for (let i = 0; i < N; i++) {
+    const j = X[(2 * r - 1) * 16] & (N - 1);
+    for (let k = 0; k < blockWords; k++) {
+      X[k] ^= V[j * blockWords + k];
+    }
+    blockMix(X, Y, T, r);
+    if ((N + i + 1) % stepsPerPause === 0) await pause(stepsPerPause);
+  }
+  await pause((2 * N) % stepsPerPause);
+}
+
+/** scrypt BlockMix with Salsa20/8, in place. Y and T are scratch space. */
+function blockMix(
+  B: Uint32Array,
+  Y: Uint32Array,
+  T: Uint32Array,
+  r: number,
+): void {
+  T.set(B.subarray((2 * r - 1) * 16, 2 * r * 16));
+  for (let i = 0; i < 2 * r; i++) {
+    for (let k = 0; k < 16; k++) {
+      T[k] ^= B[i * 16 + k];
+    }
+    salsa20_8(T);
+    // Even blocks go to the first half, odd blocks to the second
+    Y.set(T, ((i >> 1) + (i & 1) * r) * 16);
+  }
+  B.set(Y);
+}
+
+function salsa20_8(B: Uint32Array): void {
+  const x = Uint32Array.from(B);
+  const R = (a: number, b: number) => (a << b) | (a >>> (32 - b));
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= R(x[0] + x[12], 7);
+    x[8] ^= R(x[4] + x[0], 9);
+    x[12] ^= R(x[8] + x[4], 13);
+    x[0] ^= R(x[12] + x[8], 18);
+    x[9] ^= R(x[5] + x[1], 7);
+    x[13] ^= R(x[9] + x[5], 9);
+    x[1] ^= R(x[13] + x[9], 13);
+    x[5] ^= R(x[1] + x[13], 18);
+    x[14] ^= R(x[10] + x[6], 7);
+    x[2] ^= R(x[14] + x[10], 9);
+    x[6] ^= R(x[2] + x[14], 13);
+    x[10] ^= R(x[6] + x[2], 18);
+    x[3] ^= R(x[15] + x[11], 7);
+    x[7] ^= R(x[3] + x[15], 9);
+    x[11] ^= R(x[7] + x[3], 13);
+    x[15] ^= R(x[11] + x[7], 18);
+    x[1] ^= R(x[0] + x[3], 7);
+    x[2] ^= R(x[1] + x[0], 9);
+    x[3] ^= R(x[2] + x[1], 13);
+    x[0] ^= R(x[3] + x[2], 18);
+    x[6] ^= R(x[5] + x[4], 7);
+    x[7] ^= R(x[6] + x[5], 9);
+    x[4] ^= R(x[7] + x[6], 13);
+    x[5] ^= R(x[4] + x[7], 18);
+    x[11] ^= R(x[10] + x[9], 7);
+    x[8] ^= R(x[11] + x[10], 9);
+    x[9] ^= R(x[8] + x[11], 13);
+    x[10] ^= R(x[9] + x[8], 18);
+    x[12] ^= R(x[15] + x[14], 7);
+    x[13] ^= R(x[12] + x[15], 9);
+    x[14] ^= R(x[13] + x[12], 13);
+    x[15] ^= R(x[14] + x[13], 18);
+  }
+  for (let i = 0; i < 16; i++) {
+    B[i] += x[i];
+  }
+}
+
+export {
+  Pbkdf2,
+  Scrypt,
+  registerKeyDerivation,
+  createKeyDerivation,
+  generateKdfParams,
+  DEFAULT_PBKDF2_ITERATIONS,
+};
+export type {
+  KdfParams,
+  KdfSettings,
+  KdfProgress,
+  KeyDerivation,
+  KeyDerivationFactory,
+  Pbkdf2Params,
+  ScryptParams,
+  Argon2idParams,
+};
@@ -0,0 +1,139 @@
+/**
+ * Key material kept in the store encrypted under the data key, and the
+ * P-256 keypairs built on it
+ */
+
+import { defaultCrypto, toBase64, fromBase64 } from "./cryptoUtils.js";
+import type { CryptoInterface } from "./cryptoUtils.js";
+import type { EncryptionHelper } from "./encryption.js";
+
+/** A keypair as kept in the store */
+interface StoredKeyPair {
+  /** Raw P-256 public key, base64 */
+  publicKey: string;
+  /** PKCS #8 private key, encrypted under the data key */
+  privateKey: string;
+}
+
+/** What a kind of keypair is and what it is for */
+interface KeyPairKind {
+  algorithm: EcKeyImportParams;
+  /** The one use of the private key */
+  usage: KeyUsage;
+  /** Associated data for wrapping the private key (see wrapKeyBytes) */
+  purpose: string;
+}
+
+/**
+ * Encrypt key bytes under a data key. The purpose is bound as associated
+ * data, so a key wrapped for one purpose can't pass for anything else.
+ */
+async function wrapKeyBytes(
+  bytes: Uint8Array,
+  dataKey: EncryptionHelper,
+  purpose: string,
+): Promise<string> {
+  return dataKey.encrypt(toBase64(bytes), purpose);
+}
+
+/**
+ * Recover key bytes wrapped with wrapKeyBytes(). Throws DecryptionError if
+ * the data key or the purpose is not the one they were wrapped with.
+ */
+async function unwrapKeyBytes(
+  wrapped: string,
+  dataKey: EncryptionHelper,
+  purpose: string,
+): Promise<Uint8Array> {
+  return fromBase64(await dataKey.decrypt(wrapped, purpose));
+}
+
+/** A P-256 keypair whose private key is imported when first used */
+class KeyPair {
+  /** Raw public key, base64 */
+  readonly publicKey: string;
+  private readonly privateKeyBytes: Uint8Array;
+  private readonly kind: KeyPairKind;
+  private readonly crypto: CryptoInterface;
+  private privateKeyPromise: Promise<CryptoKey> | null = null;
+
+  constructor(
+    publicKey: string,
+    privateKeyBytes: Uint8Array,
+    kind: KeyPairKind,
+    crypto: CryptoInterface = defaultCrypto(),
+  ) {
+    this.publicKey = publicKey;
+    this.privateKeyBytes = privateKeyBytes;
+    this.kind = kind;
+    this.crypto = crypto;
+  }
+
+  /** A new random keypair */
+  static async generate(
+    kind: KeyPairKind,
+    crypto: CryptoInterface = defaultCrypto(),
+  ): Promise<KeyPair> {
+    const usages: KeyUsage[] =
+      kind.usage === "sign" ? ["sign", "verify"] : [kind.usage];
+    const keyPair = (await crypto.subtle.generateKey(
+      kind.algorithm,
+      true,
+      usages,
+    )) as CryptoKeyPair;
+    const [publicKey, privateKey] = await Promise.all([
+      crypto.subtle.exportKey("raw", keyPair.publicKey),
+      crypto.subtle.exportKey("pkcs8", keyPair.privateKey),
+    ]);
+    return new KeyPair(
+      toBase64(new Uint8Array(publicKey)),
+      new Uint8Array(privateKey),
+      kind,
+      crypto,
+    );
+  }
+
+  /** Recover a keypair stored with wrap() */
+  static async unwrap(
+    stored: StoredKeyPair,
+    dataKey: EncryptionHelper,
+    kind: KeyPairKind,
+    crypto: CryptoInterface = defaultCrypto(),
+  ): Promise<KeyPair> {
+    return new KeyPair(
+      stored.publicKey,
+      await unwrapKeyBytes(stored.privateKey, dataKey, kind.purpose),
+      kind,
+      crypto,
+    );
+  }
+
+  /** Encrypt the private key under a data key */
+  async wrap(dataKey: EncryptionHelper): Promise<StoredKeyPair> {
+    return {
+      publicKey: this.publicKey,
+      privateKey: await wrapKeyBytes(
+        this.privateKeyBytes,
+        dataKey,
+        this.kind.purpose,
+      ),
+    };
+  }
+
+  /** The private key, for its one usage */
+  privateKey(): Promise<CryptoKey> {
+    if (!this.privateKeyPromise) {
+      this.privateKeyPromise = this.crypto.subtle.importKey(
+        "pkcs8",
+        this.privateKeyBytes as BufferSource,
+        this.kind.algorithm,
+        false,
+        [this.kind.usage],
+      );
+    }
+    return this.privateKeyPromise;
+  }
+}
+
+export { KeyPair, wrapKeyBytes, unwrapKeyBytes };
+export type { StoredKeyPair, KeyPairKind };
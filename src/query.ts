@@ -0,0 +1,311 @@
+/**
+ * Mango-like selectors, sorting and paging over decrypted documents
+ */
+
+import type { Doc } from "./encryptedStore.js";
+
+/** Conditions on a field's value. All of them must hold. */
+interface Condition<V = any> {
+  $eq?: V;
+  $ne?: V;
+  /** Range conditions only match values of the same type */
+  $gt?: V;
+  $gte?: V;
+  $lt?: V;
+  $lte?: V;
+  $in?: V[];
+  $nin?: V[];
+  $exists?: boolean;
+  /** Only matches strings */
+  $regex?: string | RegExp;
+}
+
+/**
+ * Which documents to match, such as
+ * `{ category: "food", amount: { $gt: 10 }, "place.city": "Paris" }`.
+ * A field's value is either a condition, a nested selector for an object,
+ * or a value it must equal.
+ */
+type Selector<T extends Doc = Doc> = {
+  [K in keyof T & string]?: T[K] | Condition<T[K]>;
+} & {
+  /** Dotted paths into nested fields */
+  [path: string]: any;
+  $and?: Selector<T>[];
+  $or?: Selector<T>[];
+  $not?: Selector<T>;
+};
+
+type SortDirection = "asc" | "desc";
+
+/** Fields to sort by, such as `[{ date: "desc" }, "amount"]` */
+type OrderBy<T extends Doc = Doc> =
+  | (keyof T & string)
+  | (
+      | (keyof T & string)
+      | { [K in keyof T & string]?: SortDirection }
+      | Record<string, SortDirection>
+    )[];
+
+interface Query<T extends Doc = Doc> {
+  where?: Selector<T>;
+  /** Ties, and queries without an order, are sorted by id */
+  orderBy?: OrderBy<T>;
+  limit?: number;
+  offset?: number;
+}
+
+const OPERATORS = new Set([
+  "$eq",
+  "$ne",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$in",
+  "$nin",
+  "$exists",
+  "$regex",
+]);
+
+/**
+ * Compile a selector to a predicate.
+ * Throws on unknown operators, so that typos don't match nothing.
+ */
+function compileSelector(selector: Selector<any>): (value: any) => boolean {
+  const tests = Object.entries(selector).map(
+    ([key, expected]): ((value: any) => boolean) => {
+      switch (key) {
+        case "$and": {
+          const all = (expected as Selector[]).map(compileSelector);
+          return (value) => all.every((test) => test(value));
+        }
+        case "$or": {
+          const any = (expected as Selector[]).map(compileSelector);
+          return (value) => any.some((test) => test(value));
+        }
+        case "$not": {
+          const test = compileSelector(expected as Selector);
+          return (value) => !test(value);
+        }
+      }
+      if (key.startsWith("$")) throw new Error(`Unknown operator: ${key}`);
+      const test = compileValue(expected);
+      const path = key.split(".");
+      return (value) => test(getPath(value, path));
+    },
+  );
+  return (value) => tests.every((test) => test(value));
+}
+
+/** Predicate for a field's value: a condition, a nested selector or a value */
+function compileValue(expected: any): (value: any) => boolean {
+  if (!isPlainObject(expected)) {
+    return (value) => compareValues(value, expected) === 0;
+  }
+  const keys = Object.keys(expected);
+  if (keys.length === 0 || !keys.every((key) => key.startsWith("$"))) {
+    const test = compileSelector(expected);
+    return (value) => isPlainObject(value) && test(value);
+  }
+
+  const tests = keys.map((operator): ((value: any) => boolean) => {
+    if (!OPERATORS.has(operator)) {
+      throw new Error(`Unknown operator: ${operator}`);
+    }
+    const operand = expected[operator];
+    switch (operator) {
+      case "$eq":
+        return (value) => compareValues(value, operand) === 0;
+      case "$ne":
+        return (value) => compareValues(value, operand) !== 0;
+      case "$gt":
+        return (value) => compareSameType(value, operand) > 0;
+      case "$gte":
+        return (value) => compareSameType(value, operand) >= 0;
+      case "$lt":
+        return (value) => compareSameType(value, operand) < 0;
+      case "$lte":
+        return (value) => compareSameType(value, operand) <= 0;
+      case "$in":
+        return (value) =>
+          (operand as any[]).some((item) => compareValues(value, item) === 0);
+      case "$nin":
+        return (value) =>
+          (operand as any[]).every((item) => compareValues(value, item) !== 0);
+      case "$exists":
+        return (value) => (value !== undefined) === operand;
+      default: {
+        const regex =
+          operand instanceof RegExp ? operand : new RegExp(operand as string);
+        return (value) => typeof value === "string" && regex.test(value);
+      }
+    }
+  });
+  return (value) => tests.every((test) => test(value));
+}
+
+/** Comparator for an order, ending with the id */
+function compileOrder(orderBy: OrderBy<any> = []): (a: Doc, b: Doc) => number {
+  const fields = (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap(
+    (entry) =>
+      typeof entry === "string"
+        ? [{ path: entry.split("."), sign: 1 }]
+        : Object.entries(entry).map(([field, direction]) => ({
+            path: field.split("."),
+            sign: direction === "desc" ? -1 : 1,
+          })),
+  );
+  return (a, b) => {
+    for (const { path, sign } of fields) {
+      const order = compareValues(getPath(a, path), getPath(b, path));
+      if (order !== 0) return order * sign;
+    }
+    return a._id < b._id ? -1 : a._id > b._id ? 1 : 0;
+  };
+}
+
+/** Sort and page documents that match a query's selector */
+function orderAndPage<T extends Doc>(docs: T[], query: Query<any>): T[] {
+  const offset = query.offset ?? 0;
+  return [...docs]
+    .sort(compileOrder(query.orderBy))
+    .slice(
+      offset,
+      query.limit !== undefined ? offset + query.limit : undefined,
+    );
+}
+
+/**
+ * The results of a query, kept up to date as documents change.
+ * Changes that arrive before the initial load are applied after it.
+ */
+class LiveQuery<T extends Doc = Doc> {
+  readonly table: string;
+  private readonly query: Query<T>;
+  private readonly matches: (doc: Doc) => boolean;
+  private readonly onResults: (docs: T[]) => void;
+  /** Matching documents by id, once loaded */
+  private docs: Map<string, T> | null = null;
+  private queued: Array<(docs: Map<string, T>) => boolean> = [];
+
+  constructor(table: string, query: Query<T>, onResults: (docs: T[]) => void) {
+    this.table = table;
+    this.query = query;
+    this.matches = compileSelector(query.where ?? {});
+    this.onResults = onResults;
+  }
+
+  /** Start from all the documents of the table */
+  load(docs: Doc[]): void {
+    this.docs = new Map();
+    for (const doc of docs) {
+      if (this.matches(doc)) this.docs.set(doc._id, doc as T);
+    }
+    for (const update of this.queued) update(this.docs);
+    this.queued = [];
+    this.emit();
+  }
+
+  /** A document was added or changed */
+  change(doc: Doc): void {
+    if (doc._table !== this.table) return;
+    this.apply((docs) => {
+      if (this.matches(doc)) {
+        docs.set(doc._id, doc as T);
+        return true;
+      }
+      return docs.delete(doc._id);
+    });
+  }
+
+  /** A document was deleted */
+  remove(table: string, id: string): void {
+    if (table !== this.table) return;
+    this.apply((docs) => docs.delete(id));
+  }
+
+  private apply(update: (docs: Map<string, T>) => boolean): void {
+    if (!this.docs) {
+      this.queued.push(update);
+    } else if (update(this.docs)) {
+      this.emit();
+    }
+  }
+
+  private emit(): void {
+    this.onResults(orderAndPage([...this.docs!.values()], this.query));
+  }
+}
+
+/**
+ * Order of values: missing and null, booleans, numbers, strings, arrays,
+ * then objects
+ */
+function compareValues(a: any, b: any): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+  switch (rankA) {
+    case 0:
+      return 0;
+    case 1:
+    case 2:
+    case 3:
+      return a < b ? -1 : a > b ? 1 : 0;
+    case 4:
+      for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        const order = compareValues(a[i], b[i]);
+        if (order !== 0) return order;
+      }
+      return a.length - b.length;
+    default: {
+      const jsonA = JSON.stringify(a);
+      const jsonB = JSON.stringify(b);
+      return jsonA < jsonB ? -1 : jsonA > jsonB ? 1 : 0;
+    }
+  }
+}
+
+/** Like compareValues(), but NaN for values of different types */
+function compareSameType(a: any, b: any): number {
+  return a !== undefined && typeRank(a) === typeRank(b)
+    ? compareValues(a, b)
+    : NaN;
+}
+
+function typeRank(value: any): number {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === "boolean") return 1;
+  if (typeof value === "number") return 2;
+  if (typeof value === "string") return 3;
+  if (Array.isArray(value)) return 4;
+  return 5;
+}
+
+function getPath(value: any, path: string[]): any {
+  for (const key of path) {
+    if (value === undefined || value === null) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof RegExp)
+  );
+}
+
+export {
+  compileSelector,
+  compileOrder,
+  orderAndPage,
+  compareValues,
+  getPath,
+  LiveQuery,
+};
+export type { Condition, Selector, OrderBy, SortDirection, Query };
@@ -0,0 +1,216 @@
+/**
+ * Sorted indexes of field values, so that range queries only decrypt the
+ * documents in the range
+ */
+
+import { compareValues, getPath } from "./query.js";
+import type { Selector } from "./query.js";
+
+/** One end of a range on the field after the equal ones */
+interface IndexBound {
+  value: any;
+  inclusive: boolean;
+}
+
+/**
+ * Keys to look up: the first fields equal to `eq`, and the next one within
+ * `lower` and `upper`
+ */
+interface IndexRange {
+  eq: any[];
+  lower?: IndexBound;
+  upper?: IndexBound;
+}
+
+/** Entries of stored document ids, sorted by the values of some fields */
+class SecondaryIndex {
+  readonly table: string;
+  readonly fields: string[];
+  /** Database update sequence the entries are current to */
+  seq: number | string = 0;
+  /** Whether the entries were read (or built) since the store unlocked */
+  loaded = false;
+  private entries: { key: any[]; id: string }[] = [];
+  private keys = new Map<string, any[]>();
+  private readonly paths: string[][];
+
+  constructor(table: string, fields: string[]) {
+    this.table = table;
+    this.fields = fields;
+    this.paths = fields.map((field) => field.split("."));
+  }
+
+  /** Add or update a document */
+  set(id: string, doc: Record<string, any>): void {
+    this.delete(id);
+    const key = this.paths.map((path) => getPath(doc, path) ?? null);
+    this.entries.splice(this.position({ key, id }), 0, { key, id });
+    this.keys.set(id, key);
+  }
+
+  /** Remove a document. Returns whether it was indexed. */
+  delete(id: string): boolean {
+    const key = this.keys.get(id);
+    if (!key) return false;
+    this.entries.splice(this.position({ key, id }), 1);
+    this.keys.delete(id);
+    return true;
+  }
+
+  /** Ids of the documents in a range, in key order */
+  lookup(range: IndexRange): string[] {
+    const below = ({ key }: { key: any[] }): boolean => {
+      if (!range.lower) return comparePrefix(key, range.eq) < 0;
+      const order = comparePrefix(key, [...range.eq, range.lower.value]);
+      return order < 0 || (order === 0 && !range.lower.inclusive);
+    };
+    const above = ({ key }: { key: any[] }): boolean => {
+      if (!range.upper) return comparePrefix(key, range.eq) > 0;
+      const order = comparePrefix(key, [...range.eq, range.upper.value]);
+      return order > 0 || (order === 0 && !range.upper.inclusive);
+    };
+
+    const ids: string[] = [];
+    for (
+      let i = this.search(below);
+      i < this.entries.length && !above(this.entries[i]);
+      i++
+    ) {
+      ids.push(this.entries[i].id);
+    }
+    return ids;
+  }
+
+  /** Entries and sequence, as JSON */
+  serialize(): string {
+    return JSON.stringify({
+      seq: this.seq,
+      entries: this.entries.map(({ key, id }) => [key, id]),
+    });
+  }
+
+  /** Replace the entries with serialized ones */
+  deserialize(json: string): void {
+    const { seq, entries } = JSON.parse(json) as {
+      seq: number | string;
+      entries: [any[], string][];
+    };
+    this.seq = seq;
+    this.entries = entries.map(([key, id]) => ({ key, id }));
+    this.keys = new Map(entries.map(([key, id]) => [id, key]));
+  }
+
+  /** Forget the entries, e.g. when the store locks */
+  clear(): void {
+    this.entries = [];
+    this.keys = new Map();
+    this.seq = 0;
+    this.loaded = false;
+  }
+
+  /** Where an entry is, or would be inserted */
+  private position(entry: { key: any[]; id: string }): number {
+    return this.search((other) => {
+      const order = comparePrefix(other.key, entry.key);
+      return order < 0 || (order === 0 && other.id < entry.id);
+    });
+  }
+
+  /** Number of leading entries for which `before` holds (binary search) */
+  private search(
+    before: (entry: { key: any[]; id: string }) => boolean,
+  ): number {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (before(this.entries[middle])) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
+
+/**
+ * The range of an index that holds every document matching a selector, or
+ * null if the selector has no condition on the index's first field.
+ * The selector still has to be applied to the documents in the range.
+ */
+function indexRange(
+  fields: string[],
+  selector: Selector<any>,
+): IndexRange | null {
+  const range: IndexRange = { eq: [] };
+  for (const field of fields) {
+    const condition = selector[field];
+    if (condition === undefined || isNestedSelector(condition)) break;
+    if (!isOperators(condition)) {
+      range.eq.push(condition);
+      continue;
+    }
+    if ("$eq" in condition) {
+      range.eq.push(condition.$eq);
+      continue;
+    }
+    range.lower = tighter(condition, "$gt", "$gte", 1);
+    range.upper = tighter(condition, "$lt", "$lte", -1);
+    break;
+  }
+  return range.eq.length > 0 || range.lower || range.upper ? range : null;
+}
+
+/** The tighter of an exclusive and an inclusive bound, if any */
+function tighter(
+  condition: Record<string, any>,
+  exclusive: string,
+  inclusive: string,
+  direction: 1 | -1,
+): IndexBound | undefined {
+  const bounds: IndexBound[] = [];
+  if (exclusive in condition) {
+    bounds.push({ value: condition[exclusive], inclusive: false });
+  }
+  if (inclusive in condition) {
+    bounds.push({ value: condition[inclusive], inclusive: true });
+  }
+  if (bounds.length < 2) return bounds[0];
+  const order = compareValues(bounds[0].value, bounds[1].value) * direction;
+  return order >= 0 ? bounds[0] : bounds[1];
+}
+
+function isOperators(value: any): value is Record<string, any> {
+  return (
+    isPlainObject(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => key.startsWith("$"))
+  );
+}
+
+/** A selector for an object field, which may have more fields than it */
+function isNestedSelector(value: any): boolean {
+  return isPlainObject(value) && !isOperators(value);
+}
+
+function isPlainObject(value: any): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof RegExp)
+  );
+}
+
+/** Compare the first `bound.length` values of a key */
+function comparePrefix(key: any[], bound: any[]): number {
+  for (let i = 0; i < bound.length; i++) {
+    const order = compareValues(key[i], bound[i]);
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+export { SecondaryIndex, indexRange };
+export type { IndexRange, IndexBound };
@@ -0,0 +1,179 @@
+/**
+ * Identity keypairs and public-key wrapping of table keys, so that a table
+ * can be shared with another user's store
+ */
+
+import { defaultCrypto, toHex, fromBase64 } from "./cryptoUtils.js";
+import type { CryptoInterface } from "./cryptoUtils.js";
+import { EncryptionHelper } from "./encryption.js";
+import { KeyPair } from "./keyPair.js";
+import type { KeyPairKind, StoredKeyPair } from "./keyPair.js";
+
+const ECDH_P256 = { name: "ECDH", namedCurve: "P-256" };
+
+const IDENTITY_KEY: KeyPairKind = {
+  algorithm: ECDH_P256,
+  usage: "deriveBits",
+  purpose: "encrypted-store-identity",
+};
+
+/** An identity as kept in the store metadata */
+type StoredIdentity = StoredKeyPair;
+
+/** A table key encrypted by its owner for one recipient */
+interface WrappedTableKey {
+  /** The owner's public key, as claimed: only unwrapping proves it */
+  ownerPublicKey: string;
+  /** The table key, encrypted under the key agreed with the recipient */
+  wrappedKey: string;
+}
+
+/** A user's ECDH P-256 keypair. Others share tables with its public key. */
+class Identity {
+  private readonly keyPair: KeyPair;
+  private readonly crypto: CryptoInterface;
+
+  private constructor(keyPair: KeyPair, crypto: CryptoInterface) {
+    this.keyPair = keyPair;
+    this.crypto = crypto;
+  }
+
+  /** Raw public key, base64 */
+  get publicKey(): string {
+    return this.keyPair.publicKey;
+  }
+
+  /** A new random keypair */
+  static async generate(
+    crypto: CryptoInterface = defaultCrypto(),
+  ): Promise<Identity> {
+    return new Identity(await KeyPair.generate(IDENTITY_KEY, crypto), crypto);
+  }
+
+  /** Recover an identity stored with wrap() */
+  static async unwrap(
+    stored: StoredIdentity,
+    dataKey: EncryptionHelper,
+    crypto: CryptoInterface = defaultCrypto(),
+  ): Promise<Identity> {
+    return new Identity(
+      await KeyPair.unwrap(stored, dataKey, IDENTITY_KEY, crypto),
+      crypto,
+    );
+  }
+
+  /** Encrypt the private key under a data key */
+  wrap(dataKey: EncryptionHelper): Promise<StoredIdentity> {
+    return this.keyPair.wrap(dataKey);
+  }
+
+  /**
+   * Encrypt a table key for the holder of a public key: ECDH between this
+   * identity and theirs, then HKDF-SHA256 bound to the table and both
+   * public keys. Only the two of them can agree on that key, so the
+   * recipient knows the table key came from this identity.
+   */
+  async wrapTableKey(
+    tableKey: EncryptionHelper,
+    table: string,
+    recipientPublicKey: string,
+  ): Promise<WrappedTableKey> {
+    const wrappingKey = await agreeKey(
+      await this.keyPair.privateKey(),
+      await importPublicKey(recipientPublicKey, this.crypto),
+      table,
+      this.publicKey,
+      recipientPublicKey,
+      this.crypto,
+    );
+    return {
+      ownerPublicKey: this.publicKey,
+      wrappedKey: await wrappingKey.wrapKey(tableKey),
+    };
+  }
+
+  /**
+   * Recover a table key that the holder of a public key wrapped for this
+   * identity with wrapTableKey(). Throws DecryptionError if it was wrapped
+   * by someone else, for someone else, or for another table.
+   */
+  async unwrapTableKey(
+    table: string,
+    wrapped: WrappedTableKey,
+    ownerPublicKey: string,
+  ): Promise<EncryptionHelper> {
+    const wrappingKey = await agreeKey(
+      await this.keyPair.privateKey(),
+      await importPublicKey(ownerPublicKey, this.crypto),
+      table,
+      ownerPublicKey,
+      this.publicKey,
+      this.crypto,
+    );
+    return wrappingKey.unwrapKey(wrapped.wrappedKey);
+  }
+}
+
+/** Short, stable fingerprint of a public key */
+async function publicKeyId(
+  publicKey: string,
+  crypto: CryptoInterface = defaultCrypto(),
+): Promise<string> {
+  const hash = await crypto.subtle.digest(
+    "SHA-256",
+    fromBase64(publicKey) as BufferSource,
+  );
+  return toHex(new Uint8Array(hash, 0, 8));
+}
+
+/** Throws if the value is not a P-256 public key */
+async function importPublicKey(
+  publicKey: string,
+  crypto: CryptoInterface = defaultCrypto(),
+): Promise<CryptoKey> {
+  try {
+    return await crypto.subtle.importKey(
+      "raw",
+      fromBase64(publicKey) as BufferSource,
+      ECDH_P256,
+      true,
+      [],
+    );
+  } catch {
+    throw new Error("Invalid public key");
+  }
+}
+
+async function agreeKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  table: string,
+  ownerPublicKey: string,
+  recipientPublicKey: string,
+  crypto: CryptoInterface,
+): Promise<EncryptionHelper> {
+  const shared = await crypto.subtle.deriveBits(
+    { name: "ECDH", public: publicKey },
+    privateKey,
+    256,
+  );
+  const hkdfKey = await crypto.subtle.importKey("raw", shared, "HKDF", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode(
+        `encrypted-store-table-key\u0000${table}\u0000${ownerPublicKey}\u0000${recipientPublicKey}`,
+      ),
+    },
+    hkdfKey,
+    256,
+  );
+  return EncryptionHelper.fromRawKey(new Uint8Array(bits), crypto);
+}
+
+export { Identity, publicKeyId, importPublicKey };
+export type { StoredIdentity, WrappedTableKey };
@@ -0,0 +1,116 @@
+/**
+ * ECDSA device keys, so that documents can be traced to the device that
+ * wrote them
+ */
+
+import { defaultCrypto, toBase64, fromBase64 } from "./cryptoUtils.js";
+import type { CryptoInterface } from "./cryptoUtils.js";
+import type { EncryptionHelper } from "./encryption.js";
+import { KeyPair } from "./keyPair.js";
+import type { KeyPairKind, StoredKeyPair } from "./keyPair.js";
+
+const ECDSA_P256 = { name: "ECDSA", namedCurve: "P-256" };
+const ECDSA_SHA256 = { name: "ECDSA", hash: "SHA-256" };
+
+const SIGNING_KEY: KeyPairKind = {
+  algorithm: ECDSA_P256,
+  usage: "sign",
+  purpose: "encrypted-store-signing-key",
+};
+
+/** A signing key as kept on its device */
+type StoredSigningKey = StoredKeyPair;
+
+/** A device's ECDSA P-256 keypair */
+class SigningKey {
+  private readonly keyPair: KeyPair;
+  private readonly crypto: CryptoInterface;
+
+  private constructor(keyPair: KeyPair, crypto: CryptoInterface) {
+    this.keyPair = keyPair;
+    this.crypto = crypto;
+  }
+
+  /** Raw public key, base64 */
+  get publicKey(): string {
+    return this.keyPair.publicKey;
+  }
+
+  /** A new random keypair */
+  static async generate(
+    crypto: CryptoInterface = defaultCrypto(),
+  ): Promise<SigningKey> {
+    return new SigningKey(await KeyPair.generate(SIGNING_KEY, crypto), crypto);
+  }
+
+  /** Recover a key stored with wrap() */
+  static async unwrap(
+    stored: StoredSigningKey,
+    dataKey: EncryptionHelper,
+    crypto: CryptoInterface = defaultCrypto(),
+  ): Promise<SigningKey> {
+    return new SigningKey(
+      await KeyPair.unwrap(stored, dataKey, SIGNING_KEY, crypto),
+      crypto,
+    );
+  }
+
+  /** Encrypt the private key under a data key */
+  wrap(dataKey: EncryptionHelper): Promise<StoredSigningKey> {
+    return this.keyPair.wrap(dataKey);
+  }
+
+  /** ECDSA-SHA256 signature of a message, base64 */
+  async sign(message: string): Promise<string> {
+    const signature = await this.crypto.subtle.sign(
+      ECDSA_SHA256,
+      await this.keyPair.privateKey(),
+      new TextEncoder().encode(message),
+    );
+    return toBase64(new Uint8Array(signature));
+  }
+}
+
+/**
+ * Import a raw P-256 public key for verifying.
+ * Throws if the value is not one.
+ */
+async function importVerifyKey(
+  publicKey: string,
+  crypto: CryptoInterface = defaultCrypto(),
+): Promise<CryptoKey> {
+  try {
+    return await crypto.subtle.importKey(
+      "raw",
+      fromBase64(publicKey) as BufferSource,
+      ECDSA_P256,
+      true,
+      ["verify"],
+    );
+  } catch {
+    throw new Error("Invalid public key");
+  }
+}
+
+/** Whether a signature from sign() is valid for the message */
+async function verifySignature(
+  publicKey: CryptoKey,
+  message: string,
+  signature: string,
+  crypto: CryptoInterface = defaultCrypto(),
+): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(
+      ECDSA_SHA256,
+      publicKey,
+      fromBase64(signature) as BufferSource,
+      new TextEncoder().encode(message),
+    );
+  } catch {
+    // Malformed signature
+    return false;
+  }
+}
+
+export { SigningKey, importVerifyKey, verifySignature };
+export type { StoredSigningKey };
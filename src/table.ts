@@ -0,0 +1,105 @@
+/**
+ * Typed handles on one table of a store
+ */
+
+import type {
+  Doc,
+  EncryptedStore,
+  PutOptions,
+  UpdateOptions,
+  PatchOptions,
+  ScanOptions,
+} from "./encryptedStore.js";
+import type { Query } from "./query.js";
+import type { Validator } from "./validation.js";
+
+/** A stored document of a table with fields T */
+type TableDoc<T> = T & {
+  _id: string;
+  _table: string;
+  _rev?: string;
+  _author?: string;
+};
+
+/** A document to write: the fields, with an optional id and revision */
+type TableInput<T> = T & { _id?: string; _rev?: string };
+
+interface TableOptions<T> {
+  /**
+   * Checks documents before they are encrypted (invalid writes reject with
+   * ValidationError) and after they are decrypted (invalid documents go to
+   * onError). Validators see the fields and `_id`.
+   */
+  validate?: Validator<T>;
+}
+
+/**
+ * The documents of one table, typed. Get one with `store.table()`.
+ *
+ * @example
+ * interface Expense { amount: number; category: string }
+ * const expenses = store.table<Expense>("expenses");
+ * await expenses.put({ _id: "lunch", amount: 12, category: "food" });
+ */
+class Table<T extends object = Record<string, any>> {
+  readonly name: string;
+  private readonly store: EncryptedStore;
+
+  constructor(store: EncryptedStore, name: string) {
+    this.store = store;
+    this.name = name;
+  }
+
+  async put(doc: TableInput<T>, options?: PutOptions): Promise<TableDoc<T>> {
+    return (await this.store.put(this.name, doc, options)) as TableDoc<T>;
+  }
+
+  async get(id: string): Promise<TableDoc<T> | null> {
+    return (await this.store.get(this.name, id)) as TableDoc<T> | null;
+  }
+
+  async getAll(options?: ScanOptions): Promise<TableDoc<T>[]> {
+    return (await this.store.getAll(this.name, options)) as TableDoc<T>[];
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(this.name, id);
+  }
+
+  async update(
+    id: string,
+    mutator: (doc: TableDoc<T>) => TableInput<T> | Promise<TableInput<T>>,
+    options?: UpdateOptions,
+  ): Promise<TableDoc<T>> {
+    return this.store.update<TableDoc<T> & Doc>(
+      this.name,
+      id,
+      async (doc) => ({
+        ...(await mutator(doc)),
+        _id: doc._id,
+        _table: doc._table,
+      }),
+      options,
+    );
+  }
+
+  async patch(
+    id: string,
+    fields: Partial<T>,
+    options?: PatchOptions,
+  ): Promise<TableDoc<T>> {
+    return (await this.store.patch(
+      this.name,
+      id,
+      fields,
+      options,
+    )) as TableDoc<T>;
+  }
+
+  async query(query?: Query): Promise<TableDoc<T>[]> {
+    return (await this.store.query(this.name, query)) as TableDoc<T>[];
+  }
+}
+
+export { Table };
+export type { TableDoc, TableInput, TableOptions };
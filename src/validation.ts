@@ -0,0 +1,208 @@
+/**
+ * Checking documents against a JSON Schema (a common subset) or a function
+ */
+
+/** What is wrong with a document, and where (a dotted path, "" for the root) */
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+type SchemaType =
+  "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+/**
+ * The supported keywords of JSON Schema. Others (such as `format` or
+ * `$ref`) are ignored.
+ */
+interface JsonSchema {
+  type?: SchemaType | SchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** Whether properties not in `properties` are allowed (default: true) */
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  anyOf?: JsonSchema[];
+}
+
+/**
+ * A schema, or a function that returns whether a document is valid: true
+ * (or nothing), false, a message, or a list of issues.
+ */
+type Validator<T = any> =
+  JsonSchema | ((doc: T) => boolean | string | ValidationIssue[] | void);
+
+/** Compile a validator to a function that lists a document's issues */
+function compileValidator(
+  validator: Validator,
+): (doc: any) => ValidationIssue[] {
+  if (typeof validator !== "function") {
+    return (doc) => validateSchema(validator, doc);
+  }
+  return (doc) => {
+    const result = validator(doc);
+    if (result === undefined || result === true) return [];
+    if (result === false) return [{ path: "", message: "is invalid" }];
+    if (typeof result === "string") return [{ path: "", message: result }];
+    return result;
+  };
+}
+
+/** The issues of a value against a schema (none if it is valid) */
+function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path: string = "",
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const fail = (message: string) => issues.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => hasType(value, type))) {
+      fail(`must be ${types.join(" or ")}`);
+      return issues;
+    }
+  }
+  if (
+    schema.enum !== undefined &&
+    !schema.enum.some((option) => deepEqual(option, value))
+  ) {
+    fail(
+      `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+    );
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.anyOf !== undefined) {
+    if (
+      !schema.anyOf.some((option) => validateSchema(option, value).length === 0)
+    ) {
+      fail("must match one of the allowed schemas");
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must have at most ${schema.maxLength} characters`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern, "u").test(value)
+    ) {
+      fail(`must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be at most ${schema.maximum}`);
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      fail(`must be more than ${schema.exclusiveMinimum}`);
+    }
+    if (
+      schema.exclusiveMaximum !== undefined &&
+      value >= schema.exclusiveMaximum
+    ) {
+      fail(`must be less than ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined) {
+      for (const [i, item] of value.entries()) {
+        issues.push(
+          ...validateSchema(schema.items, item, join(path, String(i))),
+        );
+      }
+    }
+  }
+
+  if (hasType(value, "object")) {
+    const object = value as Record<string, unknown>;
+    for (const field of schema.required ?? []) {
+      if (object[field] === undefined) {
+        issues.push({ path: join(path, field), message: "is required" });
+      }
+    }
+    for (const [field, fieldValue] of Object.entries(object)) {
+      if (fieldValue === undefined) continue;
+      const fieldSchema = schema.properties?.[field];
+      if (fieldSchema) {
+        issues.push(
+          ...validateSchema(fieldSchema, fieldValue, join(path, field)),
+        );
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: join(path, field), message: "is not allowed" });
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(
+          ...validateSchema(
+            schema.additionalProperties,
+            fieldValue,
+            join(path, field),
+          ),
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+function hasType(value: unknown, type: SchemaType): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+export { compileValidator, validateSchema };
+export type { ValidationIssue, JsonSchema, SchemaType, Validator };